@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuditJob, AuditJobStore, AuditQueue } from './audit-queue';
+
+// In-memory localStorage (the job store persists through it)
+function memoryStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: index => [...items.keys()][index] ?? null,
+        removeItem: key => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, String(value)); }
+    };
+}
+
+// Lets the queue's promise chains and deferred saves run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Worker whose jobs only finish when released, in start order
+function heldWorker() {
+    const started: string[] = [];
+    const pending: (() => void)[] = [];
+    return {
+        started,
+        run: (job: AuditJob<string>) => {
+            started.push(`${job.key}:${job.payload}`);
+            return new Promise<void>(resolve => pending.push(resolve));
+        },
+        release: async () => {
+            pending.shift()?.();
+            await settle();
+        }
+    };
+}
+
+describe('AuditQueue', () => {
+    beforeEach(() => {
+        vi.stubGlobal('localStorage', memoryStorage());
+    });
+
+    it('serves infraction jobs before routine ones', async () => {
+        const worker = heldWorker();
+        const queue = new AuditQueue(worker.run);
+        queue.enqueue('busy', 'routine', 'p0');
+        queue.enqueue('a', 'routine', 'p1');
+        queue.enqueue('b', 'infraction', 'p2');
+
+        for (let i = 0; i < 3; i++) await worker.release();
+        expect(worker.started).toEqual(['busy:p0', 'b:p2', 'a:p1']);
+    });
+
+    it('upgrades a pending routine job when its track infracts', async () => {
+        const worker = heldWorker();
+        const queue = new AuditQueue(worker.run);
+        queue.enqueue('busy', 'routine', 'p0');
+        queue.enqueue('a', 'routine', 'p1');
+        queue.enqueue('b', 'routine', 'p2');
+
+        expect(queue.enqueue('b', 'infraction', 'p3')).toBe(true);
+        expect(queue.enqueue('b', 'routine', 'p4')).toBe(false);
+        expect(queue.enqueue('b', 'infraction', 'p5')).toBe(false);
+        expect(queue.status).toEqual({ pending: 2, running: 1 });
+
+        for (let i = 0; i < 3; i++) await worker.release();
+        expect(worker.started).toEqual(['busy:p0', 'b:p3', 'a:p1']);
+    });
+
+    it('queues an infraction behind a running routine job of the same track', async () => {
+        const worker = heldWorker();
+        const queue = new AuditQueue(worker.run);
+        queue.enqueue('a', 'routine', 'p0');
+
+        expect(queue.enqueue('a', 'routine', 'p1')).toBe(false);
+        expect(queue.enqueue('a', 'infraction', 'p2')).toBe(true);
+        expect(queue.has('a')).toBe(true);
+
+        await worker.release();
+        await worker.release();
+        expect(worker.started).toEqual(['a:p0', 'a:p2']);
+        expect(queue.has('a')).toBe(false);
+    });
+
+    it('refuses routine jobs beyond the cap, never infraction ones', () => {
+        const worker = heldWorker();
+        const queue = new AuditQueue(worker.run);
+        queue.maxRoutine = 2;
+        queue.enqueue('busy', 'routine', 'p0');
+
+        expect(queue.enqueue('a', 'routine', 'p1')).toBe(true);
+        expect(queue.enqueue('b', 'routine', 'p2')).toBe(true);
+        expect(queue.enqueue('c', 'routine', 'p3')).toBe(false);
+        expect(queue.enqueue('c', 'infraction', 'p4')).toBe(true);
+        expect(queue.status).toEqual({ pending: 3, running: 1 });
+    });
+
+    it('keeps running after a failed job', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const started: string[] = [];
+        const queue = new AuditQueue<string>(async job => {
+            started.push(job.key);
+            if (job.key === 'a') throw new Error('judge down');
+        });
+        queue.enqueue('a', 'infraction', 'p1');
+        queue.enqueue('b', 'infraction', 'p2');
+        await settle();
+
+        expect(started).toEqual(['a', 'b']);
+        expect(queue.status).toEqual({ pending: 0, running: 0 });
+    });
+
+    it('restores the persisted backlog, running jobs included, in priority order', async () => {
+        const worker = heldWorker();
+        const queue = new AuditQueue(worker.run, new AuditJobStore<string>('test.queue', p => p.toUpperCase()));
+        queue.enqueue('a', 'routine', 'p1');
+        queue.enqueue('b', 'routine', 'p2');
+        queue.enqueue('c', 'infraction', 'p3');
+        await settle();
+
+        // Saved through shrink; the running job first
+        const saved = JSON.parse(localStorage.getItem('test.queue')!) as AuditJob<string>[];
+        expect(saved.map(j => `${j.key}:${j.payload}`)).toEqual(['a:P1', 'c:P3', 'b:P2']);
+
+        const reloaded = heldWorker();
+        const restored = new AuditQueue(reloaded.run, new AuditJobStore<string>('test.queue'));
+        restored.restore();
+        restored.restore(); // Jobs already known are not added twice
+        expect(restored.status).toEqual({ pending: 2, running: 1 });
+
+        for (let i = 0; i < 3; i++) await reloaded.release();
+        expect(reloaded.started).toEqual(['c:P3', 'a:P1', 'b:P2']);
+    });
+});
@@ -0,0 +1,173 @@
+// --- Audit Job Queue ---
+// Forensic audits take seconds (judge round trip plus retries), so flagged tracks are queued
+// instead of being dropped while another audit runs. Line-crossing infractions are served
+// before routine audits; a track has at most one pending job (a routine job is upgraded when
+// the track infracts before it runs). Routine jobs are capped: once maxRoutine of them are
+// pending, further routine requests are refused until the backlog drains. Pending and
+// running jobs are persisted (trimmed, at most once per tick) so a reload resumes the backlog.
+
+export type AuditPriority = 'infraction' | 'routine';
+
+const PRIORITY_RANK: Record<AuditPriority, number> = { infraction: 0, routine: 1 };
+
+export interface AuditJob<T> {
+    id: string;
+    key: string;            // De-duplication key (one job per track)
+    priority: AuditPriority;
+    enqueuedAt: number;     // ms epoch
+    payload: T;
+}
+
+export interface QueueStatus {
+    pending: number;
+    running: number;
+}
+
+export class AuditQueue<T> {
+    maxRoutine = 10; // Pending routine jobs; infraction jobs are never refused
+
+    private pending: AuditJob<T>[] = [];
+    private running = new Map<string, AuditJob<T>>();
+    private listeners = new Set<(status: QueueStatus) => void>();
+    private concurrencyLimit = 1;
+    private saveScheduled = false;
+
+    constructor(private worker: (job: AuditJob<T>) => Promise<void>, private store: AuditJobStore<T> | null = null) { }
+
+    get concurrency(): number {
+        return this.concurrencyLimit;
+    }
+
+    set concurrency(value: number) {
+        this.concurrencyLimit = Math.max(1, Math.floor(value));
+        this.pump();
+    }
+
+    get status(): QueueStatus {
+        return { pending: this.pending.length, running: this.running.size };
+    }
+
+    // Returns false when the track already has an equal or higher priority job, or when the
+    // routine backlog is full
+    enqueue(key: string, priority: AuditPriority, payload: T): boolean {
+        const queued = this.pending.find(j => j.key === key);
+        if (queued) {
+            if (PRIORITY_RANK[priority] >= PRIORITY_RANK[queued.priority]) return false;
+            queued.priority = priority;
+            queued.payload = payload;
+        } else {
+            const active = [...this.running.values()].find(j => j.key === key);
+            if (active && PRIORITY_RANK[priority] >= PRIORITY_RANK[active.priority]) return false;
+            if (priority === 'routine' && this.pending.filter(j => j.priority === 'routine').length >= this.maxRoutine) return false;
+            this.pending.push({ id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, key, priority, enqueuedAt: Date.now(), payload });
+        }
+        this.sort();
+        this.changed();
+        this.pump();
+        return true;
+    }
+
+    has(key: string): boolean {
+        return this.pending.some(j => j.key === key) || [...this.running.values()].some(j => j.key === key);
+    }
+
+    // Jobs persisted by a previous page load (running ones are run again)
+    restore() {
+        if (!this.store) return;
+        const known = new Set([...this.pending, ...this.running.values()].map(j => j.id));
+        this.pending.push(...this.store.load().filter(j => !known.has(j.id)));
+        this.sort();
+        this.changed();
+        this.pump();
+    }
+
+    clear() {
+        this.pending = [];
+        this.changed();
+    }
+
+    subscribe(listener: (status: QueueStatus) => void): () => void {
+        this.listeners.add(listener);
+        listener(this.status);
+        return () => this.listeners.delete(listener);
+    }
+
+    private sort() {
+        this.pending.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.enqueuedAt - b.enqueuedAt);
+    }
+
+    private pump() {
+        while (this.running.size < this.concurrencyLimit && this.pending.length > 0) {
+            const job = this.pending.shift()!;
+            this.running.set(job.id, job);
+            this.changed();
+            this.worker(job)
+                .catch(e => console.error(`Audit job ${job.key} failed:`, e))
+                .finally(() => {
+                    this.running.delete(job.id);
+                    this.changed();
+                    this.pump();
+                });
+        }
+    }
+
+    private changed() {
+        if (this.store && !this.saveScheduled) {
+            // Several changes per enqueue / job: write the backlog once they have all happened
+            this.saveScheduled = true;
+            queueMicrotask(() => {
+                this.saveScheduled = false;
+                this.store?.save([...this.running.values(), ...this.pending]);
+            });
+        }
+        const status = this.status;
+        this.listeners.forEach(listener => listener(status));
+    }
+}
+
+// --- Persistence ---
+// localStorage is small: jobs are always saved through `shrink` (e.g. with fewer snapshots);
+// the in-memory jobs keep their full payload for the judge.
+export class AuditJobStore<T> {
+    constructor(private storageKey = 'sentinel.auditQueue', private shrink: (payload: T) => T = p => p) { }
+
+    load(): AuditJob<T>[] {
+        try {
+            const jobs = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+            return Array.isArray(jobs) ? jobs : [];
+        } catch {
+            return [];
+        }
+    }
+
+    save(jobs: AuditJob<T>[]) {
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(jobs.map(j => ({ ...j, payload: this.shrink(j.payload) }))));
+        } catch (e) {
+            console.warn('Audit backlog too large to persist:', e);
+        }
+    }
+}
+
+// Audits that failed every retry, kept for manual review across reloads (the queue has
+// already dropped their jobs). Saved through `shrink`, like the backlog.
+export class FailedAuditStore<T> {
+    constructor(private storageKey = 'sentinel.failedAudits', private shrink: (record: T) => T = r => r) { }
+
+    load(): T[] {
+        try {
+            const records = JSON.parse(localStorage.getItem(this.storageKey) || '[]');
+            return Array.isArray(records) ? records : [];
+        } catch {
+            return [];
+        }
+    }
+
+    save(records: T[]) {
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(records.map(this.shrink)));
+        } catch (e) {
+            console.warn('Failed audits too large to persist:', e);
+        }
+    }
+}
@@ -0,0 +1,257 @@
+// --- Global Motion Compensation (BoT-SORT GMC) ---
+// Estimates the camera motion between consecutive tracker steps so Kalman predictions
+// can be warped before association (handheld phones, patrol cars).
+// Pipeline on a downscaled grayscale frame: Shi-Tomasi corners on the previous frame
+// (outside detections, which move on their own) -> coarse-to-fine block matching into the
+// current frame -> RANSAC similarity (rotation + uniform scale + translation) -> least squares.
+// Runs where the detector runs (inference worker, or the main-thread fallback) on the very
+// frame the detections come from, so the warp lines up with the tracker step it feeds.
+import { FrameReader } from './yolo-preprocess';
+
+export type Affine = [[number, number, number], [number, number, number]]; // 2x3, frame pixels
+
+export const IDENTITY_AFFINE: Affine = [[1, 0, 0], [0, 1, 0]];
+
+// `first` then `second` (motion across a tracker step that spans several analyzed frames)
+export function composeAffine(first: Affine, second: Affine): Affine {
+    const [[a1, b1, c1], [d1, e1, f1]] = first;
+    const [[a2, b2, c2], [d2, e2, f2]] = second;
+    return [
+        [a2 * a1 + b2 * d1, a2 * b1 + b2 * e1, a2 * c1 + b2 * f1 + c2],
+        [d2 * a1 + e2 * d1, d2 * b1 + e2 * e1, d2 * c1 + e2 * f1 + f2]
+    ];
+}
+
+export interface GrayFrame {
+    data: Float32Array;
+    width: number;
+    height: number;
+}
+
+type Correspondence = [number, number, number, number]; // x, y (prev) -> x', y' (current)
+
+export class GlobalMotionCompensation {
+    downscaleWidth = 256;
+    gridCols = 12;
+    gridRows = 8;
+    patchRadius = 3;      // 7x7 patches
+    searchRadius = 8;     // At half resolution (≈16 px at downscaled resolution)
+    ransacIterations = 100;
+    inlierThreshold = 1.5; // Downscaled pixels
+    minInliers = 8;
+
+    private prev: GrayFrame | null = null;
+    private prevHalf: GrayFrame | null = null;
+    private reader = new FrameReader();
+
+    reset() {
+        this.prev = null;
+        this.prevHalf = null;
+    }
+
+    // Motion from the previous call's frame to this one; identity on the first call or failure.
+    // exclude: detection boxes [x, y, w, h] in frame pixels (moving objects).
+    estimate(frame: CanvasImageSource, frameWidth: number, frameHeight: number, exclude: [number, number, number, number][] = []): Affine {
+        return this.compare(this.sample(frame, frameWidth, frameHeight), frameWidth, exclude);
+    }
+
+    // Same as estimate() for a frame sampled earlier (before the detections were awaited)
+    compare(gray: GrayFrame | null, frameWidth: number, exclude: [number, number, number, number][] = []): Affine {
+        if (!gray) return IDENTITY_AFFINE;
+        const half = downsample(gray);
+
+        const prev = this.prev;
+        const prevHalf = this.prevHalf;
+        this.prev = gray;
+        this.prevHalf = half;
+        if (!prev || !prevHalf || prev.width !== gray.width || prev.height !== gray.height) return IDENTITY_AFFINE;
+
+        const ds = gray.width / frameWidth;
+        const masks = exclude.map(([x, y, w, h]) => [x * ds, y * ds, (x + w) * ds, (y + h) * ds]);
+
+        const features = this.selectFeatures(prev, masks);
+        const matches: Correspondence[] = [];
+        features.forEach(([x, y]) => {
+            const m = this.track(prev, prevHalf, gray, half, x, y);
+            if (m) matches.push([x, y, m[0], m[1]]);
+        });
+
+        const model = this.ransac(matches);
+        if (!model) return IDENTITY_AFFINE;
+
+        // Linear part is scale-free; translation back to frame pixels
+        const [a, b, tx, ty] = model;
+        return [[a, -b, tx / ds], [b, a, ty / ds]];
+    }
+
+    // Downscaled grayscale copy of a frame
+    sample(frame: CanvasImageSource, frameWidth: number, frameHeight: number): GrayFrame | null {
+        if (!frameWidth || !frameHeight) return null;
+        const width = this.downscaleWidth;
+        const height = Math.round(frameHeight * width / frameWidth);
+
+        const pixels = this.reader.read(frame, width, height);
+        if (!pixels) return null;
+        const rgba = pixels.data;
+        const data = new Float32Array(width * height);
+        for (let i = 0; i < data.length; i++) {
+            data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+        }
+        return { data, width, height };
+    }
+
+    // Strongest Shi-Tomasi corner per grid cell, skipping masked (moving) regions
+    private selectFeatures(img: GrayFrame, masks: number[][]): [number, number][] {
+        const { width, height, data } = img;
+        const margin = this.patchRadius + this.searchRadius * 2 + 2;
+        const cellW = (width - 2 * margin) / this.gridCols;
+        const cellH = (height - 2 * margin) / this.gridRows;
+        if (cellW < 2 || cellH < 2) return [];
+
+        const features: [number, number][] = [];
+        const candidates: { x: number, y: number, score: number }[] = [];
+        let maxScore = 0;
+
+        for (let gy = 0; gy < this.gridRows; gy++) {
+            for (let gx = 0; gx < this.gridCols; gx++) {
+                let best = { x: 0, y: 0, score: 0 };
+                const x0 = Math.floor(margin + gx * cellW);
+                const y0 = Math.floor(margin + gy * cellH);
+                for (let y = y0; y < y0 + cellH; y += 2) {
+                    for (let x = x0; x < x0 + cellW; x += 2) {
+                        if (masks.some(([mx1, my1, mx2, my2]) => x >= mx1 && x <= mx2 && y >= my1 && y <= my2)) continue;
+
+                        // Structure tensor over a 5x5 window
+                        let sxx = 0, syy = 0, sxy = 0;
+                        for (let wy = -2; wy <= 2; wy++) {
+                            for (let wx = -2; wx <= 2; wx++) {
+                                const i = (y + wy) * width + (x + wx);
+                                const ix = (data[i + 1] - data[i - 1]) / 2;
+                                const iy = (data[i + width] - data[i - width]) / 2;
+                                sxx += ix * ix;
+                                syy += iy * iy;
+                                sxy += ix * iy;
+                            }
+                        }
+                        const minEig = (sxx + syy) / 2 - Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy);
+                        if (minEig > best.score) best = { x, y, score: minEig };
+                    }
+                }
+                if (best.score > 0) {
+                    candidates.push(best);
+                    maxScore = Math.max(maxScore, best.score);
+                }
+            }
+        }
+
+        candidates.forEach(c => {
+            if (c.score >= maxScore * 0.01) features.push([c.x, c.y]);
+        });
+        return features;
+    }
+
+    // Coarse search at half resolution, then ±2 px refinement at full resolution
+    private track(prev: GrayFrame, prevHalf: GrayFrame, cur: GrayFrame, curHalf: GrayFrame, x: number, y: number): [number, number] | null {
+        const hx = Math.round(x / 2);
+        const hy = Math.round(y / 2);
+        const coarse = blockMatch(prevHalf, curHalf, hx, hy, hx, hy, this.searchRadius, this.patchRadius);
+        if (!coarse) return null;
+
+        const fine = blockMatch(prev, cur, x, y, coarse[0] * 2, coarse[1] * 2, 2, this.patchRadius);
+        return fine;
+    }
+
+    // Similarity model [a, b, tx, ty]: x' = a x - b y + tx, y' = b x + a y + ty
+    private ransac(matches: Correspondence[]): [number, number, number, number] | null {
+        if (matches.length < this.minInliers) return null;
+
+        let bestInliers: Correspondence[] = [];
+        for (let iter = 0; iter < this.ransacIterations; iter++) {
+            const i = Math.floor(Math.random() * matches.length);
+            let j = Math.floor(Math.random() * matches.length);
+            if (i === j) j = (j + 1) % matches.length;
+
+            const model = fitSimilarity([matches[i], matches[j]]);
+            if (!model) continue;
+            const inliers = matches.filter(m => residual(model, m) < this.inlierThreshold);
+            if (inliers.length > bestInliers.length) bestInliers = inliers;
+        }
+
+        if (bestInliers.length < this.minInliers) return null;
+        return fitSimilarity(bestInliers);
+    }
+}
+
+// Least-squares similarity through centroids
+function fitSimilarity(matches: Correspondence[]): [number, number, number, number] | null {
+    const n = matches.length;
+    let cx = 0, cy = 0, cx2 = 0, cy2 = 0;
+    matches.forEach(([x, y, x2, y2]) => { cx += x; cy += y; cx2 += x2; cy2 += y2; });
+    cx /= n; cy /= n; cx2 /= n; cy2 /= n;
+
+    let num1 = 0, num2 = 0, den = 0;
+    matches.forEach(([x, y, x2, y2]) => {
+        const px = x - cx, py = y - cy, qx = x2 - cx2, qy = y2 - cy2;
+        num1 += px * qx + py * qy;
+        num2 += px * qy - py * qx;
+        den += px * px + py * py;
+    });
+    if (den < 1e-6) {
+        // Degenerate spread (e.g. 2 coincident points): pure translation
+        return [1, 0, cx2 - cx, cy2 - cy];
+    }
+
+    const a = num1 / den;
+    const b = num2 / den;
+    return [a, b, cx2 - (a * cx - b * cy), cy2 - (b * cx + a * cy)];
+}
+
+function residual([a, b, tx, ty]: [number, number, number, number], [x, y, x2, y2]: Correspondence): number {
+    const px = a * x - b * y + tx;
+    const py = b * x + a * y + ty;
+    return Math.hypot(px - x2, py - y2);
+}
+
+function downsample(img: GrayFrame): GrayFrame {
+    const width = Math.floor(img.width / 2);
+    const height = Math.floor(img.height / 2);
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = 2 * y * img.width + 2 * x;
+            data[y * width + x] = (img.data[i] + img.data[i + 1] + img.data[i + img.width] + img.data[i + img.width + 1]) / 4;
+        }
+    }
+    return { data, width, height };
+}
+
+// Sum of absolute differences: patch around (x, y) in a, searched around (sx, sy) in b
+function blockMatch(a: GrayFrame, b: GrayFrame, x: number, y: number, sx: number, sy: number, radius: number, patch: number): [number, number] | null {
+    const inside = (img: GrayFrame, px: number, py: number) =>
+        px - patch >= 0 && py - patch >= 0 && px + patch < img.width && py + patch < img.height;
+    if (!inside(a, x, y)) return null;
+
+    let best: [number, number] | null = null;
+    let bestSad = Infinity;
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            const bx = sx + dx;
+            const by = sy + dy;
+            if (!inside(b, bx, by)) continue;
+
+            let sad = 0;
+            for (let py = -patch; py <= patch && sad < bestSad; py++) {
+                const rowA = (y + py) * a.width + x;
+                const rowB = (by + py) * b.width + bx;
+                for (let px = -patch; px <= patch; px++) {
+                    sad += Math.abs(a.data[rowA + px] - b.data[rowB + px]);
+                }
+            }
+            if (sad < bestSad) {
+                bestSad = sad;
+                best = [bx, by];
+            }
+        }
+    }
+    return best;
+}
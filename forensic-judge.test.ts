@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    AuditEvidence, AuditFailedError, ForensicJudge, MockJudge, UNREAD_PLATE, VerdictValidationError,
+    judgeWithRetry, validateVerdict
+} from './forensic-judge';
+
+function evidence(overrides: Partial<AuditEvidence> = {}): AuditEvidence {
+    return {
+        trackId: 7,
+        vehicleClass: 'car',
+        trackAge: 42,
+        yoloConfidence: 0.87,
+        plate: '1234BCD',
+        speedEstimated: '48 km/h',
+        infractionType: 'CRUCE_LINEA_CONTINUA',
+        snapshots: [],
+        pipeline: 'YOLOv11n + ByteTrack',
+        metrology: 'Sin calibrar',
+        facts: [['Zona', 'LÍNEA CONTINUA CENTRAL'], ['Velocidad', '48 km/h']],
+        ...overrides
+    };
+}
+
+function verdict(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        infraction: true,
+        plate: '1234 BCD',
+        ocrConfidence: 0.93,
+        description: 'El turismo pisa la línea continua central.',
+        severity: 'grave',
+        legalArticle: 'Art. 167 RD 1428/2003 (RGC)',
+        reasoning: ['Rueda izquierda sobre la marca vial'],
+        vehicleType: 'Turismo blanco',
+        subType: 'turismo',
+        confidence: 0.9,
+        telemetry: { speedEstimated: '48 km/h', maneuverType: 'Cruce', poseAlert: false },
+        ...overrides
+    };
+}
+
+function issuesOf(value: unknown): string[] {
+    try {
+        validateVerdict(value);
+    } catch (e) {
+        expect(e).toBeInstanceOf(VerdictValidationError);
+        return (e as VerdictValidationError).issues;
+    }
+    throw new Error('verdict was accepted');
+}
+
+describe('MockJudge', () => {
+    const judge = new MockJudge();
+
+    it('takes the flagging rule as the verdict', async () => {
+        const result = await judge.judge(evidence());
+
+        expect(result.infraction).toBe(true);
+        expect(result.plate).toBe('1234BCD');
+        expect(result.severity).toBe('grave');
+        expect(result.legalArticle).toBe('Art. 167 RD 1428/2003 (RGC)');
+        expect(result.reasoning).toEqual(['Zona: LÍNEA CONTINUA CENTRAL', 'Velocidad: 48 km/h']);
+        expect(result.telemetry).toEqual({ speedEstimated: '48 km/h', maneuverType: 'Cruce', poseAlert: false });
+    });
+
+    it('knows the bus lane and loading zone infractions', async () => {
+        const bus = await judge.judge(evidence({ infractionType: 'CIRCULACION_CARRIL_BUS' }));
+        expect(bus.severity).toBe('grave');
+        expect(bus.legalArticle).toBe('Art. 35 RD 1428/2003 (RGC)');
+
+        const loading = await judge.judge(evidence({ infractionType: 'ESTACIONAMIENTO_ZONA_CARGA' }));
+        expect(loading.severity).toBe('leve');
+        expect(loading.legalArticle).toBe('Art. 91 y 94 RD 1428/2003 (RGC)');
+        expect(loading.telemetry.maneuverType).toBe('Estacionamiento en zona de carga');
+    });
+
+    it('clears routine audits and reports an unread plate', async () => {
+        const result = await judge.judge(evidence({ infractionType: null, plate: undefined }));
+
+        expect(result.infraction).toBe(false);
+        expect(result.plate).toBe(UNREAD_PLATE);
+        expect(result.ocrConfidence).toBe(0);
+        expect(result.severity).toBe('leve');
+    });
+});
+
+describe('validateVerdict', () => {
+    it('accepts a complete verdict and normalizes the plate', () => {
+        const result = validateVerdict(verdict({ plate: 'm-1234-ab' }));
+        expect(result.plate).toBe('M1234AB');
+        expect(result.telemetry.speedEstimated).toBe('48 km/h');
+    });
+
+    it('keeps the unread plate marker', () => {
+        expect(validateVerdict(verdict({ plate: 'sin lectura' })).plate).toBe(UNREAD_PLATE);
+    });
+
+    it('rejects a severity outside the schema', () => {
+        expect(issuesOf(verdict({ severity: 'gravísima' }))).toEqual(['severity debe ser leve|grave|muy-grave: "gravísima"']);
+    });
+
+    it('rejects a plate no Spanish layout fits', () => {
+        expect(issuesOf(verdict({ plate: '1234 ABC' }))).toEqual(['matrícula con formato no válido: "1234 ABC"']);
+    });
+
+    it('rejects a verdict without telemetry', () => {
+        const { telemetry, ...rest } = verdict();
+        expect(telemetry).toBeDefined();
+        expect(issuesOf(rest)).toEqual(['falta telemetry']);
+    });
+
+    it('lists every issue of an answer that is not an object', () => {
+        const issues = issuesOf('[]');
+        expect(issues[0]).toBe('la respuesta no es un objeto JSON');
+        expect(issues).toContain('falta telemetry');
+    });
+});
+
+describe('judgeWithRetry', () => {
+    const policy = { attempts: 4, baseDelayMs: 1000, maxDelayMs: 3000 };
+
+    // Judge failing `failures` times before answering; records the instant of each call
+    function flakyJudge(failures: number) {
+        const calls: number[] = [];
+        const judge: ForensicJudge = {
+            name: 'FLAKY',
+            judge: async () => {
+                calls.push(Date.now());
+                if (calls.length <= failures) {
+                    if (calls.length % 2) throw new Error('503 Service Unavailable');
+                    throw new VerdictValidationError(['description vacía'], '{"description": ""}');
+                }
+                return validateVerdict(verdict());
+            }
+        };
+        return { judge, calls };
+    }
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(0);
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('backs off exponentially between attempts', async () => {
+        const { judge, calls } = flakyJudge(2);
+        const result = judgeWithRetry(judge, evidence(), '', policy);
+        await vi.runAllTimersAsync();
+
+        await expect(result).resolves.toMatchObject({ plate: '1234BCD' });
+        expect(calls).toEqual([0, 1000, 3000]);
+    });
+
+    it('caps the backoff at maxDelayMs', async () => {
+        const { judge, calls } = flakyJudge(3);
+        const result = judgeWithRetry(judge, evidence(), '', policy);
+        await vi.runAllTimersAsync();
+
+        await expect(result).resolves.toBeDefined();
+        expect(calls).toEqual([0, 1000, 3000, 6000]);
+    });
+
+    it('fails with every attempt recorded once the policy is exhausted', async () => {
+        const { judge, calls } = flakyJudge(Infinity);
+        const result = judgeWithRetry(judge, evidence(), '', policy).then(() => null, (e: unknown) => e);
+        await vi.runAllTimersAsync();
+        const failure = await result;
+
+        expect(failure).toBeInstanceOf(AuditFailedError);
+        expect(calls).toHaveLength(4);
+        const { attempts } = failure as AuditFailedError;
+        expect(attempts.map(a => a.error)).toEqual([
+            '503 Service Unavailable', 'Veredicto inválido: description vacía',
+            '503 Service Unavailable', 'Veredicto inválido: description vacía'
+        ]);
+        expect(attempts[1].issues).toEqual(['description vacía']);
+        expect(attempts[1].raw).toBe('{"description": ""}');
+    });
+});
@@ -0,0 +1,390 @@
+// --- Forensic Judge (cloud / local / offline audit backends) ---
+// The legal judgement of a flagged track is delegated to a ForensicJudge: the evidence
+// (snapshot burst plus the measured telemetry, already worded for the prompt) and the
+// municipal directives go in, an AuditVerdict comes out. Gemini is the production backend;
+// an OpenAI-compatible endpoint serves a locally hosted model, and the rule-only mock
+// lets the whole infraction flow run with no network. Model answers are constrained by a
+// response schema and validated again on arrival; invalid ones are retried with backoff.
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { isValidPlate, normalizePlate } from './spanish-plate';
+
+export interface AuditEvidence {
+    trackId: number;
+    vehicleClass: string;
+    trackAge: number;              // Frames
+    yoloConfidence: number;
+    plate?: string;                // On-device reading, when there is one
+    speedEstimated: string;        // 'N/D' when the camera is not calibrated
+    infractionType: string | null; // Rule that flagged the track (null = routine audit)
+    snapshots: string[];           // Base64 JPEG burst
+    pipeline: string;              // Edge pipeline description (detector, tracker, settings)
+    metrology: string;             // Ground calibration in force, or its absence
+    facts: [string, string][];     // Measured data, one prompt line each
+}
+
+export interface AuditVerdict {
+    infraction: boolean;
+    plate: string;
+    ocrConfidence: number;
+    description: string;
+    severity: string;
+    legalArticle: string;
+    reasoning: string[];
+    vehicleType: string;
+    subType: string;
+    confidence: number;
+    telemetry: {
+        speedEstimated: string;
+        maneuverType: string;
+        poseAlert: boolean;
+    };
+}
+
+export interface ForensicJudge {
+    readonly name: string;
+    judge(evidence: AuditEvidence, directives: string): Promise<AuditVerdict>;
+}
+
+// --- Prompt ---
+export const AUDIT_REQUEST = "Ejecutar auditoría forense inmediata basada en directivas de Daganzo.";
+
+export function buildSystemInstruction(evidence: AuditEvidence, directives: string): string {
+    return `Eres el AUDITOR FORENSE SUPREMO asignado a la Policía Local de Daganzo de Arriba.
+
+      ESPECIFICACIONES TÉCNICAS DEL SISTEMA (SENTINEL V15 - ARQUITECTURA HÍBRIDA EDGE+CLOUD):
+      1. Capa Local (Edge Computing): ${evidence.pipeline}
+      2. Capa Remota (Cloud Judiciary - TU ROL): Juicio legal definitivo de la escena basado en evidencia visual multiplexada y las directivas municipales de Daganzo.
+      3. Geometría Espacial: Sistema de coordenadas normalizado (0-1000) con segmentos, polilíneas y polígonos (cruce por intersección de segmentos, ocupación por punto-en-polígono y tiempo de permanencia por zona).
+      4. Metrología: ${evidence.metrology}.
+
+      DATOS DEL VEHÍCULO ANALIZADO:
+${evidence.facts.map(([label, value]) => `      - ${label}: ${value}`).join('\n')}
+
+      INSTRUCCIONES DE ANÁLISIS:
+      Analiza la ráfaga de imágenes forenses para determinar si existe infracción de tráfico siguiendo ESTRICTAMENTE estas directivas municipales de Daganzo:
+      "${directives}"
+
+      SALIDA JSON OBLIGATORIA (NO OTROS FORMATOS):
+      {
+        "infraction": boolean,
+        "plate": "MATRÍCULA",
+        "ocrConfidence": 0.95,
+        "description": "Relato técnico detallado de la infracción según directivas, incluyendo evidencia visual específica observada",
+        "severity": "leve|grave|muy-grave",
+        "legalArticle": "Artículo específico del código de circulación español",
+        "reasoning": ["Evidencia visual 1", "Evidencia visual 2", "Inferencia técnica"],
+        "vehicleType": "Descripción visual del vehículo (marca, modelo, color)",
+        "subType": "turismo|furgoneta|camión|moto|bus",
+        "confidence": 0.98,
+        "telemetry": {
+          "speedEstimated": "${evidence.speedEstimated}",
+          "trackAge": "${evidence.trackAge} frames",
+          "yoloConfidence": "${evidence.yoloConfidence.toFixed(3)}",
+          "maneuverType": "Giro/Cruce/Adelantamiento/Recto",
+          "poseAlert": boolean
+        }
+      }`;
+}
+
+// --- Verdict schema ---
+export const SEVERITIES = ['leve', 'grave', 'muy-grave'] as const;
+export const UNREAD_PLATE = 'SIN LECTURA';
+
+export const VERDICT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        infraction: { type: Type.BOOLEAN },
+        plate: { type: Type.STRING, description: `Matrícula española sin espacios ni guiones, o "${UNREAD_PLATE}"` },
+        ocrConfidence: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+        description: { type: Type.STRING },
+        severity: { type: Type.STRING, format: 'enum', enum: [...SEVERITIES] },
+        legalArticle: { type: Type.STRING },
+        reasoning: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '1' },
+        vehicleType: { type: Type.STRING },
+        subType: { type: Type.STRING },
+        confidence: { type: Type.NUMBER, minimum: 0, maximum: 1 },
+        telemetry: {
+            type: Type.OBJECT,
+            properties: {
+                speedEstimated: { type: Type.STRING },
+                maneuverType: { type: Type.STRING },
+                poseAlert: { type: Type.BOOLEAN }
+            },
+            required: ['maneuverType', 'poseAlert']
+        }
+    },
+    required: ['infraction', 'plate', 'ocrConfidence', 'description', 'severity', 'legalArticle', 'reasoning', 'vehicleType', 'subType', 'confidence', 'telemetry'],
+    propertyOrdering: ['infraction', 'plate', 'ocrConfidence', 'description', 'severity', 'legalArticle', 'reasoning', 'vehicleType', 'subType', 'confidence', 'telemetry']
+};
+
+// Same schema as standard JSON Schema (OpenAI-compatible structured output)
+function toJsonSchema(schema: Schema): Record<string, unknown> {
+    const out: Record<string, unknown> = { type: schema.type!.toLowerCase() };
+    if (schema.enum) out.enum = schema.enum;
+    if (schema.minimum !== undefined) out.minimum = schema.minimum;
+    if (schema.maximum !== undefined) out.maximum = schema.maximum;
+    if (schema.minItems !== undefined) out.minItems = Number(schema.minItems);
+    if (schema.items) out.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+        out.required = schema.required || [];
+    }
+    return out;
+}
+
+// --- Validation ---
+export class VerdictValidationError extends Error {
+    constructor(public issues: string[], public raw: string) {
+        super(`Veredicto inválido: ${issues.join('; ')}`);
+        this.name = 'VerdictValidationError';
+    }
+}
+
+// Checks a decoded answer against the schema; returns it with the plate normalized
+export function validateVerdict(value: unknown, raw = JSON.stringify(value)): AuditVerdict {
+    const issues: string[] = [];
+    const v = (typeof value === 'object' && value !== null ? value : {}) as Record<string, any>;
+    const isText = (x: unknown) => typeof x === 'string' && x.trim().length > 0;
+    const isUnit = (x: unknown) => typeof x === 'number' && Number.isFinite(x) && x >= 0 && x <= 1;
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) issues.push('la respuesta no es un objeto JSON');
+    if (typeof v.infraction !== 'boolean') issues.push('infraction debe ser booleano');
+    const plate = typeof v.plate === 'string' ? normalizePlate(v.plate) : '';
+    if (plate !== normalizePlate(UNREAD_PLATE) && !isValidPlate(plate)) issues.push(`matrícula con formato no válido: ${JSON.stringify(v.plate)}`);
+    if (!isUnit(v.ocrConfidence)) issues.push('ocrConfidence fuera de [0, 1]');
+    if (!isText(v.description)) issues.push('description vacía');
+    if (!SEVERITIES.includes(v.severity)) issues.push(`severity debe ser ${SEVERITIES.join('|')}: ${JSON.stringify(v.severity)}`);
+    if (!isText(v.legalArticle)) issues.push('legalArticle vacío');
+    if (!Array.isArray(v.reasoning) || v.reasoning.length === 0 || !v.reasoning.every(isText)) issues.push('reasoning debe ser una lista de textos');
+    if (!isText(v.vehicleType)) issues.push('vehicleType vacío');
+    if (!isText(v.subType)) issues.push('subType vacío');
+    if (!isUnit(v.confidence)) issues.push('confidence fuera de [0, 1]');
+    const telemetry = (typeof v.telemetry === 'object' && v.telemetry !== null ? v.telemetry : null) as Record<string, any> | null;
+    if (!telemetry) issues.push('falta telemetry');
+    else {
+        if (!isText(telemetry.maneuverType)) issues.push('telemetry.maneuverType vacío');
+        if (typeof telemetry.poseAlert !== 'boolean') issues.push('telemetry.poseAlert debe ser booleano');
+    }
+
+    if (issues.length > 0) throw new VerdictValidationError(issues, raw);
+    return {
+        ...(v as AuditVerdict),
+        plate: plate === normalizePlate(UNREAD_PLATE) ? UNREAD_PLATE : plate,
+        telemetry: { ...telemetry, speedEstimated: typeof telemetry!.speedEstimated === 'string' ? telemetry!.speedEstimated : '' } as AuditVerdict['telemetry']
+    };
+}
+
+// First JSON object in a model answer (models sometimes wrap it in prose or fences)
+export function parseVerdictText(text: string): AuditVerdict {
+    const json = text.trim().match(/\{[\s\S]*\}/)?.[0];
+    if (!json) throw new VerdictValidationError(['la respuesta no contiene JSON'], text);
+    let value: unknown;
+    try {
+        value = JSON.parse(json);
+    } catch (e) {
+        throw new VerdictValidationError([`JSON mal formado (${(e as Error).message})`], text);
+    }
+    return validateVerdict(value, text);
+}
+
+// --- Gemini ---
+export class GeminiJudge implements ForensicJudge {
+    readonly name: string;
+
+    constructor(private apiKey: string, private model = 'gemini-3-flash-preview') {
+        this.name = `GEMINI ${model}`;
+    }
+
+    async judge(evidence: AuditEvidence, directives: string): Promise<AuditVerdict> {
+        const ai = new GoogleGenAI({ apiKey: this.apiKey });
+        const parts = evidence.snapshots.map(s => ({ inlineData: { mimeType: 'image/jpeg', data: s } }));
+        const response = await ai.models.generateContent({
+            model: this.model,
+            contents: { parts: [...parts, { text: AUDIT_REQUEST }] },
+            config: {
+                systemInstruction: buildSystemInstruction(evidence, directives),
+                responseMimeType: "application/json",
+                responseSchema: VERDICT_SCHEMA,
+                temperature: 0.1
+            }
+        });
+        return parseVerdictText(response.text || '');
+    }
+}
+
+// --- OpenAI-compatible chat completions (llama.cpp, vLLM, Ollama, LM Studio...) ---
+export class OpenAICompatibleJudge implements ForensicJudge {
+    readonly name: string;
+
+    constructor(private endpoint: string, private model: string, private apiKey?: string) {
+        this.name = `LOCAL ${model}`;
+    }
+
+    async judge(evidence: AuditEvidence, directives: string): Promise<AuditVerdict> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        const response = await fetch(`${this.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                temperature: 0.1,
+                response_format: { type: 'json_schema', json_schema: { name: 'audit_verdict', schema: toJsonSchema(VERDICT_SCHEMA) } },
+                messages: [
+                    { role: 'system', content: buildSystemInstruction(evidence, directives) },
+                    {
+                        role: 'user',
+                        content: [
+                            { type: 'text', text: AUDIT_REQUEST },
+                            ...evidence.snapshots.map(s => ({ type: 'image_url', image_url: { url: `data:image/jpeg;base64,${s}` } }))
+                        ]
+                    }
+                ]
+            })
+        });
+        if (!response.ok) throw new Error(`Judge endpoint ${response.status}: ${await response.text()}`);
+        const data = await response.json();
+        return parseVerdictText(data.choices?.[0]?.message?.content || '');
+    }
+}
+
+// --- Deterministic mock (rules only, no network) ---
+// The flagging rule is taken as the verdict; severity and article follow the infraction type.
+const MOCK_RULES: Record<string, { severity: string; legalArticle: string; maneuver: string }> = {
+    CRUCE_LINEA_CONTINUA: { severity: 'grave', legalArticle: 'Art. 167 RD 1428/2003 (RGC)', maneuver: 'Cruce' },
+    NO_DETENCION_STOP: { severity: 'grave', legalArticle: 'Art. 151 RD 1428/2003 (RGC)', maneuver: 'Cruce' },
+    INVASION_PASO_PEATONES: { severity: 'grave', legalArticle: 'Art. 65 RD 1428/2003 (RGC)', maneuver: 'Cruce' },
+    REBASAR_SEMAFORO_ROJO: { severity: 'grave', legalArticle: 'Art. 146 RD 1428/2003 (RGC)', maneuver: 'Cruce' },
+    CIRCULACION_SENTIDO_CONTRARIO: { severity: 'muy-grave', legalArticle: 'Art. 77 RDL 6/2015 (LSV)', maneuver: 'Recto' },
+    CIRCULACION_CARRIL_BUS: { severity: 'grave', legalArticle: 'Art. 35 RD 1428/2003 (RGC)', maneuver: 'Recto' },
+    ESTACIONAMIENTO_ZONA_CARGA: { severity: 'leve', legalArticle: 'Art. 91 y 94 RD 1428/2003 (RGC)', maneuver: 'Estacionamiento en zona de carga' },
+    EXCESO_VELOCIDAD: { severity: 'grave', legalArticle: 'Art. 76.a RDL 6/2015 (LSV)', maneuver: 'Recto' }
+};
+
+export class MockJudge implements ForensicJudge {
+    readonly name = 'MOCK (reglas locales)';
+
+    async judge(evidence: AuditEvidence): Promise<AuditVerdict> {
+        const rule = evidence.infractionType ? MOCK_RULES[evidence.infractionType] : undefined;
+        const infraction = evidence.infractionType !== null;
+        return validateVerdict({
+            infraction,
+            plate: evidence.plate || UNREAD_PLATE,
+            ocrConfidence: evidence.plate ? 1 : 0,
+            description: infraction
+                ? `Infracción ${evidence.infractionType} detectada por las reglas locales sobre el track ${evidence.trackId} (${evidence.vehicleClass}). Veredicto sin revisión visual.`
+                : `Sin infracción: el track ${evidence.trackId} no activó ninguna regla local.`,
+            severity: rule?.severity || 'leve',
+            legalArticle: rule?.legalArticle || 'RD 1428/2003 (RGC)',
+            reasoning: evidence.facts.map(([label, value]) => `${label}: ${value}`),
+            vehicleType: evidence.vehicleClass,
+            subType: evidence.vehicleClass,
+            confidence: Math.min(1, Math.max(0, evidence.yoloConfidence)),
+            telemetry: {
+                speedEstimated: evidence.speedEstimated,
+                maneuverType: rule?.maneuver || 'Recto',
+                poseAlert: false
+            }
+        });
+    }
+}
+
+// --- Retries ---
+export interface RetryPolicy {
+    attempts: number;    // Total judge calls per audit
+    baseDelayMs: number; // Backoff before the 2nd call, doubled for each later one
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    attempts: 3,
+    baseDelayMs: 1500,
+    maxDelayMs: 8000
+};
+
+export interface AuditAttempt {
+    at: number;       // ms epoch
+    error: string;
+    issues?: string[]; // Schema violations of an invalid answer
+    raw?: string;      // Answer text as received
+}
+
+export class AuditFailedError extends Error {
+    constructor(public attempts: AuditAttempt[]) {
+        super(`Auditoría fallida tras ${attempts.length} intentos: ${attempts[attempts.length - 1]?.error}`);
+        this.name = 'AuditFailedError';
+    }
+}
+
+// Invalid answers and transport errors alike are retried with exponential backoff
+export async function judgeWithRetry(
+    judge: ForensicJudge,
+    evidence: AuditEvidence,
+    directives: string,
+    policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): Promise<AuditVerdict> {
+    const attempts: AuditAttempt[] = [];
+    for (let i = 0; i < policy.attempts; i++) {
+        if (i > 0) await new Promise(resolve => setTimeout(resolve, Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (i - 1))));
+        try {
+            return await judge.judge(evidence, directives);
+        } catch (e) {
+            const error = e as Error;
+            attempts.push(e instanceof VerdictValidationError
+                ? { at: Date.now(), error: error.message, issues: e.issues, raw: e.raw.slice(0, 4000) }
+                : { at: Date.now(), error: error.message || String(e) });
+            console.warn(`⚖️ ${judge.name}: intento ${i + 1}/${policy.attempts} fallido — ${error.message}`);
+        }
+    }
+    throw new AuditFailedError(attempts);
+}
+
+// --- Selection (persisted per browser; `?judge=mock` forces a backend, e.g. for headless runs) ---
+export type JudgeBackend = 'gemini' | 'openai' | 'mock';
+
+export interface JudgeConfig {
+    backend: JudgeBackend;
+    geminiModel: string;
+    endpoint: string; // OpenAI-compatible base URL (…/v1)
+    model: string;
+    apiKey: string;
+}
+
+export const DEFAULT_JUDGE_CONFIG: JudgeConfig = {
+    backend: 'gemini',
+    geminiModel: 'gemini-3-flash-preview',
+    endpoint: 'http://localhost:11434/v1',
+    model: 'qwen2.5vl',
+    apiKey: ''
+};
+
+const JUDGE_STORAGE_KEY = 'sentinel.forensicJudge';
+
+export function loadJudgeConfig(): JudgeConfig {
+    let stored: Partial<JudgeConfig> = {};
+    try {
+        stored = JSON.parse(localStorage.getItem(JUDGE_STORAGE_KEY) || '{}');
+    } catch {
+        stored = {};
+    }
+    const config = { ...DEFAULT_JUDGE_CONFIG, ...stored };
+    const forced = new URLSearchParams(window.location.search).get('judge');
+    if (forced === 'gemini' || forced === 'openai' || forced === 'mock') config.backend = forced;
+    return config;
+}
+
+export function saveJudgeConfig(config: JudgeConfig) {
+    localStorage.setItem(JUDGE_STORAGE_KEY, JSON.stringify(config));
+}
+
+export function createJudge(config: JudgeConfig, geminiApiKey: string): ForensicJudge {
+    switch (config.backend) {
+        case 'openai':
+            return new OpenAICompatibleJudge(config.endpoint, config.model, config.apiKey || undefined);
+        case 'mock':
+            return new MockJudge();
+        default:
+            return new GeminiJudge(geminiApiKey, config.geminiModel);
+    }
+}
@@ -0,0 +1,164 @@
+// --- Frame Acquisition (one capture per tick) ---
+// The video frame is drawn once per processFrame tick into a reused canvas; inference
+// submission, BoT-SORT appearance fallback and snapshot crops all read that same
+// pixel buffer instead of each creating their own canvas. Stage timings are collected
+// alongside so the HUD can show where the frame budget goes. Each copy is stamped with the
+// media time of the presented video frame (requestVideoFrameCallback) for kinematics.
+
+export type StageTimings = Record<string, number>; // stage -> milliseconds
+
+// Pixels of the current tick, as consumed by the trackers
+export interface CapturedFrame {
+    readonly width: number;
+    readonly height: number;
+    source(): CanvasImageSource | null;
+    imageData(): ImageData | null;
+}
+
+export function timeStage<T>(timings: StageTimings, stage: string, fn: () => T): T {
+    const start = performance.now();
+    try {
+        return fn();
+    } finally {
+        timings[stage] = (timings[stage] || 0) + performance.now() - start;
+    }
+}
+
+export async function timeStageAsync<T>(timings: StageTimings, stage: string, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+    try {
+        return await fn();
+    } finally {
+        timings[stage] = (timings[stage] || 0) + performance.now() - start;
+    }
+}
+
+export class FrameCapture implements CapturedFrame {
+    tick = 0;
+    width = 0;
+    height = 0;
+    timings: StageTimings = {}; // Main-thread stages of the current tick
+    mediaTime = 0;              // Media time (s) of the frame held by source()
+
+    private video: HTMLVideoElement | null = null;
+    private watched: HTMLVideoElement | null = null;
+    private presentedMediaTime: number | null = null; // Latest requestVideoFrameCallback metadata
+    private canvas: HTMLCanvasElement | null = null;
+    private ctx: CanvasRenderingContext2D | null = null;
+    private drawnTick = -1;
+    private pixels: ImageData | null = null;
+    private pixelsTick = -1;
+    private cropCanvas: HTMLCanvasElement | null = null;
+    private regionCanvas: HTMLCanvasElement | null = null;
+    private regionCtx: CanvasRenderingContext2D | null = null;
+
+    // Start a new tick; nothing is copied until a stage asks for pixels
+    begin(video: HTMLVideoElement) {
+        this.tick++;
+        this.video = video;
+        if (video !== this.watched) this.watch(video);
+        this.width = video.videoWidth;
+        this.height = video.videoHeight;
+        this.timings = {};
+    }
+
+    // Full-resolution copy of this tick's frame (drawn on first use)
+    source(): HTMLCanvasElement | null {
+        if (!this.video || !this.width || !this.height) return null;
+        if (this.drawnTick === this.tick && this.canvas) return this.canvas;
+
+        if (!this.canvas) {
+            this.canvas = document.createElement('canvas');
+            this.ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+        }
+        if (!this.ctx) return null;
+
+        timeStage(this.timings, 'capture', () => {
+            if (this.canvas!.width !== this.width || this.canvas!.height !== this.height) {
+                this.canvas!.width = this.width;
+                this.canvas!.height = this.height;
+            }
+            this.ctx!.drawImage(this.video!, 0, 0, this.width, this.height);
+        });
+        this.mediaTime = this.presentedMediaTime ?? this.video.currentTime;
+        this.drawnTick = this.tick;
+        return this.canvas;
+    }
+
+    // Follow the media time of each presented frame; without requestVideoFrameCallback
+    // source() falls back to currentTime (coarser, but still the media clock)
+    private watch(video: HTMLVideoElement) {
+        this.watched = video;
+        this.presentedMediaTime = null;
+        if (!('requestVideoFrameCallback' in video)) return;
+
+        const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+            if (this.watched !== video) return;
+            this.presentedMediaTime = metadata.mediaTime;
+            video.requestVideoFrameCallback(onFrame);
+        };
+        video.requestVideoFrameCallback(onFrame);
+    }
+
+    // RGBA pixels of this tick's frame (one getImageData per tick)
+    imageData(): ImageData | null {
+        if (this.pixelsTick === this.tick && this.pixels) return this.pixels;
+        const canvas = this.source();
+        if (!canvas || !this.ctx) return null;
+
+        this.pixels = timeStage(this.timings, 'readback', () => this.ctx!.getImageData(0, 0, this.width, this.height));
+        this.pixelsTick = this.tick;
+        return this.pixels;
+    }
+
+    // RGBA pixels of a region [x, y, w, h] scaled down to outWidth x outHeight (small ROIs
+    // such as a traffic light, without reading back the whole frame)
+    regionData(region: [number, number, number, number], outWidth: number, outHeight: number): ImageData | null {
+        const canvas = this.source();
+        if (!canvas) return null;
+
+        if (!this.regionCanvas) {
+            this.regionCanvas = document.createElement('canvas');
+            this.regionCtx = this.regionCanvas.getContext('2d', { willReadFrequently: true });
+        }
+        if (!this.regionCtx) return null;
+        if (this.regionCanvas.width !== outWidth || this.regionCanvas.height !== outHeight) {
+            this.regionCanvas.width = outWidth;
+            this.regionCanvas.height = outHeight;
+        }
+
+        return timeStage(this.timings, 'readback', () => {
+            const [x, y, w, h] = region;
+            this.regionCtx!.clearRect(0, 0, outWidth, outHeight);
+            this.regionCtx!.drawImage(canvas, x, y, w, h, 0, 0, outWidth, outHeight);
+            return this.regionCtx!.getImageData(0, 0, outWidth, outHeight);
+        });
+    }
+
+    // Transferable copy for the inference worker
+    async bitmap(): Promise<ImageBitmap | null> {
+        const canvas = this.source();
+        return canvas ? createImageBitmap(canvas) : null;
+    }
+
+    // Region [x, y, w, h] of this tick's frame scaled to outWidth x outHeight, base64 JPEG
+    crop(region: [number, number, number, number], outWidth: number, outHeight: number, quality = 0.65): string | null {
+        const canvas = this.source();
+        if (!canvas) return null;
+
+        if (!this.cropCanvas) this.cropCanvas = document.createElement('canvas');
+        if (this.cropCanvas.width !== outWidth || this.cropCanvas.height !== outHeight) {
+            this.cropCanvas.width = outWidth;
+            this.cropCanvas.height = outHeight;
+        }
+        const ctx = this.cropCanvas.getContext('2d');
+        if (!ctx) return null;
+
+        return timeStage(this.timings, 'snapshot', () => {
+            const [x, y, w, h] = region;
+            ctx.clearRect(0, 0, outWidth, outHeight);
+            ctx.drawImage(canvas, x, y, w, h, 0, 0, outWidth, outHeight);
+            return this.cropCanvas!.toDataURL('image/jpeg', quality).split(',')[1];
+        });
+    }
+}
@@ -0,0 +1,212 @@
+// --- Ground-Plane Calibration (homography) ---
+// The officer clicks four road points forming a rectangle of known size (lane width x dash
+// length). Solving the image -> ground homography turns any foot point of a vehicle into
+// metric road coordinates, so speeds and distances no longer depend on a perspective guess.
+// Image points are in the normalized 0-1000 frame space of zone-geometry.ts.
+import { Vec2, ZoneGeometry, zoneEdges, distanceToSegment } from './zone-geometry';
+
+export type Homography = [[number, number, number], [number, number, number], [number, number, number]];
+
+export interface GroundCalibration {
+    imagePoints: Vec2[];   // P1..P4 around the rectangle (P1-P2 across the lane, P2-P3 along it)
+    widthMeters: number;   // |P1-P2| = |P3-P4| on the road (lane width)
+    lengthMeters: number;  // |P2-P3| = |P4-P1| on the road (dash length)
+    imageToGround: Homography;
+    groundToImage: Homography;
+    createdAt: number;
+}
+
+const EPS = 1e-9;
+
+// --- Solving ---
+
+// Exact 4-point DLT (h33 = 1). Source points are centered first so h33 cannot vanish and
+// the centroid of the quad maps with a positive w (points behind the horizon get w <= 0).
+export function solveHomography(src: Vec2[], dst: Vec2[]): Homography | null {
+    if (src.length !== 4 || dst.length !== 4) return null;
+    const cx = src.reduce((s, p) => s + p.x, 0) / 4;
+    const cy = src.reduce((s, p) => s + p.y, 0) / 4;
+
+    const A: number[][] = [];
+    const b: number[] = [];
+    src.forEach((p, i) => {
+        const x = p.x - cx;
+        const y = p.y - cy;
+        const u = dst[i].x;
+        const v = dst[i].y;
+        A.push([x, y, 1, 0, 0, 0, -x * u, -y * u]);
+        b.push(u);
+        A.push([0, 0, 0, x, y, 1, -x * v, -y * v]);
+        b.push(v);
+    });
+
+    const h = solveLinear(A, b);
+    if (!h) return null;
+    const centered: Homography = [[h[0], h[1], h[2]], [h[3], h[4], h[5]], [h[6], h[7], 1]];
+    const translate: Homography = [[1, 0, -cx], [0, 1, -cy], [0, 0, 1]];
+    return multiply(centered, translate);
+}
+
+// Gaussian elimination with partial pivoting; null when singular (collinear points)
+function solveLinear(A: number[][], b: number[]): number[] | null {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+        }
+        if (Math.abs(M[pivot][col]) < 1e-12) return null;
+        [M[col], M[pivot]] = [M[pivot], M[col]];
+
+        for (let r = col + 1; r < n; r++) {
+            const f = M[r][col] / M[col][col];
+            for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let r = n - 1; r >= 0; r--) {
+        let sum = M[r][n];
+        for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+        x[r] = sum / M[r][r];
+    }
+    return x;
+}
+
+function multiply(a: Homography, b: Homography): Homography {
+    const out: Homography = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            out[i][j] = a[i][0] * b[0][j] + a[i][1] * b[1][j] + a[i][2] * b[2][j];
+        }
+    }
+    return out;
+}
+
+// Adjugate inverse; null when singular
+export function invertHomography(h: Homography): Homography | null {
+    const [[a, b, c], [d, e, f], [g, k, l]] = h;
+    const A = e * l - f * k;
+    const B = -(d * l - f * g);
+    const C = d * k - e * g;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < EPS) return null;
+    return [
+        [A / det, -(b * l - c * k) / det, (b * f - c * e) / det],
+        [B / det, (a * l - c * g) / det, -(a * f - c * d) / det],
+        [C / det, -(a * k - b * g) / det, (a * e - b * d) / det]
+    ];
+}
+
+// Projected point, or null on the far side of the horizon (w <= 0)
+export function applyHomography(h: Homography, p: Vec2): Vec2 | null {
+    const w = h[2][0] * p.x + h[2][1] * p.y + h[2][2];
+    if (w <= EPS) return null;
+    return {
+        x: (h[0][0] * p.x + h[0][1] * p.y + h[0][2]) / w,
+        y: (h[1][0] * p.x + h[1][1] * p.y + h[1][2]) / w
+    };
+}
+
+// Clicked quad must be convex and wound consistently, otherwise the rectangle is self-crossing
+export function isConvexQuad(points: Vec2[]): boolean {
+    if (points.length !== 4) return false;
+    let sign = 0;
+    for (let i = 0; i < 4; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % 4];
+        const c = points[(i + 2) % 4];
+        const z = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+        if (Math.abs(z) < EPS) return false;
+        if (sign === 0) sign = Math.sign(z);
+        else if (Math.sign(z) !== sign) return false;
+    }
+    return true;
+}
+
+// Ground rectangle (0,0) (W,0) (W,L) (0,L) in meters matched to the clicked image points
+export function calibrateRectangle(imagePoints: Vec2[], widthMeters: number, lengthMeters: number): GroundCalibration | null {
+    if (!isConvexQuad(imagePoints) || !(widthMeters > 0) || !(lengthMeters > 0)) return null;
+    const ground: Vec2[] = [
+        { x: 0, y: 0 },
+        { x: widthMeters, y: 0 },
+        { x: widthMeters, y: lengthMeters },
+        { x: 0, y: lengthMeters }
+    ];
+    const imageToGround = solveHomography(imagePoints, ground);
+    const groundToImage = imageToGround && invertHomography(imageToGround);
+    if (!imageToGround || !groundToImage) return null;
+    return {
+        imagePoints: imagePoints.map(p => ({ ...p })),
+        widthMeters,
+        lengthMeters,
+        imageToGround,
+        groundToImage,
+        createdAt: Date.now()
+    };
+}
+
+// --- Metric queries ---
+
+export function toGround(calibration: GroundCalibration, p: Vec2): Vec2 | null {
+    return applyHomography(calibration.imageToGround, p);
+}
+
+export function groundDistance(calibration: GroundCalibration, a: Vec2, b: Vec2): number | null {
+    const ga = toGround(calibration, a);
+    const gb = toGround(calibration, b);
+    return ga && gb ? Math.hypot(gb.x - ga.x, gb.y - ga.y) : null;
+}
+
+// Meters from an image point to the nearest edge of a zone, measured on the road plane.
+// Edges with a vertex beyond the horizon are skipped; null when none is measurable.
+export function distanceToLine(calibration: GroundCalibration, p: Vec2, zone: ZoneGeometry): number | null {
+    const gp = toGround(calibration, p);
+    return gp ? groundDistanceToLine(calibration, gp, zone) : null;
+}
+
+// Same, for a point already on the ground plane (meters)
+export function groundDistanceToLine(calibration: GroundCalibration, gp: Vec2, zone: ZoneGeometry): number | null {
+    let best: number | null = null;
+    zoneEdges(zone).forEach(([a, b]) => {
+        const ga = toGround(calibration, a);
+        const gb = toGround(calibration, b);
+        if (!ga || !gb) return;
+        const d = distanceToSegment(gp, ga, gb);
+        if (best === null || d < best) best = d;
+    });
+    return best;
+}
+
+// --- Persistence (one calibration per camera + road preset) ---
+export function calibrationKey(camera: string, preset: string): string {
+    return `${camera}::${preset}`;
+}
+
+export class CalibrationStore {
+    constructor(private storageKey = 'sentinel.groundCalibrations') { }
+
+    private readAll(): Record<string, GroundCalibration> {
+        try {
+            return JSON.parse(localStorage.getItem(this.storageKey) || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    get(key: string): GroundCalibration | null {
+        return this.readAll()[key] || null;
+    }
+
+    set(key: string, calibration: GroundCalibration) {
+        const all = this.readAll();
+        all[key] = calibration;
+        localStorage.setItem(this.storageKey, JSON.stringify(all));
+    }
+
+    remove(key: string) {
+        const all = this.readAll();
+        delete all[key];
+        localStorage.setItem(this.storageKey, JSON.stringify(all));
+    }
+}
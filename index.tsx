@@ -1,7 +1,6 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
 import {
   Camera, Upload, Play, Pause, X,
   Activity, Cpu, Check, Wifi,
@@ -14,12 +13,24 @@ import {
   AlertTriangle, Scale, ClipboardList, Video, FileBadge, CheckCircle2,
   Clock, MapPin, Ruler, BadgeCheck, BarChart3, Binary, Signal, Plus
 } from 'lucide-react';
-import { YoloDetector, ByteTracker, BoTSORT, PoseDetection } from './yolo-tracker';
-
-// --- Parámetros Cinemáticos ---
-const LANE_WIDTH_METERS = 3.0;
-const REFERENCE_LANE_PX = 320;
-const PIXELS_PER_METER = REFERENCE_LANE_PX / LANE_WIDTH_METERS;
+import { ByteTracker, BoTSORT, PoseDetection, ExecutionProvider, DEFAULT_RUNTIME, TrackState } from './yolo-tracker';
+import { WorkerYoloDetector } from './yolo-worker-client';
+import { FrameCapture, StageTimings, timeStage } from './frame-capture';
+import { AssignmentMethod } from './linear-assignment';
+import { EditorTool, EditHistory, ZoneOrigin, ZoneEdits, hitTestHandle, hitTestZone, snapPoint, moveVertex, translateZone, writeZonesToDirectives, diffZones, applyZoneEdits } from './zone-editor';
+import { Vec2, ZoneShape, ZoneGeometry, ZoneOccupancy, CrossingDirection, zoneVertices, zoneAnchor, isAreaZone, detectCrossing, headingDirection, zoneContains, crossingFraction, isLaneConfined, sustainedDirection } from './zone-geometry';
+import { GroundCalibration, CalibrationStore, calibrationKey, calibrateRectangle, applyHomography, toGround, distanceToLine, groundDistanceToLine } from './ground-calibration';
+import { KinematicEstimate, estimateKinematics } from './kinematics';
+import { SpeedSection, SectionPassage, SectionSpeedMonitor, parseSectionDirectives, serializeSection } from './section-speed';
+import { StopVerdict, StopComplianceMonitor, DEFAULT_STOP_POLICY } from './stop-compliance';
+import { PriorityVerdict, PedestrianPriorityMonitor, pedestrianFoot } from './pedestrian-priority';
+import { ParkingViolation, ParkingMonitor, allowedMinutes, parseParkingDirectives, serializeParkingRule, formatClock } from './parking-dwell';
+import { LightEvidence, LightState, LightTimeline, classifyLight, lightEvidence, lightsForLine, parseLightDirectives, serializeLight } from './traffic-light';
+import { AuditJob, AuditJobStore, AuditPriority, AuditQueue, FailedAuditStore, QueueStatus } from './audit-queue';
+import { AuditAttempt, AuditEvidence, AuditFailedError, AuditVerdict, JudgeBackend, JudgeConfig, SEVERITIES, UNREAD_PLATE, createJudge, judgeWithRetry, loadJudgeConfig, saveJudgeConfig } from './forensic-judge';
+import { PLATE_FORMAT_NAMES, formatPlate, normalizePlate } from './spanish-plate';
+import { PlateRecognizer, PlateVoter, TrackPlate } from './plate-anpr';
+import { VehicleRegistry } from './vehicle-registry';
 
 // --- Componente Emblema Daganzo ---
 const DaganzoEmblem = ({ className }: { className?: string }) => (
@@ -28,7 +39,13 @@ const DaganzoEmblem = ({ className }: { className?: string }) => (
 );
 
 // --- Interfaces ---
-interface Point { x: number; y: number; time: number; }
+interface Point {
+  x: number;
+  y: number;
+  time: number;
+  mediaTime?: number;   // Video media time (s) of the detection frame; only on measured points
+  ground?: Vec2 | null; // Road position (m) on measured points with a calibration
+}
 
 interface Track {
   id: number;
@@ -44,9 +61,11 @@ interface Track {
   lastSnapshotTime: number;
   color: string;
   snapshots: string[];
-  velocity: number;
+  velocity: number; // Ground speed (m/s) from the calibrated road plane; 0 when uncalibrated
+  kinematics?: KinematicEstimate | null; // Speed / acceleration / heading with 1σ uncertainty
   age: number;
   plate?: string;
+  plateReading?: TrackPlate; // On-device ANPR, voted over several reads of the track
   isInfractor?: boolean;
   analyzed: boolean;
   // Enhanced tracking
@@ -58,6 +77,21 @@ interface Track {
   missedFrames: number; // Counter for missed detections
   w: number; // Current width
   h: number; // Current height
+  trackState: TrackState; // Tracker lifecycle (only 'confirmed' is drawn and counted)
+  zoneDwell?: Record<string, number>; // Current stay (ms) per polygon zone the vehicle is in
+  lastZoneEvent?: ZoneEvent; // Most recent line crossing / zone entry
+  stopVerdict?: StopVerdict & { line: string }; // Approach judged at the last STOP line crossed
+  priorityVerdict?: PriorityVerdict; // Pedestrians on the last crosswalk entered
+  redLight?: LightEvidence; // Light state when the last signalised stop line was crossed
+  wrongWayZones?: Set<string>; // Zones already reported as driven the wrong way
+}
+
+interface ZoneEvent {
+  zone: string;
+  direction: CrossingDirection; // Signed travel direction relative to the line normal
+  wrongWay: boolean;            // Against the line's configured direction (kamikaze)
+  infractionType?: string;
+  time: number;
 }
 
 interface InfractionLog {
@@ -81,14 +115,100 @@ interface InfractionLog {
     poseAlert: boolean;
     framesAnalyzed: number;
     distanceToLine?: string;
+    calibration?: string; // Ground reference used for speed / distance (e.g. "3.5×6.0 M")
+    speedUncertainty?: string; // 1σ of speedEstimated
+    acceleration?: string;
+    heading?: string;
+    kinematicSamples?: number; // Measured points in the regression window
+    minSpeedObserved?: string; // STOP approach: lowest speed before the line
+    stopDuration?: string;     // STOP approach: longest full stop
+    pedestriansPresent?: string; // Crosswalk: people inside / entering when the vehicle passed
   };
   snapshots?: string[];
+  section?: SectionPassage; // Tramo measurement (entry / exit crossings with their snapshots)
+  parking?: ParkingViolation; // Stay in a loading / no-parking zone (start and end snapshots)
+  trafficLight?: LightEvidence; // Red-light crossing: light state timeline before the stop line
+  plateReading?: TrackPlate; // On-device ANPR reading the expediente plate comes from
+  plateCheck?: { cloud: string; agrees: boolean }; // Plate read by the forensic judge, as a cross-check
+}
+
+// Media time at which a track crossed a line: interpolated between its last two measured
+// points (as the tramo crossings are), which is where stop lines are detected.
+// Null without measured points.
+const measuredCrossingTime = (line: ZoneGeometry, points: Point[]): number | null => {
+  const measured = points.filter(p => p.mediaTime !== undefined).slice(-2);
+  if (measured.length === 0) return null;
+  const last = measured[measured.length - 1];
+  if (measured.length < 2) return last.mediaTime!;
+  const [from, to] = measured;
+  const f = crossingFraction(line, from, to);
+  return f === null ? to.mediaTime! : from.mediaTime! + f * (to.mediaTime! - from.mediaTime!);
+};
+
+// Wrong way: the last detections must cross a one-way zone and get this far clear of it
+const WRONG_WAY_WINDOW = 8;  // Measured points
+const WRONG_WAY_MARGIN = 20; // 0-1000 units
+
+// Vehicles worth an ANPR read (COCO classes carrying a number plate)
+const PLATE_CLASSES = new Set(['car', 'motorcycle', 'bus', 'truck']);
+
+// Plate of an on-device expediente opened before the track's plate was read
+const PENDING_PLATE = 'PENDIENTE';
+
+// Log fields measured on-device, merged with the verdict when the expediente is opened
+type AuditContext = Pick<InfractionLog, 'image' | 'snapshots' | 'videoUrl' | 'violatedDirective' | 'trafficLight' | 'plateReading'> & {
+  telemetry: Omit<InfractionLog['telemetry'], 'maneuverType' | 'poseAlert'>;
+};
+
+// Self-contained audit job: survives the track and, persisted, a page reload
+interface AuditPayload {
+  evidence: AuditEvidence;
+  directives: string;
+  context: AuditContext;
+}
+
+// Persisted jobs keep only their latest snapshots (the running page has the full set)
+const shrinkAuditPayload = (payload: AuditPayload): AuditPayload => ({
+  ...payload,
+  evidence: { ...payload.evidence, snapshots: payload.evidence.snapshots.slice(-4) },
+  context: { ...payload.context, snapshots: payload.context.snapshots?.slice(-4) }
+});
+
+// Tracker ids restart with every page load: the session stamp keeps restored jobs apart
+const AUDIT_SESSION = Date.now().toString(36);
+const auditKey = (trackId: number) => `${AUDIT_SESSION}:${trackId}`;
+
+// Audit whose judge kept answering invalid verdicts (or failing) after every retry
+interface FailedAudit {
+  id: number;
+  key: string; // Audit job key: tells whether the track still exists (same page load)
+  time: string;
+  date: string;
+  judge: string;
+  evidence: AuditEvidence;
+  directives: string;
+  context: AuditContext;
+  attempts: AuditAttempt[];
 }
 
+// Persisted failed audits: trimmed like queued jobs; the clip's blob URL dies with the page
+const shrinkFailedAudit = (failure: FailedAudit): FailedAudit => {
+  const { evidence, context } = shrinkAuditPayload(failure);
+  return { ...failure, evidence, context: { ...context, videoUrl: undefined } };
+};
+
+// Track of a failed audit while it still exists (null once the page was reloaded)
+const failedAuditTrackId = (failure: FailedAudit): number | null =>
+  failure.key === auditKey(failure.evidence.trackId) ? failure.evidence.trackId : null;
+
 const VEHICLE_COLORS: Record<string, string> = {
   car: '#06b6d4', truck: '#f59e0b', motorcycle: '#8b5cf6', bus: '#10b981', person: '#ec4899', bicycle: '#84cc16'
 };
 
+const LIGHT_COLORS: Record<LightState, string> = {
+  red: '#ef4444', amber: '#f59e0b', green: '#22c55e', unknown: '#64748b'
+};
+
 const StatusBadge = ({ label, active, color = 'cyan', pulse = true }: { label: string; active: boolean; color?: string; pulse?: boolean }) => (
   <div className={`flex items-center gap-2 px-3 py-1 rounded-md border text-[9px] font-black uppercase tracking-widest transition-all duration-500 ${active ? `bg-${color}-500/10 border-${color}-500/50 text-${color}-400 shadow-[0_0_15px_rgba(6,182,212,0.15)]` : 'bg-slate-900/50 border-white/5 text-slate-500 opacity-40'}`}>
     <div className={`w-1.5 h-1.5 rounded-full ${active ? `bg-${color}-400 ${pulse ? 'animate-pulse' : ''} shadow-[0_0_8px_#22d3ee]` : 'bg-slate-700'}`} />
@@ -103,20 +223,52 @@ const DEFAULT_DIRECTIVES = `PROTOCOLO DAGANZO_V15_AUDIT:
 4. PRIORIDAD PEATONAL: Detectar presencia de peatones en cebra y reducción de velocidad preventiva.
 5. OCUPACIÓN VÍA: Detección de vehículos en doble fila o zonas de carga/descarga sin operario.
 6. COMPORTAMIENTO: Virajes bruscos, aceleraciones súbitas o invasión de carril contrario.
-7. CALIBRACIÓN: Usar referencia de 3 metros por carril para estimar velocidades críticas.`;
+7. CALIBRACIÓN: Velocidades y distancias medidas sobre el plano de calzada calibrado (homografía de 4 puntos: ancho de carril × longitud de trazo).`;
+
+// --- ONNX Runtime Selection ---
+// Provider fallback orders offered in the side panel
+const PROVIDER_CHAINS: Record<string, ExecutionProvider[]> = {
+  'AUTO': ['webgpu', 'webgl', 'wasm'],
+  'WEBGL': ['webgl', 'wasm'],
+  'WASM': ['wasm']
+};
+
+// `?ep=wasm` (comma-separated order) forces the provider chain, e.g. for headless runs
+const providerOverride = (): ExecutionProvider[] | null => {
+  const ep = new URLSearchParams(window.location.search).get('ep');
+  if (!ep) return null;
+  const chain = ep.split(',').map(p => p.trim().toLowerCase()).filter((p): p is ExecutionProvider => ['webgpu', 'webgl', 'wasm'].includes(p));
+  return chain.length > 0 ? chain : null;
+};
+
+const DEFAULT_RUNTIME_CONFIG = {
+  executionProviders: providerOverride() || DEFAULT_RUNTIME.executionProviders,
+  numThreads: DEFAULT_RUNTIME.numThreads
+};
 
 const App = () => {
   const [source, setSource] = useState<'none' | 'live' | 'upload'>('none');
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
   const [fps, setFps] = useState(0);
   const [directives, setDirectives] = useState<string>(DEFAULT_DIRECTIVES);
   const [aiFeedback, setAiFeedback] = useState<string | null>(null);
+  const [judgeConfig, setJudgeConfig] = useState<JudgeConfig>(loadJudgeConfig);
+  const forensicJudge = useMemo(() => createJudge(judgeConfig, import.meta.env.VITE_GOOGLE_GENAI_KEY), [judgeConfig]);
+  const forensicJudgeRef = useRef(forensicJudge);
+  forensicJudgeRef.current = forensicJudge;
+  useEffect(() => { saveJudgeConfig(judgeConfig); }, [judgeConfig]);
 
   const [logs, setLogs] = useState<InfractionLog[]>([]);
   const [selectedLog, setSelectedLog] = useState<InfractionLog | null>(null);
+  const failedAuditStoreRef = useRef(new FailedAuditStore<FailedAudit>('sentinel.failedAudits', shrinkFailedAudit));
+  const [failedAudits, setFailedAudits] = useState<FailedAudit[]>(() => failedAuditStoreRef.current.load());
+  useEffect(() => { failedAuditStoreRef.current.save(failedAudits); }, [failedAudits]);
+  const [reviewAudit, setReviewAudit] = useState<FailedAudit | null>(null);
+  const [reviewBusy, setReviewBusy] = useState(false);
+  const [reviewPlate, setReviewPlate] = useState('');
+  const [reviewSeverity, setReviewSeverity] = useState<typeof SEVERITIES[number]>('grave');
   const [cumulativeDetections, setCumulativeDetections] = useState(0);
   const processedIdsRef = useRef(new Set<number>()); // Unique Vehicle Counter
   const [cumulativeExpedientes, setCumulativeExpedientes] = useState(0);
@@ -145,11 +297,19 @@ const App = () => {
     highDetThreshold: number;   // High confidence threshold for first matching
     lowDetThreshold: number;    // Low confidence threshold for second matching  
     matchIouThreshold: number;  // IoU threshold for track matching
+    matchingAlgorithm: AssignmentMethod; // Optimal (Hungarian) or greedy association
+    mahalanobisGating: boolean; // Reject pairs outside the Kalman 95% ellipse (off = IoU only)
     trackBufferFrames: number;  // Frames to keep lost tracks
     minHitsToConfirm: number;   // Min detections to confirm new track
 
     // BoT-SORT Specific
     appearanceWeight: number;   // Weight for appearance matching (0-1)
+    reidModelPath: string | null; // Vehicle ReID ONNX model (relative to BASE_URL); null = HSV histogram
+    cameraMotionCompensation: boolean; // GMC: warp predictions by camera motion (handheld / patrol car)
+
+    // ONNX Runtime (device-level: kept when switching presets)
+    executionProviders: ExecutionProvider[]; // Fallback order (webgpu → webgl → wasm)
+    numThreads: number;         // WASM threads (0 = auto)
   }
 
   const trackingPresets: Record<string, YoloConfig> = {
@@ -161,9 +321,14 @@ const App = () => {
       highDetThreshold: 0.6,
       lowDetThreshold: 0.2,
       matchIouThreshold: 0.3,
+      matchingAlgorithm: 'hungarian',
+      mahalanobisGating: true,
       trackBufferFrames: 20,
       minHitsToConfirm: 3,
-      appearanceWeight: 0.0
+      appearanceWeight: 0.0,
+      reidModelPath: null,
+      cameraMotionCompensation: false,
+      ...DEFAULT_RUNTIME_CONFIG
     },
     'urban-balanced-bytetrack': {
       confThreshold: 0.45, // High confidence only
@@ -173,9 +338,14 @@ const App = () => {
       highDetThreshold: 0.65,
       lowDetThreshold: 0.2,
       matchIouThreshold: 0.35, // Strict matching
+      matchingAlgorithm: 'hungarian',
+      mahalanobisGating: true,
       trackBufferFrames: 15, // Short memory to kill ghosts fast (~0.6s)
       minHitsToConfirm: 8, // High stability requirement before showing
-      appearanceWeight: 0.0
+      appearanceWeight: 0.0,
+      reidModelPath: null,
+      cameraMotionCompensation: false,
+      ...DEFAULT_RUNTIME_CONFIG
     },
     'precision-slow-botsort': {
       confThreshold: 0.3,
@@ -185,9 +355,14 @@ const App = () => {
       highDetThreshold: 0.6,
       lowDetThreshold: 0.1,
       matchIouThreshold: 0.2,
+      matchingAlgorithm: 'hungarian',
+      mahalanobisGating: true,
       trackBufferFrames: 45,
       minHitsToConfirm: 1,
-      appearanceWeight: 0.5
+      appearanceWeight: 0.5,
+      reidModelPath: null,
+      cameraMotionCompensation: false,
+      ...DEFAULT_RUNTIME_CONFIG
     },
     'forensic-reID-botsort': {
       confThreshold: 0.25,
@@ -197,9 +372,14 @@ const App = () => {
       highDetThreshold: 0.55,
       lowDetThreshold: 0.05,
       matchIouThreshold: 0.15,
+      matchingAlgorithm: 'hungarian',
+      mahalanobisGating: true,
       trackBufferFrames: 60,
       minHitsToConfirm: 1,
-      appearanceWeight: 0.7
+      appearanceWeight: 0.7,
+      reidModelPath: 'upload/vehicle_reid.onnx',
+      cameraMotionCompensation: false,
+      ...DEFAULT_RUNTIME_CONFIG
     }
   };
 
@@ -208,20 +388,28 @@ const App = () => {
   const [yoloConfig, setYoloConfig] = useState<YoloConfig>(trackingPresets['urban-balanced-bytetrack']);
 
   const frameCounterRef = useRef(0);
+  const [activeBackend, setActiveBackend] = useState<ExecutionProvider | null>(null);
+  const [reidActive, setReidActive] = useState(false);
+  const [stageTimings, setStageTimings] = useState<StageTimings>({});
 
 
 
-  // Advanced Multi-Lane Detection Configuration with Angled Lines
+  // Advanced Multi-Lane Detection Configuration with Angled Lines, Polylines and Polygons
   interface DetectionLine {
+    id?: string;         // Stable zone key (defaults to label)
     y: number;           // Position (0-1000) - can be start Y for angled lines
     x1?: number;         // Start X for angled lines (0-1000)
     x2?: number;         // End X for angled lines (0-1000)  
     y2?: number;         // End Y for angled lines (0-1000)
     angle?: number;      // Line angle in degrees (0-360)
-    type: 'solid' | 'dashed' | 'divider' | 'pedestrian' | 'stop' | 'loading-zone' | 'bus-lane' | 'speed-zone';
-    direction: 'bidirectional' | 'northbound' | 'southbound';
+    shape?: ZoneShape;   // segment | polyline | polygon (legacy lines are segments)
+    points?: Vec2[];     // Vertices (0-1000) for polylines and polygons
+    type: 'solid' | 'dashed' | 'divider' | 'pedestrian' | 'stop' | 'loading-zone' | 'no-parking' | 'bus-lane' | 'speed-zone';
+    direction: 'bidirectional' | 'northbound' | 'southbound'; // One-way (wrong-way checked) only on lane-confined zones
     label: string;
     infractionType?: string; // Specific infraction this line detects
+    origin?: ZoneOrigin; // Preset, directive, synthesized or drawn in the editor
+    edited?: boolean;    // Changed in the editor since it was parsed / synthesized
   }
 
   // Automatic Mesh Grid Parameters
@@ -248,6 +436,37 @@ const App = () => {
     { y: 500, type: 'solid', direction: 'bidirectional', label: 'LÍNEA CONTINUA CENTRAL', infractionType: 'LINE_CROSSING' }
   ]);
 
+  // === Manual Zone Editor State ===
+  const [editorTool, setEditorTool] = useState<EditorTool>('select');
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [selectedZone, setSelectedZone] = useState<number | null>(null);
+  const editHistoryRef = useRef(new EditHistory<DetectionLine[]>());
+  // Editor output not (or not expressible) in the directives: merged into every re-synthesis
+  const [zoneEdits, setZoneEdits] = useState<ZoneEdits<DetectionLine>>({ changed: [], removed: [] });
+  const zoneEditsRef = useRef(zoneEdits);
+  zoneEditsRef.current = zoneEdits;
+  const editorRef = useRef<{
+    // `before`: lines at the press, recorded in the history by the first movement (null after)
+    drag: { zone: number; vertex?: number; start: Vec2; origin: DetectionLine; before: DetectionLine[] | null } | null;
+    draft: Vec2[];      // Vertices placed so far (segment: start + live end)
+    hover: Vec2 | null; // Pointer position in 0-1000 space
+  }>({ drag: null, draft: [], hover: null });
+  const viewportRef = useRef({ oX: 0, oY: 0, dW: 1, dH: 1 }); // Video rect inside the overlay canvas
+
+  // === Ground-Plane Calibration (one homography per camera + road preset) ===
+  const [cameraId, setCameraId] = useState('none'); // live:<deviceId> | file:<name>
+  const [calibration, setCalibration] = useState<GroundCalibration | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationDraft, setCalibrationDraft] = useState<Vec2[]>([]);
+  const [calibrationSize, setCalibrationSize] = useState({ width: 3.0, length: 4.5 }); // Lane width x dash length (m)
+  const calibrationStoreRef = useRef(new CalibrationStore());
+  const activeCalibrationKey = calibrationKey(cameraId, selectedConfigs.join('+'));
+
+  useEffect(() => {
+    setCalibration(calibrationStoreRef.current.get(activeCalibrationKey));
+    setCalibrationDraft([]);
+  }, [activeCalibrationKey]);
+
   // === Automatic Mesh Grid Generator ===
   const generateMeshGrid = useCallback((config: MeshGridConfig): DetectionLine[] => {
     if (!config.enabled) return [];
@@ -414,8 +633,14 @@ const App = () => {
 
     'daganzo-av-madrid': {
       lines: [
-        { y: 300, type: 'bus-lane', direction: 'northbound', label: 'CARRIL BUS AV. MADRID', infractionType: 'BUS_LANE_VIOLATION' },
-        { y: 600, type: 'pedestrian', direction: 'bidirectional', label: 'CRUCE AV. MADRID', infractionType: 'PEDESTRIAN_PRIORITY' }
+        {
+          y: 300, shape: 'polygon', points: [{ x: 620, y: 300 }, { x: 720, y: 300 }, { x: 1000, y: 1000 }, { x: 780, y: 1000 }],
+          type: 'bus-lane', direction: 'northbound', label: 'CARRIL BUS AV. MADRID', infractionType: 'BUS_LANE_VIOLATION'
+        },
+        {
+          y: 600, shape: 'polygon', points: [{ x: 80, y: 600 }, { x: 920, y: 600 }, { x: 940, y: 680 }, { x: 60, y: 680 }],
+          type: 'pedestrian', direction: 'bidirectional', label: 'CRUCE AV. MADRID', infractionType: 'PEDESTRIAN_PRIORITY'
+        }
       ],
       directivesTemplate: "PROTOCOLO AVENIDA DE MADRID (ACCESO SUR):\n1. Prioridad: Carril BUS - Sancionar invasión turismos.\n2. Control de velocidad urbana 30km/h.\n3. Vigilancia de giros a derecha hacia polígonos."
     },
@@ -443,7 +668,7 @@ const App = () => {
 
     'daganzo-m113-norte': {
       lines: [
-        { y: 350, type: 'speed-zone', direction: 'southbound', label: 'ACCESO M-113 NORTE (ENTRADA)', infractionType: 'SPEEDING' },
+        { y: 350, type: 'speed-zone', direction: 'bidirectional', label: 'ACCESO M-113 NORTE (ENTRADA)', infractionType: 'SPEEDING' },
         { y: 600, type: 'solid', direction: 'bidirectional', label: 'EJE M-113', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO M-113 ACCESO NORTE:\n1. Control velocidad entrada municipio (50km/h).\n2. Vigilancia pisotón línea continua en curva de acceso.\n3. [LINE: Y=850, TYPE=stop, LABEL=PUNTO AUDITORÍA, INFRACTION=null]"
@@ -451,7 +676,7 @@ const App = () => {
 
     'daganzo-m113-sur': {
       lines: [
-        { y: 300, type: 'speed-zone', direction: 'northbound', label: 'ACCESO M-113 SUR (A-2/R-2)', infractionType: 'SPEEDING' },
+        { y: 300, type: 'speed-zone', direction: 'bidirectional', label: 'ACCESO M-113 SUR (A-2/R-2)', infractionType: 'SPEEDING' },
         { y: 550, type: 'divider', direction: 'bidirectional', label: 'BIFURCACIÓN POLÍGONO', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO M-113 ACCESO SUR:\n1. Auditoría de flujo desde A-2/Torrejón.\n2. Control de velocidad en tramo interurbano.\n3. Vigilancia de incorporaciones desde caminos vecinales."
@@ -505,7 +730,7 @@ const App = () => {
 
     'daganzo-rotonda-entrada': {
       lines: [
-        { y: 250, type: 'solid', direction: 'southbound', label: 'ENTRADA ROTONDA M-113', infractionType: 'STOP_VIOLATION' },
+        { y: 250, type: 'solid', direction: 'bidirectional', label: 'ENTRADA ROTONDA M-113', infractionType: 'STOP_VIOLATION' },
         { y: 500, type: 'dashed', direction: 'bidirectional', label: 'ANILLO ROTONDA', infractionType: null },
         { y: 750, type: 'solid', direction: 'bidirectional', label: 'SALIDA CENTRO', infractionType: 'LINE_CROSSING' }
       ],
@@ -544,20 +769,20 @@ const App = () => {
 
     '4-lanes-highway': {
       lines: [
-        { y: 300, type: 'speed-zone', direction: 'northbound', label: 'ZONA CALIBRACIÓN (Z1)', infractionType: 'SPEEDING' },
-        { y: 400, type: 'divider', direction: 'northbound', label: 'DIVISOR CARRIL L/R', infractionType: null },
+        { y: 300, type: 'speed-zone', direction: 'bidirectional', label: 'ZONA CALIBRACIÓN (Z1)', infractionType: 'SPEEDING' },
+        { y: 400, type: 'divider', direction: 'bidirectional', label: 'DIVISOR CARRIL L/R', infractionType: null },
         { y: 500, type: 'solid', direction: 'bidirectional', label: 'MEDIANA DIVISORIA', infractionType: 'LINE_CROSSING' },
-        { y: 600, type: 'divider', direction: 'southbound', label: 'DIVISOR CARRIL L/R', infractionType: null },
-        { y: 700, type: 'speed-zone', direction: 'southbound', label: 'ZONA CALIBRACIÓN (Z2)', infractionType: 'SPEEDING' }
+        { y: 600, type: 'divider', direction: 'bidirectional', label: 'DIVISOR CARRIL L/R', infractionType: null },
+        { y: 700, type: 'speed-zone', direction: 'bidirectional', label: 'ZONA CALIBRACIÓN (Z2)', infractionType: 'SPEEDING' }
       ],
       directivesTemplate: "PROTOCOLO AUTOPISTA:\n1. Control riguroso de velocidad (Umbral 120km/h).\n2. Vigilar ocupación indebida del carril izquierdo.\n3. Detectar conducción temeraria (zigzag entre carriles).\n4. Verificar distancia de seguridad (Regla de los 2 segundos)."
     },
 
     '3-lanes-oneway': {
       lines: [
-        { y: 300, type: 'bus-lane', direction: 'southbound', label: 'CARRIL RESERVADO (R1)', infractionType: 'BUS_LANE_VIOLATION' },
-        { y: 450, type: 'dashed', direction: 'southbound', label: 'DIVISORIA TRAMO 1-2', infractionType: null },
-        { y: 650, type: 'dashed', direction: 'southbound', label: 'DIVISORIA TRAMO 2-3', infractionType: null }
+        { y: 300, type: 'bus-lane', direction: 'bidirectional', label: 'CARRIL RESERVADO (R1)', infractionType: 'BUS_LANE_VIOLATION' },
+        { y: 450, type: 'dashed', direction: 'bidirectional', label: 'DIVISORIA TRAMO 1-2', infractionType: null },
+        { y: 650, type: 'dashed', direction: 'bidirectional', label: 'DIVISORIA TRAMO 2-3', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO VÍA URBANA (3C):\n1. Prioridad: Sancionar invasión de Carril BUS por vehículos no autorizados.\n2. Vigilar cambios de carril bruscos sin señalización.\n3. Detectar paradas indebidas en carriles de circulación."
     },
@@ -591,7 +816,7 @@ const App = () => {
 
     't-junction-multi': {
       lines: [
-        { y: 300, type: 'stop', direction: 'southbound', label: 'DETENCIÓN ACCESO (P1)', infractionType: 'STOP_VIOLATION' },
+        { y: 300, type: 'stop', direction: 'bidirectional', label: 'DETENCIÓN ACCESO (P1)', infractionType: 'STOP_VIOLATION' },
         { y: 450, type: 'solid', direction: 'bidirectional', label: 'DIVISORIA DE FLUJO', infractionType: 'LINE_CROSSING' },
         { y: 650, type: 'dashed', direction: 'bidirectional', label: 'VECTOR DE TRANSICIÓN', infractionType: null }
       ],
@@ -600,7 +825,7 @@ const App = () => {
 
     'roundabout-2lanes': {
       lines: [
-        { y: 250, type: 'solid', direction: 'southbound', label: 'PUNTO INCORPORACIÓN (I1)', infractionType: 'STOP_VIOLATION' },
+        { y: 250, type: 'solid', direction: 'bidirectional', label: 'PUNTO INCORPORACIÓN (I1)', infractionType: 'STOP_VIOLATION' },
         { y: 450, type: 'dashed', direction: 'bidirectional', label: 'DELIMITADOR EXTERIOR', infractionType: null },
         { y: 650, type: 'solid', direction: 'bidirectional', label: 'DELIMITADOR INTERIOR', infractionType: 'LINE_CROSSING' }
       ],
@@ -609,18 +834,18 @@ const App = () => {
 
     'y-junction-split': {
       lines: [
-        { y: 400, type: 'divider', direction: 'northbound', label: 'VÉRTICE SEPARACIÓN', infractionType: null },
-        { y: 550, type: 'solid', direction: 'northbound', label: 'DIVISORA DE ISLETA', infractionType: 'LINE_CROSSING' },
-        { y: 750, type: 'speed-zone', direction: 'northbound', label: 'ZONA TRANSICIÓN (Z1)', infractionType: 'SPEEDING' }
+        { y: 400, type: 'divider', direction: 'bidirectional', label: 'VÉRTICE SEPARACIÓN', infractionType: null },
+        { y: 550, type: 'solid', direction: 'bidirectional', label: 'DIVISORA DE ISLETA', infractionType: 'LINE_CROSSING' },
+        { y: 750, type: 'speed-zone', direction: 'bidirectional', label: 'ZONA TRANSICIÓN (Z1)', infractionType: 'SPEEDING' }
       ],
       directivesTemplate: "PROTOCOLO BIFURCACIÓN EN Y:\n1. Sancionar cruce tardío de isleta (línea continua).\n2. Control de velocidad en ramal de salida.\n3. Detección de dudas peligrosas en el vértice."
     },
 
     'staggered-junction': {
       lines: [
-        { y: 250, type: 'stop', direction: 'southbound', label: 'DETENCIÓN N-1 (P1)', infractionType: 'STOP_VIOLATION' },
+        { y: 250, type: 'stop', direction: 'bidirectional', label: 'DETENCIÓN N-1 (P1)', infractionType: 'STOP_VIOLATION' },
         { y: 500, type: 'divider', direction: 'bidirectional', label: 'ÁREA CENTRAL', infractionType: null },
-        { y: 750, type: 'stop', direction: 'northbound', label: 'DETENCIÓN N-2 (P2)', infractionType: 'STOP_VIOLATION' }
+        { y: 750, type: 'stop', direction: 'bidirectional', label: 'DETENCIÓN N-2 (P2)', infractionType: 'STOP_VIOLATION' }
       ],
       directivesTemplate: "PROTOCOLO CRUCE DESPLAZADO:\n1. Vigilancia de tráfico cruzado en dos niveles.\n2. Análisis de ocupación de zona central.\n3. Control de giros indirectos."
     },
@@ -631,7 +856,7 @@ const App = () => {
         { y: 350, type: 'pedestrian', direction: 'bidirectional', label: 'ZONA DE TRÁNSITO (A1)', infractionType: 'PEDESTRIAN_PRIORITY' },
         { y: 500, type: 'solid', direction: 'bidirectional', label: 'DELIMITADOR SÓLIDO (D1)', infractionType: 'LINE_CROSSING' },
         { y: 650, type: 'loading-zone', direction: 'bidirectional', label: 'ÁREA CARGA/DESCARGA', infractionType: 'LOADING_ZONE_VIOLATION' },
-        { y: 800, type: 'bus-lane', direction: 'southbound', label: 'CARRIL RESERVADO (R1)', infractionType: 'BUS_LANE_VIOLATION' }
+        { y: 800, type: 'bus-lane', direction: 'bidirectional', label: 'CARRIL RESERVADO (R1)', infractionType: 'BUS_LANE_VIOLATION' }
       ],
       directivesTemplate: "PROTOCOLO INTEGRAL URBANO:\n1. Auditoría multiespectral de todas las infracciones simultáneas.\n2. Especial énfasis en distracción por móvil al aproximarse a zonas críticas.\n3. Vigilancia de comportamiento errático en áreas congestionadas."
     },
@@ -646,7 +871,7 @@ const App = () => {
 
     'roundabout-access': {
       lines: [
-        { y: 400, type: 'stop', direction: 'southbound', label: 'PUNTO ACCESO (I1)', infractionType: 'STOP_VIOLATION' },
+        { y: 400, type: 'stop', direction: 'bidirectional', label: 'PUNTO ACCESO (I1)', infractionType: 'STOP_VIOLATION' },
         { y: 600, type: 'solid', direction: 'bidirectional', label: 'DIVISORIA INTERIOR (D1)', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO ACCESO ROTONDA:\n1. Analizar cesión de paso en entrada (prioridad del que está dentro).\n2. Sancionar cruce de líneas continuas en el interior de la rotonda."
@@ -654,17 +879,17 @@ const App = () => {
 
     'interurban-cloverleaf': {
       lines: [
-        { y: 300, type: 'divider', direction: 'northbound', label: 'BIFURCACIÓN LAZO (L1)', infractionType: null },
+        { y: 300, type: 'divider', direction: 'bidirectional', label: 'BIFURCACIÓN LAZO (L1)', infractionType: null },
         { y: 450, type: 'solid', direction: 'bidirectional', label: 'MEDIANA SEPARACIÓN', infractionType: 'LINE_CROSSING' },
-        { y: 600, type: 'divider', direction: 'southbound', label: 'INCORPORACIÓN LAZO (L2)', infractionType: null }
+        { y: 600, type: 'divider', direction: 'bidirectional', label: 'INCORPORACIÓN LAZO (L2)', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO INTERCAMBIADOR TRÉBOL:\n1. Analizar trayectorias en bucles de enlace.\n2. [LINE: Y=750, TYPE=speed-zone, LABEL=CONTROL VELOCIDAD ENLACE, INFRACTION=SPEEDING]\n3. Sancionar cambios de carril bruscos en zonas de trenzado."
     },
 
     'interurban-diamond': {
       lines: [
-        { y: 350, type: 'divider', direction: 'northbound', label: 'SALIDA DIAMANTE (S1)', infractionType: null },
-        { y: 650, type: 'divider', direction: 'northbound', label: 'ENTRADA DIAMANTE (E1)', infractionType: null }
+        { y: 350, type: 'divider', direction: 'bidirectional', label: 'SALIDA DIAMANTE (S1)', infractionType: null },
+        { y: 650, type: 'divider', direction: 'bidirectional', label: 'ENTRADA DIAMANTE (E1)', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO ENLACE DIAMANTE:\n1. Vigilar cruce de línea continua en divergencia.\n2. [LINE: Y=200, TYPE=stop, LABEL=DETENCIÓN RAMAL, INFRACTION=STOP_VIOLATION]\n3. Auditoría de ceda el paso en incorporación."
     },
@@ -678,8 +903,8 @@ const App = () => {
 
     'accel-decel-lane': {
       lines: [
-        { y: 450, type: 'dashed', direction: 'northbound', label: 'CARRIL ACELERACIÓN', infractionType: null },
-        { y: 550, type: 'solid', direction: 'northbound', label: 'FIN DE RAMAL', infractionType: 'LINE_CROSSING' }
+        { y: 450, type: 'dashed', direction: 'bidirectional', label: 'CARRIL ACELERACIÓN', infractionType: null },
+        { y: 550, type: 'solid', direction: 'bidirectional', label: 'FIN DE RAMAL', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO RAMALES DE FLUJO:\n1. Verificar incorporación segura (velocidad adecuada).\n2. [LINE: Y=650, TYPE=divider, LABEL=ZONA TRENZADO, INFRACTION=null]\n3. Sancionar detención en carril de aceleración."
     },
@@ -703,8 +928,8 @@ const App = () => {
 
     'toll-plaza': {
       lines: [
-        { y: 400, type: 'stop', direction: 'northbound', label: 'BARRERA PEAJE (B1)', infractionType: 'STOP_VIOLATION' },
-        { y: 650, type: 'divider', direction: 'northbound', label: 'CARRIL TELEPEAJE', infractionType: null }
+        { y: 400, type: 'stop', direction: 'bidirectional', label: 'BARRERA PEAJE (B1)', infractionType: 'STOP_VIOLATION' },
+        { y: 650, type: 'divider', direction: 'bidirectional', label: 'CARRIL TELEPEAJE', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO PEAJE / CONTROL:\n1. Verificar detención total ante barrera.\n2. Sancionar cambio de carril en zona de embudo.\n3. [LINE: Y=800, TYPE=speed-zone, LABEL=SALIDA CONTROL, INFRACTION=SPEEDING]"
     },
@@ -735,7 +960,7 @@ const App = () => {
 
     'es-autovia-nacional': {
       lines: [
-        { y: 300, type: 'speed-zone', direction: 'northbound', label: 'RADAR A-X (120)', infractionType: 'SPEEDING' },
+        { y: 300, type: 'speed-zone', direction: 'bidirectional', label: 'RADAR A-X (120)', infractionType: 'SPEEDING' },
         { y: 500, type: 'divider', direction: 'bidirectional', label: 'MEDIANA BARRERA', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO RED DE CARRETERAS DEL ESTADO (RCE):\n1. Control estricto 120km/h.\n2. Vigilar uso carril izquierdo/central (Síndrome del carril izquierdo).\n3. [LINE: Y=800, TYPE=solid, LABEL=LÍNEA ARCÉN, INFRACTION=LINE_CROSSING]"
@@ -757,7 +982,7 @@ const App = () => {
 
     'es-via-automoviles': {
       lines: [
-        { y: 350, type: 'divider', direction: 'northbound', label: 'INICIO VÍA AUTOMÓVILES', infractionType: null },
+        { y: 350, type: 'divider', direction: 'bidirectional', label: 'INICIO VÍA AUTOMÓVILES', infractionType: null },
         { y: 600, type: 'solid', direction: 'bidirectional', label: 'MEDIANA FLEXIBLE', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO VÍA PARA AUTOMÓVILES:\n1. Prohibición vehículos tracción animal/ciclos.\n2. Control de velocidad y sentido de circulación.\n3. Vigilancia de paradas en calzada."
@@ -805,7 +1030,7 @@ const App = () => {
 
     'madrid-regional-highway': {
       lines: [
-        { y: 350, type: 'speed-zone', direction: 'northbound', label: 'RADAR REGIONAL (M-607)', infractionType: 'SPEEDING' },
+        { y: 350, type: 'speed-zone', direction: 'bidirectional', label: 'RADAR REGIONAL (M-607)', infractionType: 'SPEEDING' },
         { y: 550, type: 'divider', direction: 'bidirectional', label: 'MEDIANA NEW JERSEY', infractionType: 'LINE_CROSSING' }
       ],
       directivesTemplate: "PROTOCOLO RED AUTONÓMICA MADRID (M-607/M-506):\n1. Control de velocidad variable según densidad.\n2. Vigilar uso de arcenes en retenciones.\n3. Sancionar circulación de vehículos no autorizados en bus-vao si aplica."
@@ -886,8 +1111,8 @@ const App = () => {
 
     'intersection-stack': {
       lines: [
-        { y: 400, type: 'divider', direction: 'northbound', label: 'RAMAL NIVEL +1', infractionType: null },
-        { y: 600, type: 'divider', direction: 'northbound', label: 'RAMAL NIVEL +2', infractionType: null }
+        { y: 400, type: 'divider', direction: 'bidirectional', label: 'RAMAL NIVEL +1', infractionType: null },
+        { y: 600, type: 'divider', direction: 'bidirectional', label: 'RAMAL NIVEL +2', infractionType: null }
       ],
       directivesTemplate: "PROTOCOLO STACK INTERCHANGE (Multinivel):\n1. Control de velocidad en ramales de gran altura.\n2. Vigilancia de cambios de carril en zonas de convergencia de niveles.\n3. Auditoría de flujo masivo direccional."
     },
@@ -919,17 +1144,42 @@ const App = () => {
   const parseDirectivesToLines = useCallback((text: string, baseLines: DetectionLine[]): DetectionLine[] => {
     const lines = [...baseLines];
 
-    // 1. Manual line syntax: [LINE: Y=500, TYPE=solid, LABEL=...]
-    const regex = /\[LINE:\s*Y=(\d+),\s*TYPE=([^,\]\s]+),\s*LABEL=([^,\]]+)(?:,\s*INFRACTION=([^,\]\s]+))?\]/gi;
+    // 1. Manual line syntax: [LINE: Y=500, TYPE=solid, LABEL=..., INFRACTION=..., DIRECTION=northbound]
+    const regex = /\[LINE:\s*Y=(\d+),\s*TYPE=([^,\]\s]+),\s*LABEL=([^,\]]+)(?:,\s*INFRACTION=([^,\]\s]+))?(?:,\s*DIRECTION=(northbound|southbound|bidirectional))?\]/gi;
     let match;
     while ((match = regex.exec(text)) !== null) {
-      const [, y, type, label, infraction] = match;
+      const [, y, type, label, infraction, direction] = match;
       lines.push({
         y: parseInt(y),
         type: type.trim() as any,
-        direction: 'bidirectional',
+        direction: (direction?.toLowerCase() || 'bidirectional') as DetectionLine['direction'],
+        label: label.trim(),
+        infractionType: (infraction?.trim() || null) as any,
+        origin: { kind: 'directive', text: match[0] }
+      });
+    }
+
+    // 1b. Geometry syntax: [ZONE: POINTS=100:700 450:650 450:1000 100:1000, TYPE=bus-lane, LABEL=...] (polygon)
+    //     and [PATH: POINTS=..., TYPE=solid, LABEL=...] (polyline), coordinates in 0-1000 space
+    const zoneRegex = /\[(ZONE|PATH):\s*POINTS=([\d.:\s]+),\s*TYPE=([^,\]\s]+),\s*LABEL=([^,\]]+)(?:,\s*INFRACTION=([^,\]\s]+))?(?:,\s*DIRECTION=(northbound|southbound|bidirectional))?\]/gi;
+    while ((match = zoneRegex.exec(text)) !== null) {
+      const [, kind, rawPoints, type, label, infraction, direction] = match;
+      const points = rawPoints.trim().split(/\s+/).map(pair => {
+        const [x, y] = pair.split(':').map(Number);
+        return { x, y };
+      }).filter(p => Number.isFinite(p.x) && Number.isFinite(p.y));
+      const isPolygon = kind.toUpperCase() === 'ZONE';
+      if (points.length < (isPolygon ? 3 : 2)) continue;
+
+      lines.push({
+        y: points[0].y,
+        shape: isPolygon ? 'polygon' : 'polyline',
+        points,
+        type: type.trim() as any,
+        direction: (direction?.toLowerCase() || 'bidirectional') as DetectionLine['direction'],
         label: label.trim(),
-        infractionType: (infraction?.trim() || null) as any
+        infractionType: (infraction?.trim() || null) as any,
+        origin: { kind: 'directive', text: match[0] }
       });
     }
 
@@ -984,7 +1234,8 @@ const App = () => {
           type: rule.line.type,
           direction: 'bidirectional',
           label: rule.line.label,
-          infractionType: rule.line.infraction
+          infractionType: rule.line.infraction,
+          origin: { kind: 'synthesized', key: rule.line.label }
         };
 
         // Only add if not already present (avoid duplicates)
@@ -1014,7 +1265,8 @@ const App = () => {
               type: 'divider',
               direction: 'bidirectional',
               label: `AUTO: CARRIL ${i}`,
-              infractionType: null as any
+              infractionType: null as any,
+              origin: { kind: 'synthesized', key: `AUTO: CARRIL ${i}` }
             });
           }
         }
@@ -1028,32 +1280,31 @@ const App = () => {
   const combinedLinesForSync = useCallback((configs: string[]) => {
     let lines: DetectionLine[] = [];
     configs.forEach(c => {
-      if (ROAD_PRESETS[c]) lines = [...lines, ...ROAD_PRESETS[c].lines];
+      if (ROAD_PRESETS[c]) lines = [...lines, ...ROAD_PRESETS[c].lines.map((l, i): DetectionLine => ({ ...l, origin: { kind: 'preset', key: `${c}:${i}` } }))];
     });
     return lines;
   }, []);
 
   // Neural Merge: Sync lines and directives from multiple selected protocols
   const syncProtocols = useCallback((configs: string[], currentDirectives: string) => {
-    let combinedLines: DetectionLine[] = [];
+    const combinedLines = combinedLinesForSync(configs);
     let combinedDirectives = "";
 
     configs.forEach(conf => {
       const preset = ROAD_PRESETS[conf];
       if (preset) {
-        combinedLines = [...combinedLines, ...preset.lines];
         combinedDirectives += (combinedDirectives ? "\n\n" : "") + preset.directivesTemplate;
       }
     });
 
     // Apply Neural Synthesis on top of combined templates
     const finalLines = parseDirectivesToLines(combinedDirectives, combinedLines);
-    setDetectionLines(finalLines);
+    setDetectionLines(applyZoneEdits(finalLines, zoneEdits));
     setDirectives(combinedDirectives);
 
     setAiFeedback(`SINCRONIZACIÓN MULTI-PROTOCOLO: ${configs.length} ACTIVOS`);
     setTimeout(() => setAiFeedback(null), 3000);
-  }, [parseDirectivesToLines]);
+  }, [parseDirectivesToLines, combinedLinesForSync, zoneEdits]);
 
   const toggleProtocol = (confKey: string) => {
     setSelectedConfigs(prev => {
@@ -1070,22 +1321,98 @@ const App = () => {
   };
 
   // === AUTO-SYNTHESIS TRIGGER ===
-  // Automatically re-synthesize lines when directives change (user edits text)
+  // Automatically re-synthesize lines when directives change (user edits text); the editor's
+  // changes are merged back in, so opening or closing the editor leaves the lines alone.
+  // zoneEdits is read through a ref: they follow every line change in manual mode, and
+  // re-synthesizing on them would feed back into detectionLines
   useEffect(() => {
-    if (!isManualMode && directives) {
+    if (directives) {
       const baseLines = combinedLinesForSync(selectedConfigs);
       const synthesized = parseDirectivesToLines(directives, baseLines);
-      setDetectionLines(synthesized);
+      setDetectionLines(applyZoneEdits(synthesized, zoneEditsRef.current));
       console.log(`🧠 AUTO-SYNTHESIS: Generated ${synthesized.filter(l => l.label.startsWith('AUTO:')).length} smart lines`);
     }
-  }, [directives, selectedConfigs, isManualMode, parseDirectivesToLines, combinedLinesForSync]);
+  }, [directives, selectedConfigs, parseDirectivesToLines, combinedLinesForSync]);
+
+  // Every editor change is remembered relative to the synthesis of the current directives
+  useEffect(() => {
+    if (isManualMode) setZoneEdits(diffZones(parseDirectivesToLines(directives, combinedLinesForSync(selectedConfigs)), detectionLines));
+  }, [detectionLines, isManualMode]);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const tracksRef = useRef<Track[]>([]);
-  const detectorRef = useRef<YoloDetector | null>(null);
+  const detectorRef = useRef<WorkerYoloDetector | null>(null);
   const trackerRef = useRef<ByteTracker | BoTSORT | null>(null);
-  const processingRef = useRef(false);
+  const frameCaptureRef = useRef(new FrameCapture()); // One pixel copy per tick, shared by all stages
+  const zoneOccupancyRef = useRef(new ZoneOccupancy()); // Who is inside which polygon zone, since when
+  const sectionMonitorRef = useRef(new SectionSpeedMonitor()); // Open tramo entries per track
+  const stopMonitorRef = useRef(new StopComplianceMonitor()); // Approach samples per STOP line and track
+  const pedestrianMonitorRef = useRef(new PedestrianPriorityMonitor()); // People inside / entering each crosswalk
+  const plateRecognizerRef = useRef(new PlateRecognizer());
+  const plateVoterRef = useRef(new PlateVoter()); // ANPR readings per track until a plate is confirmed
+  const anprBusyRef = useRef(false); // One plate read in flight at a time
+  const [anprReady, setAnprReady] = useState(false);
+  const vehicleRegistryRef = useRef(new VehicleRegistry()); // Plate-keyed history (expedientes + ANPR sightings)
+  const registeredLogsRef = useRef(new Map<number, string>()); // Log id -> plate it was filed under
+  const pendingPlateLogsRef = useRef(new Map<number, number[]>()); // Live track -> its expedientes still without plate
+  const [timelinePlate, setTimelinePlate] = useState<string | null>(null);
+  const [, setRegistryVersion] = useState(0); // Re-render once new expedientes are filed
+  const registryLocation = selectedConfigs.join(' + ');
+  const registryLocationRef = useRef(registryLocation);
+  registryLocationRef.current = registryLocation;
+
+  // Every expediente is filed under its plate (unread / pending plates are skipped by the registry);
+  // a pending expediente is filed again once its plate is read
+  useEffect(() => {
+    let filed = false;
+    logs.forEach(log => {
+      if (registeredLogsRef.current.get(log.id) === log.plate) return;
+      registeredLogsRef.current.set(log.id, log.plate);
+      filed = vehicleRegistryRef.current.recordInfraction(
+        log.plate,
+        { at: log.id, location: registryLocation, vehicleType: log.vehicleType, subType: log.subType },
+        { logId: log.id, at: log.id, description: log.description, severity: log.severity, legalArticle: log.legalArticle, location: registryLocation }
+      ) || filed;
+    });
+    if (filed) setRegistryVersion(v => v + 1);
+  }, [logs]);
+  const parkingMonitorRef = useRef(new ParkingMonitor()); // Stationary stays per loading / no-parking zone
+  const parkingRules = useMemo(() => parseParkingDirectives(directives), [directives]);
+  const [parkingDraft, setParkingDraft] = useState({ zone: '', maxMinutes: 30, from: '08:00', to: '20:00' });
+  // Recording clock of an uploaded file: ms epoch at media time 0 (parking schedules by time of day)
+  const [recordingStart, setRecordingStart] = useState<number | null>(null);
+  const uploadModifiedRef = useRef(0); // lastModified of the uploaded file (≈ end of the recording)
+  const lightRois = useMemo(() => parseLightDirectives(directives), [directives]);
+  const lightTimelinesRef = useRef(new Map<string, LightTimeline>()); // ROI directive -> state history
+  const [lightStates, setLightStates] = useState<Record<string, LightState>>({});
+  const [isMarkingLight, setIsMarkingLight] = useState(false);
+  const [lightDraft, setLightDraft] = useState<Vec2[]>([]);
+  const [lightStopLine, setLightStopLine] = useState('');
+  const [stopPolicy, setStopPolicy] = useState({
+    minStopSeconds: DEFAULT_STOP_POLICY.minStopSeconds,
+    approachMeters: DEFAULT_STOP_POLICY.approachMeters
+  });
+  const speedSections = useMemo(() => parseSectionDirectives(directives), [directives]);
+  const [sectionDraft, setSectionDraft] = useState({ entry: '', exit: '', distance: 100, limit: 50, truckLimit: 0 });
+  const auditQueueRef = useRef(new AuditQueue<AuditPayload>(
+    job => processAuditJobRef.current(job),
+    new AuditJobStore<AuditPayload>('sentinel.auditQueue', shrinkAuditPayload)
+  ));
+  const processAuditJobRef = useRef<(job: AuditJob<AuditPayload>) => Promise<void>>(async () => { });
+  const auditClipsRef = useRef(new Map<string, Promise<string>>()); // Job key -> evidence clip being recorded (infractions only)
+  const [auditStatus, setAuditStatus] = useState<QueueStatus>({ pending: 0, running: 0 });
+  const [auditConcurrency, setAuditConcurrency] = useState(1);
+  useEffect(() => {
+    const queue = auditQueueRef.current;
+    const unsubscribe = queue.subscribe(status => {
+      setAuditStatus(status);
+      if (status.running === 0) setStatusMsg(null);
+    });
+    queue.restore();
+    return unsubscribe;
+  }, []);
+  useEffect(() => { auditQueueRef.current.concurrency = auditConcurrency; }, [auditConcurrency]);
   const lastFrameTime = useRef(Date.now());
   const fpsRef = useRef(30);
 
@@ -1098,7 +1425,7 @@ const App = () => {
     const basePreset = ROAD_PRESETS[selectedConfigs[0]];
     if (basePreset) {
       const dynamicLines = parseDirectivesToLines(newDirectives, combinedLinesForSync(selectedConfigs));
-      setDetectionLines(dynamicLines);
+      setDetectionLines(applyZoneEdits(dynamicLines, zoneEdits));
     }
 
     setAiFeedback("ACTUALIZANDO CRITERIOS DE ANÁLISIS... SINCRONIZANDO CON RED NEURONAL");
@@ -1137,28 +1464,64 @@ const App = () => {
   };
 
   useEffect(() => {
+    // Inference runs in a Web Worker; the render loop only submits frames and reads results
+    // Runtime changes need a fresh worker: ONNX WASM flags only apply before first init
+    const detector = new WorkerYoloDetector();
     const loadModels = async () => {
       try {
-        const detector = new YoloDetector();
+        setActiveBackend(null);
         // Use BASE_URL to support GitHub Pages subdirectory deployment
         await detector.load(
           import.meta.env.BASE_URL + 'upload/yolo11n_640.onnx',
-          import.meta.env.BASE_URL + 'upload/yolo11n_pose.onnx' // Pose model
+          import.meta.env.BASE_URL + 'upload/yolo11n_pose.onnx', // Pose model
+          {
+            executionProviders: yoloConfig.executionProviders,
+            numThreads: yoloConfig.numThreads
+          }
         );
         detectorRef.current = detector;
-
-        // Initialize tracker based on preset configuration
-        if (yoloConfig.trackerType === 'BoT-SORT') {
-          trackerRef.current = new BoTSORT();
-        } else {
-          trackerRef.current = new ByteTracker();
-        }
-        console.log(`YOLOv11 + ${yoloConfig.trackerType} system initialized`);
+        setActiveBackend(detector.provider);
+        console.log(`YOLOv11 initialized on ${detector.provider}`);
       } catch (e) {
         console.error("YOLO Load Error", e);
       }
     };
     loadModels();
+    return () => {
+      detector.terminate();
+      if (detectorRef.current === detector) detectorRef.current = null;
+    };
+  }, [yoloConfig.executionProviders.join(','), yoloConfig.numThreads]);
+
+  // ReID model follows the preset; swapped inside the running worker once the detector is up
+  useEffect(() => {
+    const detector = detectorRef.current;
+    if (!activeBackend || !detector) return;
+    const path = yoloConfig.reidModelPath ? import.meta.env.BASE_URL + yoloConfig.reidModelPath : null;
+    detector.setReidModel(path).then(ok => {
+      if (detectorRef.current === detector) setReidActive(ok);
+    });
+  }, [activeBackend, yoloConfig.reidModelPath]);
+
+  // ANPR models (optional), on the provider chain the detector settled on
+  useEffect(() => {
+    if (!activeBackend) return;
+    const chain = yoloConfig.executionProviders.slice(Math.max(0, yoloConfig.executionProviders.indexOf(activeBackend)));
+    plateRecognizerRef.current.load(
+      import.meta.env.BASE_URL + 'upload/plate_detector.onnx',
+      import.meta.env.BASE_URL + 'upload/plate_ocr.onnx',
+      chain
+    ).then(setAnprReady);
+  }, [activeBackend]);
+
+  useEffect(() => {
+    // Initialize tracker based on preset configuration
+    if (yoloConfig.trackerType === 'BoT-SORT') {
+      trackerRef.current = new BoTSORT();
+    } else {
+      trackerRef.current = new ByteTracker();
+    }
+    console.log(`${yoloConfig.trackerType} tracker initialized`);
   }, [yoloConfig.trackerType]);
 
   useEffect(() => {
@@ -1166,6 +1529,10 @@ const App = () => {
       videoRef.current.src = videoUrl;
       videoRef.current.load();
       videoRef.current.onloadeddata = () => safePlay();
+      videoRef.current.onloadedmetadata = () => {
+        const duration = videoRef.current?.duration;
+        setRecordingStart(uploadModifiedRef.current - (Number.isFinite(duration) ? duration! * 1000 : 0));
+      };
     }
   }, [videoUrl, source]);
 
@@ -1185,223 +1552,992 @@ const App = () => {
     });
   };
 
-  const runNeuralAudit = async (track: Track) => {
-    if (processingRef.current) return;
-    processingRef.current = true;
-    setIsAnalyzing(true);
-    setStatusMsg("FORENSIC ANALYSIS: DAGANZO_POLICE_ALGO ACTIVE...");
+  // Queued with the evidence as it stands now; the judge runs when a worker slot frees up
+  const queueAudit = (track: Track, priority: AuditPriority) => {
+    const key = auditKey(track.id);
+    // Metric telemetry from the calibrated road plane: distance from the ground point to the
+    // zone of the last event (or the nearest drawn zone)
+    const kin = calibration ? track.kinematics : null;
+    const speedText = kin ? `${Math.floor(kin.speed * 3.6)} km/h` : 'N/D';
+    const speedSigmaText = kin ? `± ${Math.ceil(kin.speedSigma * 3.6)} km/h` : undefined;
+    const accelerationText = kin && kin.acceleration !== null ? `${kin.acceleration.toFixed(1)} ± ${kin.accelerationSigma!.toFixed(1)} m/s²` : undefined;
+    const headingText = kin ? `${kin.heading.toFixed(0)}° ± ${Math.ceil(kin.headingSigma)}°` : undefined;
+    const foot = { x: track.renderX, y: track.renderY + track.renderH / 2 };
+    const eventLine = detectionLines.find(l => l.label === track.lastZoneEvent?.zone);
+    const candidateLines = eventLine ? [eventLine] : detectionLines.filter(l => !l.label.startsWith('GRID_') && !l.label.startsWith('PERSP_'));
+    const lineDistances = calibration
+      ? candidateLines.map(l => distanceToLine(calibration, foot, l)).filter((d): d is number => d !== null)
+      : [];
+    const lineDistanceText = lineDistances.length > 0 ? `${Math.min(...lineDistances).toFixed(2)} m` : undefined;
+    const calibrationText = calibration ? `${calibration.widthMeters}×${calibration.lengthMeters} M` : undefined;
+    const stop = track.stopVerdict;
+    const stopText = stop
+      ? `"${stop.line}": ${stop.compliant === null ? 'INDETERMINADO (evidencia insuficiente)' : stop.compliant ? 'DETENCIÓN COMPLETA' : 'SIN DETENCIÓN COMPLETA'}; detención más larga ${stop.longestStopSeconds.toFixed(1)} s (mínimo exigido ${stopPolicy.minStopSeconds} s), velocidad mínima en aproximación ${stop.minSpeedKmh !== null ? `${stop.minSpeedKmh.toFixed(1)} km/h` : 'N/D'}`
+      : null;
+    const yieldVerdict = track.priorityVerdict;
+    const pedestriansText = yieldVerdict && yieldVerdict.pedestrians.length > 0
+      ? yieldVerdict.pedestrians.map(p => `peatón #${p.trackId} ${p.state === 'inside' ? 'en la cebra' : `accediendo a ${p.distance.toFixed(p.metric ? 1 : 0)} ${p.metric ? 'm' : 'u'}`} (pies por ${p.footSource === 'pose' ? 'tobillos de pose' : 'base de caja'})`).join(', ')
+      : undefined;
+    const priorityText = yieldVerdict
+      ? `"${yieldVerdict.zone}": ${pedestriansText || 'sin peatones presentes'}; vehículo ${yieldVerdict.yielded ? 'detenido en el borde (cede el paso)' : yieldVerdict.pedestrians.length === 0 ? 'sin conflicto' : yieldVerdict.yielded === null ? 'INDETERMINADO (cámara sin calibrar, velocidad desconocida)' : 'NO CEDE EL PASO'}${yieldVerdict.vehicleSpeedKmh !== null ? ` a ${yieldVerdict.vehicleSpeedKmh.toFixed(0)} km/h` : ''}`
+      : null;
+    const plateReading = track.plateReading;
+    const plateText = plateReading
+      ? `${formatPlate(plateReading.text)} (${PLATE_FORMAT_NAMES[plateReading.format]}), ${plateReading.confirmed ? 'CONFIRMADA' : 'SIN CONFIRMAR'} en ${plateReading.votes} de ${plateReading.attempts} lecturas; confianza por carácter ${plateReading.characters.map(c => `${c.char}=${c.confidence.toFixed(2)}`).join(' ')}. Contrasta con la matrícula visible en las imágenes`
+      : null;
+    const light = track.redLight;
+    const lightNames: Record<LightState, string> = { red: 'ROJO', amber: 'ÁMBAR', green: 'VERDE', unknown: 'DESCONOCIDO' };
+    const lightText = light
+      ? `"${light.light}": ${lightNames[light.state]} desde hace ${light.stateSeconds.toFixed(1)} s al cruzar la línea (t_vídeo ${light.crossingTime.toFixed(2)} s); secuencia previa: ${light.timeline.map(p => `${lightNames[p.state]} ${p.start.toFixed(1)}–${p.end.toFixed(1)} s`).join(' → ')}`
+      : null;
+
+    const facts: [string, string][] = [
+      ['Track ID', `${track.id}`],
+      ['Edad del Track', `${track.age} frames`],
+      ['Confianza Media', track.confidence.toFixed(3)],
+      ['Velocidad Estimada', kin ? `${speedText} ${speedSigmaText} (1σ; regresión robusta de ${kin.samples} posiciones medidas del punto de apoyo sobre la calzada en ${kin.span.toFixed(2)} s de tiempo de vídeo, ${kin.inliers} válidas)` : speedText],
+      ['Aceleración Longitudinal', accelerationText || 'N/D'],
+      ['Rumbo respecto al eje del carril', headingText || 'N/D'],
+      ...(stopText ? [['Control STOP', stopText] as [string, string]] : []),
+      ...(priorityText ? [['Prioridad Peatonal', priorityText] as [string, string]] : []),
+      ...(lightText ? [['Semáforo', lightText] as [string, string]] : []),
+      ['Distancia a Línea', `${lineDistanceText || 'N/D'}${eventLine ? ` (a "${eventLine.label}")` : ''}`],
+      ...(plateText ? [['Matrícula (ANPR local)', plateText] as [string, string]] : []),
+      ['Clase Detectada', track.label],
+      ['Estado Infractor', track.isInfractor ? 'CONFIRMADO (cruce de línea detectado)' : 'En evaluación'],
+      ['Último Evento de Zona', track.lastZoneEvent ? `"${track.lastZoneEvent.zone}" en sentido ${track.lastZoneEvent.direction === 'northbound' ? 'NORTE (hacia el fondo)' : 'SUR (hacia la cámara)'}${track.lastZoneEvent.wrongWay ? ' — CONTRA EL SENTIDO PERMITIDO (KAMIKAZE)' : ''}${track.lastZoneEvent.infractionType ? ` → ${track.lastZoneEvent.infractionType}` : ''}` : 'Ninguno'],
+      ['Permanencia en Zonas', track.zoneDwell && Object.keys(track.zoneDwell).length > 0 ? Object.entries(track.zoneDwell).map(([zone, ms]) => `${zone} ${(ms / 1000).toFixed(1)}s`).join(', ') : 'Ninguna']
+    ];
+    const pipeline = `YOLOv11n (ONNX) + ByteTrack para seguimiento de alta precisión en tiempo real.
+       - Modelo de Detección: YOLO11-Nano (640×640px, letterbox) corriendo en ONNX Runtime Web (${(activeBackend || 'wasm').toUpperCase()})
+       - Tracker: ${yoloConfig.trackerType} con Filtro de Kalman de 8 estados [cx, cy, aspecto, altura, vx, vy, va, vh]
+       - Coincidencia: ${yoloConfig.matchingAlgorithm === 'hungarian' ? 'Algoritmo Húngaro (asignación óptima)' : 'Asignación voraz (greedy)'} con IoU threshold = ${yoloConfig.matchIouThreshold}
+       - Configuración Activa: ${activePreset}
+         * Umbral Conf. YOLO: ${yoloConfig.confThreshold}
+         * Skip de Frames: ${yoloConfig.detectionSkip}
+         * Buffer de Track: ${yoloConfig.trackBufferFrames} frames
+         * High Det. Threshold: ${yoloConfig.highDetThreshold}
+       - Suavizado: Filtro de Kalman de velocidad constante con covarianza completa y compuerta de Mahalanobis (χ² 95%)${yoloConfig.trackerType === 'BoT-SORT' && yoloConfig.cameraMotionCompensation ? ' + compensación de movimiento de cámara (GMC)' : ''}`;
+
+    const evidence: AuditEvidence = {
+      trackId: track.id,
+      vehicleClass: track.label,
+      trackAge: track.age,
+      yoloConfidence: track.confidence,
+      plate: track.plate,
+      speedEstimated: speedText,
+      infractionType: track.isInfractor ? track.lastZoneEvent?.infractionType || null : null,
+      snapshots: [...track.snapshots],
+      pipeline,
+      metrology: calibration
+        ? `Homografía imagen→calzada calibrada con rectángulo de ${calibration.widthMeters} m (carril) × ${calibration.lengthMeters} m (trazo); velocidades y distancias en metros reales sobre el plano de la vía`
+        : 'Cámara SIN calibrar: no hay medidas métricas de velocidad ni distancia',
+      facts
+    };
+    const context: AuditContext = {
+      image: `data:image/jpeg;base64,${track.snapshots[track.snapshots.length - 1]}`,
+      snapshots: [...track.snapshots],
+      violatedDirective: directives,
+      telemetry: {
+        speedEstimated: speedText,
+        speedUncertainty: speedSigmaText,
+        acceleration: accelerationText,
+        heading: headingText,
+        kinematicSamples: kin?.samples,
+        minSpeedObserved: stop?.minSpeedKmh != null ? `${stop.minSpeedKmh.toFixed(1)} km/h` : undefined,
+        stopDuration: stop ? `${stop.longestStopSeconds.toFixed(1)} s` : undefined,
+        pedestriansPresent: pedestriansText,
+        distanceToLine: lineDistanceText,
+        calibration: calibrationText,
+        framesAnalyzed: track.points.length
+      },
+      trafficLight: light,
+      plateReading
+    };
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GOOGLE_GENAI_KEY });
-      const systemInstruction = `Eres el AUDITOR FORENSE SUPREMO asignado a la Policía Local de Daganzo de Arriba.
-      
-      ESPECIFICACIONES TÉCNICAS DEL SISTEMA (SENTINEL V15 - ARQUITECTURA HÍBRIDA EDGE+CLOUD):
-      1. Capa Local (Edge Computing): YOLOv11n (ONNX) + ByteTrack para seguimiento de alta precisión en tiempo real.
-         - Modelo de Detección: YOLO11-Nano (640×640px) corriendo en WebAssembly SIMD
-         - Tracker: ByteTrack con Filtro de Kalman de 8 estados [cx, cy, área, altura, vx, vy, va, vh]
-         - Coincidencia: Algoritmo Húngaro con IoU threshold = ${yoloConfig.matchIouThreshold}
-         - Configuración Activa: ${activePreset} 
-           * Umbral Conf. YOLO: ${yoloConfig.confThreshold}
-           * Skip de Frames: ${yoloConfig.detectionSkip}
-           * Buffer de Track: ${yoloConfig.trackBufferFrames} frames
-           * High Det. Threshold: ${yoloConfig.highDetThreshold}
-         - Suavizado: Filtro de Kalman con constante de velocidad y corrección por medición
-      2. Capa Remota (Cloud Judiciary - TU ROL): Juicio legal definitivo de la escena basado en evidencia visual multiplexada y las directivas municipales de Daganzo.
-      3. Geometría Espacial: Sistema de coordenadas normalizado (0-1000) con líneas de detección en eje Y.
-      
-      DATOS DEL VEHÍCULO ANALIZADO:
-      - Track ID: ${track.id}
-      - Edad del Track: ${track.age} frames
-      - Confianza Media: ${track.confidence.toFixed(3)}
-      - Velocidad Estimada: ${Math.floor(track.velocity * 3.6)} km/h (basado en desplazamiento entre frames)
-      - Clase Detectada: ${track.label}
-      - Estado Infractor: ${track.isInfractor ? 'CONFIRMADO (cruce de línea detectado)' : 'En evaluación'}
-      
-      INSTRUCCIONES DE ANÁLISIS:
-      Analiza la ráfaga de imágenes forenses para determinar si existe infracción de tráfico siguiendo ESTRICTAMENTE estas directivas municipales de Daganzo:
-      "${directives}"
-      
-      SALIDA JSON OBLIGATORIA (NO OTROS FORMATOS):
-      {
-        "infraction": boolean,
-        "plate": "MATRÍCULA",
-        "ocrConfidence": 0.95,
-        "description": "Relato técnico detallado de la infracción según directivas, incluyendo evidencia visual específica observada",
-        "severity": "leve|grave|muy-grave",
-        "legalArticle": "Artículo específico del código de circulación español",
-        "reasoning": ["Evidencia visual 1", "Evidencia visual 2", "Inferencia técnica"],
-        "vehicleType": "Descripción visual del vehículo (marca, modelo, color)",
-        "subType": "turismo|furgoneta|camión|moto|bus",
-        "confidence": 0.98,
-        "telemetry": { 
-          "speedEstimated": "${Math.floor(track.velocity * 3.6)} km/h", 
-          "trackAge": "${track.age} frames",
-          "yoloConfidence": "${track.confidence.toFixed(3)}",
-          "maneuverType": "Giro/Cruce/Adelantamiento/Recto",
-          "poseAlert": boolean
-        }
-      }`;
+    if (auditQueueRef.current.enqueue(key, priority, { evidence, directives, context })) {
+      // The clip records the moments right after the event, not the time the job runs;
+      // routine audits go without one
+      if (priority === 'infraction' && !auditClipsRef.current.has(key)) auditClipsRef.current.set(key, captureVideoClip(10000));
+      console.log(`⚖️ Auditoría en cola: Track ${track.id} (${priority})`);
+    }
+  };
 
-      const videoClipPromise = captureVideoClip(10000);
+  const processAuditJob = async (job: AuditJob<AuditPayload>) => {
+    const judge = forensicJudgeRef.current;
+    const { evidence, directives: jobDirectives } = job.payload;
+    const context: AuditContext = { ...job.payload.context };
+    // Jobs restored from a previous page load refer to tracks that no longer exist
+    const liveTrackId = job.key === auditKey(evidence.trackId) ? evidence.trackId : null;
+    const clip = auditClipsRef.current.get(job.key);
+    setStatusMsg(`FORENSIC ANALYSIS: ${judge.name.toUpperCase()}...`);
 
-      const parts = track.snapshots.map(s => ({ inlineData: { mimeType: 'image/jpeg', data: s } }));
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: { parts: [...parts, { text: "Ejecutar auditoría forense inmediata basada en directivas de Daganzo." }] },
-        config: { systemInstruction, responseMimeType: "application/json", temperature: 0.1 }
-      });
+    try {
+      const audit = await judgeWithRetry(judge, evidence, jobDirectives);
+      context.videoUrl = await clip;
+      applyVerdict(liveTrackId, audit, context);
+    } catch (e) {
+      if (!(e instanceof AuditFailedError)) throw e;
+      context.videoUrl = await clip;
+      console.error(`⚖️ Auditoría del track ${evidence.trackId} fallida:`, e.attempts);
+      setFailedAudits(prev => [{
+        id: Date.now(),
+        key: job.key,
+        time: new Date().toLocaleTimeString(),
+        date: new Date().toLocaleDateString(),
+        judge: judge.name,
+        evidence,
+        directives: jobDirectives,
+        context,
+        attempts: e.attempts
+      }, ...prev]);
+    } finally {
+      if (auditClipsRef.current.get(job.key) === clip) auditClipsRef.current.delete(job.key);
+    }
+  };
+  processAuditJobRef.current = processAuditJob;
+
+  // Expedientes opened on-device before the track's plate was read take it once it is known
+  const resolvePendingPlates = (trackId: number, plate: string, plateReading?: TrackPlate) => {
+    const ids = pendingPlateLogsRef.current.get(trackId);
+    if (!ids || plate === UNREAD_PLATE) return;
+    pendingPlateLogsRef.current.delete(trackId);
+    setLogs(prev => prev.map(log => ids.includes(log.id) && log.plate === PENDING_PLATE ? { ...log, plate, plateReading: plateReading || log.plateReading } : log));
+  };
 
-      const audit = JSON.parse(response.text.trim().match(/\{[\s\S]*\}/)?.[0] || "{}");
-      const videoClipUrl = await videoClipPromise;
+  // On-device expedientes opened without a plate wait for the ANPR or the judge to read it
+  const awaitPlate = (track: Track, logId: number) => {
+    if (track.plate) return;
+    pendingPlateLogsRef.current.set(track.id, [...(pendingPlateLogsRef.current.get(track.id) || []), logId]);
+  };
 
-      const trackIdx = tracksRef.current.findIndex(t => t.id === track.id);
-      if (trackIdx !== -1) {
-        tracksRef.current[trackIdx].plate = audit.plate;
-        tracksRef.current[trackIdx].isInfractor = audit.infraction;
-        tracksRef.current[trackIdx].analyzed = true;
-      }
+  // Validated verdict: the track takes the plate and outcome; an infraction opens the expediente
+  // A plate confirmed by the on-device ANPR stands; the judge's reading is kept as a cross-check
+  const applyVerdict = (trackId: number | null, audit: AuditVerdict, context: AuditContext, plateSource: 'judge' | 'officer' = 'judge') => {
+    const local = plateSource === 'judge' && context.plateReading?.confirmed ? context.plateReading : null;
+    const judgePlate = audit.plate === UNREAD_PLATE ? UNREAD_PLATE : formatPlate(audit.plate);
+    const plate = local ? formatPlate(local.text) : judgePlate;
+    const plateCheck = local ? { cloud: judgePlate, agrees: normalizePlate(audit.plate) === local.text } : undefined;
+    if (plateCheck && !plateCheck.agrees) console.warn(`🔎 Matrícula: ANPR ${plate} ≠ juez ${judgePlate}`);
+
+    const trackIdx = trackId === null ? -1 : tracksRef.current.findIndex(t => t.id === trackId);
+    if (trackIdx !== -1) {
+      tracksRef.current[trackIdx].plate = plate;
+      tracksRef.current[trackIdx].isInfractor = audit.infraction;
+      tracksRef.current[trackIdx].analyzed = true;
+      resolvePendingPlates(trackId!, plate, local || undefined);
+    }
 
-      if (audit.infraction) {
-        setCumulativeExpedientes(prev => prev + 1);
-        setLogs(prev => [{
-          ...audit,
-          id: Date.now(),
-          image: `data:image/jpeg;base64,${track.snapshots[track.snapshots.length - 1]}`,
-          snapshots: track.snapshots,
-          videoUrl: videoClipUrl,
-          time: new Date().toLocaleTimeString(),
-          date: new Date().toLocaleDateString(),
-          violatedDirective: directives,
-          telemetry: { ...audit.telemetry, framesAnalyzed: track.points.length }
-        }, ...prev]);
-      }
+    if (!audit.infraction && context.videoUrl) URL.revokeObjectURL(context.videoUrl); // No expediente keeps the clip
+
+    if (audit.infraction) {
+      setCumulativeExpedientes(prev => prev + 1);
+      setLogs(prev => [{
+        ...audit,
+        ...context,
+        plate,
+        plateCheck,
+        id: Date.now(),
+        time: new Date().toLocaleTimeString(),
+        date: new Date().toLocaleDateString(),
+        telemetry: { ...audit.telemetry, ...context.telemetry }
+      }, ...prev]);
+    }
+  };
+
+  // === Failed audits (manual review) ===
+  const retryFailedAudit = async (failure: FailedAudit) => {
+    setReviewBusy(true);
+    try {
+      const audit = await judgeWithRetry(forensicJudge, failure.evidence, failure.directives);
+      applyVerdict(failedAuditTrackId(failure), audit, failure.context);
+      setFailedAudits(prev => prev.filter(f => f.id !== failure.id));
+      setReviewAudit(null);
     } catch (e) {
-      console.error("Forensic Hub Error:", e);
+      const attempts = e instanceof AuditFailedError ? e.attempts : [{ at: Date.now(), error: (e as Error).message }];
+      const updated = { ...failure, judge: forensicJudge.name, attempts: [...failure.attempts, ...attempts] };
+      setFailedAudits(prev => prev.map(f => (f.id === failure.id ? updated : f)));
+      setReviewAudit(updated);
     } finally {
-      setIsAnalyzing(false);
-      setStatusMsg(null);
-      processingRef.current = false;
+      setReviewBusy(false);
     }
   };
 
-  const processFrame = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || !detectorRef.current || !trackerRef.current) return;
-    const v = videoRef.current;
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx || v.readyState < 2) return;
+  // The officer's own verdict from the evidence: plate and severity as entered in the review
+  const resolveFailedAudit = (failure: FailedAudit, plate: string, severity: typeof SEVERITIES[number]) => {
+    const rule = failure.evidence.infractionType;
+    applyVerdict(failedAuditTrackId(failure), {
+      infraction: true,
+      plate: normalizePlate(plate) || UNREAD_PLATE,
+      ocrConfidence: 1,
+      description: `Expediente abierto por revisión manual tras fallar la auditoría automática${rule ? ` (${rule})` : ''}.`,
+      severity,
+      legalArticle: 'Pendiente de calificación por el agente',
+      reasoning: failure.evidence.facts.map(([label, value]) => `${label}: ${value}`),
+      vehicleType: failure.evidence.vehicleClass,
+      subType: failure.evidence.vehicleClass,
+      confidence: failure.evidence.yoloConfidence,
+      telemetry: { speedEstimated: failure.evidence.speedEstimated, maneuverType: 'Revisión manual', poseAlert: false }
+    }, failure.context, 'officer');
+    setFailedAudits(prev => prev.filter(f => f.id !== failure.id));
+    setReviewAudit(null);
+  };
 
-    const now = Date.now();
-    const delta = now - lastFrameTime.current;
-    const deltaSeconds = delta / 1000;
-    if (delta > 0) {
-      const currentFps = Math.round(1000 / delta);
-      setFps(currentFps);
-      fpsRef.current = currentFps;
-    }
-    lastFrameTime.current = now;
+  const dismissFailedAudit = (failure: FailedAudit) => {
+    if (failure.context.videoUrl) URL.revokeObjectURL(failure.context.videoUrl);
+    setFailedAudits(prev => prev.filter(f => f.id !== failure.id));
+    setReviewAudit(null);
+  };
 
-    canvas.width = canvas.parentElement?.clientWidth || 0;
-    canvas.height = canvas.parentElement?.clientHeight || 0;
-    const scale = Math.min(canvas.width / v.videoWidth, canvas.height / v.videoHeight);
-    const dW = v.videoWidth * scale;
-    const dH = v.videoHeight * scale;
-    const oX = (canvas.width - dW) / 2;
-    const oY = (canvas.height - dH) / 2;
+  // === Section (tramo) Speed ===
+  // Measured on-device: the expediente is opened directly with both crossings as evidence
+  const reportSectionPassage = (track: Track, passage: SectionPassage) => {
+    const kmh = (v: number) => Math.round(v);
+    console.log(`⏱️ TRAMO "${passage.sectionLabel}": Track ${track.id} ${kmh(passage.averageKmh)} km/h (límite ${passage.limitKmh})`);
+    if (!passage.infraction) return;
+
+    track.isInfractor = true;
+    const section = speedSections.find(s => s.id === passage.sectionId);
+    const exitDate = new Date(passage.exit.wallTime);
+    const id = Date.now();
+    awaitPlate(track, id);
+    setCumulativeExpedientes(prev => prev + 1);
+    setLogs(prev => [{
+      id,
+      plate: track.plate || PENDING_PLATE,
+      description: `Velocidad media de ${kmh(passage.averageKmh)} km/h (${kmh(passage.correctedKmh)} km/h descontado el margen de ${kmh(passage.marginKmh)} km/h) en el tramo "${passage.sectionLabel}": ${passage.distanceMeters} m recorridos en ${passage.elapsedSeconds.toFixed(2)} s. Límite para ${passage.vehicleClass}: ${passage.limitKmh} km/h.`,
+      severity: passage.severity!,
+      image: `data:image/jpeg;base64,${passage.exit.snapshot || passage.entry.snapshot || track.snapshots[track.snapshots.length - 1]}`,
+      snapshots: [passage.entry.snapshot, passage.exit.snapshot].filter((s): s is string => !!s),
+      time: exitDate.toLocaleTimeString(),
+      date: exitDate.toLocaleDateString(),
+      reasoning: [
+        `Entrada: ${new Date(passage.entry.wallTime).toLocaleTimeString()} (t_vídeo ${passage.entry.mediaTime.toFixed(3)} s)`,
+        `Salida: ${exitDate.toLocaleTimeString()} (t_vídeo ${passage.exit.mediaTime.toFixed(3)} s)`,
+        `Velocidad media = ${passage.distanceMeters} m / ${passage.elapsedSeconds.toFixed(3)} s`
+      ],
+      vehicleType: track.label,
+      subType: track.subType || track.label,
+      confidence: track.confidence,
+      violatedDirective: section?.directive || passage.sectionLabel,
+      legalArticle: passage.severity === 'muy-grave' ? 'Art. 77.a RDL 6/2015 (LSV)' : 'Art. 76.a RDL 6/2015 (LSV)',
+      telemetry: {
+        speedEstimated: `${kmh(passage.averageKmh)} km/h`,
+        maneuverType: 'Tramo',
+        poseAlert: false,
+        framesAnalyzed: track.points.filter(p => p.mediaTime !== undefined).length,
+        calibration: `TRAMO ${passage.distanceMeters} M`
+      },
+      section: passage
+    }, ...prev]);
+  };
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    if (!isPlaying) return;
+  // === Parking Dwell ===
+  // Also opened directly: the evidence is the stay itself, from its start and end snapshots
+  const reportParking = (track: Track, violation: ParkingViolation) => {
+    const minutes = (seconds: number) => `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`;
+    const loading = violation.zoneType === 'loading-zone';
+    console.log(`🅿️ ESTACIONAMIENTO "${violation.zone}": Track ${track.id} ${minutes(violation.dwellSeconds)} (máximo ${violation.allowedMinutes} min)`);
+
+    track.isInfractor = true;
+    const endDate = new Date(violation.endedAt);
+    const id = Date.now();
+    awaitPlate(track, id);
+    setCumulativeExpedientes(prev => prev + 1);
+    setLogs(prev => [{
+      id,
+      plate: track.plate || PENDING_PLATE,
+      description: `Vehículo estacionado ${minutes(violation.dwellSeconds)} en ${loading ? 'la zona de carga y descarga' : 'la zona de estacionamiento prohibido'} "${violation.zone}", superando el máximo de ${violation.allowedMinutes} min en vigor a esta hora.`,
+      severity: 'leve',
+      image: `data:image/jpeg;base64,${violation.endSnapshot || violation.startSnapshot || track.snapshots[track.snapshots.length - 1]}`,
+      snapshots: [violation.startSnapshot, violation.endSnapshot].filter((s): s is string => !!s),
+      time: endDate.toLocaleTimeString(),
+      date: endDate.toLocaleDateString(),
+      reasoning: [
+        `Inicio de la detención: ${new Date(violation.startedAt).toLocaleTimeString()}`,
+        `Constatación: ${endDate.toLocaleTimeString()} (${minutes(violation.dwellSeconds)})`,
+        violation.rule ? `Horario aplicado: ${violation.rule}` : `Máximo por defecto de la zona: ${violation.allowedMinutes} min`,
+        ...(violation.occlusions > 0 ? [`Seguimiento mantenido tras ${violation.occlusions} ocultación(es) del vehículo`] : [])
+      ],
+      vehicleType: track.label,
+      subType: track.subType || track.label,
+      confidence: track.confidence,
+      violatedDirective: violation.rule || violation.zone,
+      legalArticle: 'Art. 91 y 94 RD 1428/2003 (RGC)',
+      telemetry: {
+        speedEstimated: '0 km/h',
+        maneuverType: loading ? 'Estacionamiento en zona de carga' : 'Estacionamiento prohibido / doble fila',
+        poseAlert: false,
+        framesAnalyzed: track.points.filter(p => p.mediaTime !== undefined).length
+      },
+      parking: violation
+    }, ...prev]);
+  };
 
-    // HUD-only layer
-    if (isManualMode && canvasRef.current) {
-      ctx.strokeStyle = 'rgba(34, 211, 238, 0.5)';
-      ctx.setLineDash([5, 5]);
-      ctx.beginPath();
-      ctx.moveTo(oX, 0); ctx.lineTo(oX + dW, 0);
-      ctx.setLineDash([]);
-    }
+  // === Zone Rendering (detection lines, polylines, polygons) ===
+  const drawZones = (ctx: CanvasRenderingContext2D, lines: DetectionLine[], oX: number, oY: number, dW: number, dH: number, canvasWidth: number) => {
+    lines.forEach(line => {
+      const lineY = oY + (line.y / 1000) * dH;
 
-    frameCounterRef.current++;
+      // Line style based on type and infraction priority
+      switch (line.type) {
+        case 'solid':
+          ctx.strokeStyle = '#ef4444'; // Red for solid lines
+          ctx.lineWidth = 4;
+          ctx.setLineDash([]);
+          break;
+        case 'stop':
+          ctx.strokeStyle = '#dc2626'; // Bright Red for STOP
+          ctx.lineWidth = 6;
+          ctx.setLineDash([]);
+          break;
+        case 'pedestrian':
+          ctx.strokeStyle = '#22d3ee'; // Cyan for Pedestrian zones
+          ctx.lineWidth = 8;
+          ctx.setLineDash([30, 20]); // Zebra pattern
+          break;
+        case 'bus-lane':
+          ctx.strokeStyle = '#f59e0b'; // Amber for Bus Lane
+          ctx.lineWidth = 5;
+          ctx.setLineDash([]);
+          break;
+        case 'loading-zone':
+          ctx.strokeStyle = '#a855f7'; // Purple for Loading zones
+          ctx.lineWidth = 3;
+          ctx.setLineDash([10, 10]);
+          break;
+        case 'no-parking':
+          ctx.strokeStyle = '#f43f5e'; // Rose for No-parking / double-parking areas
+          ctx.lineWidth = 3;
+          ctx.setLineDash([4, 8]);
+          break;
+        case 'speed-zone':
+          ctx.strokeStyle = '#22c55e'; // Green for Speed control
+          ctx.lineWidth = 2;
+          ctx.setLineDash([2, 5]);
+          break;
+        case 'dashed':
+          ctx.strokeStyle = '#f59e0b'; // Amber for lane dividers
+          ctx.lineWidth = 2;
+          ctx.setLineDash([15, 10]);
+          break;
+        default: // divider
+          ctx.strokeStyle = '#06b6d4'; // Cyan for simple dividers
+          ctx.lineWidth = 2;
+          ctx.setLineDash([10, 5]);
+          break;
+      }
 
-    // --- YOLOv11 & ByteTrack Pipeline ---
-    let detections: any[] = [];
-    const runInference = frameCounterRef.current % yoloConfig.detectionSkip === 0;
+      ctx.globalAlpha = (line.type === 'solid' || line.type === 'stop') ? 0.8 : (line.label.startsWith('GRID_') || line.label.startsWith('PERSP_')) ? 0.15 : 0.5;
 
-    if (runInference) {
-      detections = await detectorRef.current.detect(v, yoloConfig.confThreshold);
-      if (poseEstimationEnabled && detectorRef.current.poseSession) {
-        lastPosesRef.current = await detectorRef.current.detectPose(v, 0.5);
-      } else {
-        lastPosesRef.current = [];
-      }
-    }
+      const isLegacyHorizontal = !line.points && line.x1 === undefined;
+      const vertices = zoneVertices(line).map(p => ({ x: oX + (p.x / 1000) * dW, y: oY + (p.y / 1000) * dH }));
 
-    // Update tracker configuration dynamically
-    if (trackerRef.current) {
-      trackerRef.current.highThresh = yoloConfig.highDetThreshold;
-      trackerRef.current.matchThresh = yoloConfig.matchIouThreshold;
-      trackerRef.current.trackBufferFrames = yoloConfig.trackBufferFrames;
+      if (isAreaZone(line)) {
+        // Polygon zone: translucent fill + outline
+        ctx.beginPath();
+        vertices.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        const outlineAlpha = ctx.globalAlpha;
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.globalAlpha = 0.12;
+        ctx.fill();
+        ctx.globalAlpha = outlineAlpha;
+        ctx.stroke();
+      } else if (!isLegacyHorizontal) {
+        // Angled segment or polyline
+        ctx.beginPath();
+        vertices.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+      } else {
+        // Standard horizontal line
+        ctx.beginPath();
+        ctx.moveTo(0, lineY);
+        ctx.lineTo(canvasWidth, lineY);
+        ctx.stroke();
 
-      // BoT-SORT specific configuration
-      if (trackerRef.current instanceof BoTSORT) {
-        trackerRef.current.appearanceWeight = yoloConfig.appearanceWeight;
+        // Line markers (ticks) - only for non-grid lines
+        if (!line.label.startsWith('GRID_') && !line.label.startsWith('PERSP_')) {
+          ctx.setLineDash([]);
+          ctx.lineWidth = 2;
+          for (let x = 0; x < canvasWidth; x += 120) {
+            ctx.beginPath();
+            ctx.moveTo(x, lineY - 6);
+            ctx.lineTo(x, lineY + 6);
+            ctx.stroke();
+          }
+        }
       }
-    }
 
-    let activeTracks: any[] = [];
-    if (runInference && detectorRef.current) {
-      // Pass video frame to BoT-SORT for appearance feature extraction
-      if (trackerRef.current instanceof BoTSORT) {
-        activeTracks = trackerRef.current.update(detections, v);
-      } else {
-        activeTracks = trackerRef.current.update(detections);
+      // Line label - only for important lines (not grid); polygons show how many vehicles are inside
+      if (!line.label.startsWith('GRID_') && !line.label.startsWith('PERSP_')) {
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.font = 'bold 10px monospace';
+        ctx.globalAlpha = 0.9;
+        const anchor = zoneAnchor(line);
+        const occupants = isAreaZone(line) ? zoneOccupancyRef.current.occupants(line.id || line.label).length : 0;
+        const arrow = line.direction === 'northbound' ? ' ▲' : line.direction === 'southbound' ? ' ▼' : '';
+        const inTramo = speedSections
+          .filter(section => section.entry === line.label)
+          .reduce((n, section) => n + sectionMonitorRef.current.inSection(section.id).length, 0);
+        const crossing = line.type === 'pedestrian' ? pedestrianMonitorRef.current.conflicts(line.id || line.label, Date.now()).length : 0;
+        const parked = line.type === 'loading-zone' || line.type === 'no-parking' ? parkingMonitorRef.current.parked(line.id || line.label).length : 0;
+        const text = (occupants > 0 ? `${line.label} [${occupants}]` : line.label) + arrow + (inTramo > 0 ? ` ⏱${inTramo}` : '')
+          + (crossing > 0 ? ` 🚶${crossing}` : '') + (parked > 0 ? ` 🅿${parked}` : '');
+        if (isLegacyHorizontal) {
+          ctx.fillText(text, 15, lineY - 12);
+        } else {
+          ctx.fillText(text, oX + (anchor.x / 1000) * dW + 6, oY + (anchor.y / 1000) * dH - 8);
+        }
       }
+    });
+  };
 
-      // Sync visual tracks with tracker output
-      const newVisualTracks: Track[] = [];
-      const matchedIds = new Set<number>();
+  // === Manual Zone Editor (overlay canvas in manual mode) ===
+  const EDITOR_HANDLE_RADIUS = 15; // 0-1000 units
+  const EDITOR_SNAP = { grid: 25, vertexRadius: 12 };
 
-      activeTracks.forEach(t => {
-        matchedIds.add(t.trackId);
-        let vt = tracksRef.current.find(existing => existing.id === t.trackId);
+  const editorPoint = (e: React.PointerEvent<HTMLCanvasElement> | React.MouseEvent<HTMLCanvasElement>): Vec2 => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { oX, oY, dW, dH } = viewportRef.current;
+    return {
+      x: ((e.clientX - rect.left - oX) / dW) * 1000,
+      y: ((e.clientY - rect.top - oY) / dH) * 1000
+    };
+  };
 
-        // === CRITICAL FIX: Convert pixel coordinates to normalized 0-1000 space ===
-        // YOLO bbox is in video pixel coordinates
-        // UI rendering expects normalized 0-1000 coordinates
-        const videoW = v.videoWidth || 1280;
-        const videoH = v.videoHeight || 720;
+  const snapEditorPoint = (p: Vec2, shiftKey: boolean, anchor?: Vec2, exclude?: number) => {
+    if (!snapEnabled) return { x: Math.round(p.x), y: Math.round(p.y) };
+    const others = exclude === undefined ? detectionLines : detectionLines.filter((_, i) => i !== exclude);
+    return snapPoint(p, others, { ...EDITOR_SNAP, anchor, angleStep: shiftKey && anchor ? 15 : undefined });
+  };
 
-        const cx_normalized = (t.bbox[0] + t.bbox[2] / 2) / videoW * 1000;
-        const cy_normalized = (t.bbox[1] + t.bbox[3] / 2) / videoH * 1000;
-        const w_normalized = (t.bbox[2] / videoW) * 1000;
-        const h_normalized = (t.bbox[3] / videoH) * 1000;
+  const commitLines = (next: DetectionLine[]) => {
+    editHistoryRef.current.record(detectionLines);
+    setDetectionLines(next);
+  };
 
-        if (!vt) {
-          // New Visual Track
-          vt = {
-            id: t.trackId,
-            label: t.className,
-            points: [],
-            lastSeen: now,
-            lastSnapshotTime: 0,
-            color: VEHICLE_COLORS[t.className] || '#fff',
-            snapshots: [],
-            velocity: 0,
-            age: t.age,
-            analyzed: false,
-            vx: 0, vy: 0,
-            predictedX: cx_normalized,
-            predictedY: cy_normalized,
-            confidence: t.score,
-            missedFrames: 0,
-            w: w_normalized,
+  const updateSelectedZone = (patch: Partial<DetectionLine>) => {
+    if (selectedZone === null) return;
+    setDetectionLines(prev => prev.map((l, i) => i === selectedZone ? { ...l, ...patch, edited: true } : l));
+  };
+
+  const deleteZone = (index: number) => {
+    commitLines(detectionLines.filter((_, i) => i !== index));
+    setSelectedZone(null);
+  };
+
+  const finishDraft = () => {
+    const editor = editorRef.current;
+    // Double clicks place the same vertex twice
+    const points = editor.draft.filter((p, i, a) => i === 0 || Math.hypot(p.x - a[i - 1].x, p.y - a[i - 1].y) > 2);
+    editor.draft = [];
+    const isPolygon = editorTool === 'polygon';
+    if (points.length < (isPolygon ? 3 : 2)) return;
+
+    const zone: DetectionLine = {
+      y: points[0].y,
+      shape: isPolygon ? 'polygon' : points.length > 2 ? 'polyline' : 'segment',
+      points,
+      type: manualLineType,
+      direction: 'bidirectional',
+      label: `MANUAL ${detectionLines.length + 1}`,
+      infractionType: null,
+      origin: { kind: 'editor', key: Date.now().toString(36) }
+    };
+    commitLines([...detectionLines, zone]);
+    setSelectedZone(detectionLines.length);
+  };
+
+  const undoEdit = () => {
+    const prev = editHistoryRef.current.undo(detectionLines);
+    if (prev) {
+      setDetectionLines(prev);
+      setSelectedZone(null);
+    }
+  };
+
+  const redoEdit = () => {
+    const next = editHistoryRef.current.redo(detectionLines);
+    if (next) {
+      setDetectionLines(next);
+      setSelectedZone(null);
+    }
+  };
+
+  // Persist drawn and edited zones as [LINE]/[PATH]/[ZONE] directives: a zone parsed from a
+  // directive is rewritten in place. Preset and AUTO lines have no directive of their own:
+  // their edits stay as overrides in zoneEdits (grid lines are regenerated anyway)
+  const writeEditorToDirectives = () => {
+    const presetLines = combinedLinesForSync(selectedConfigs);
+    const { text, written } = writeZonesToDirectives(directives, parseDirectivesToLines(directives, presetLines), detectionLines);
+    const overrides: ZoneEdits<DetectionLine> = {
+      changed: zoneEdits.changed.filter(z => z.origin?.kind === 'preset' || z.origin?.kind === 'synthesized'),
+      removed: zoneEdits.removed.filter(k => k.startsWith('preset:') || k.startsWith('synthesized:'))
+    };
+    setDirectives(text);
+    setZoneEdits(overrides);
+    // Re-tag the editor's zones with the directives they now come from
+    const grid = detectionLines.filter(l => l.label.startsWith('GRID_') || l.label.startsWith('PERSP_'));
+    setDetectionLines([...applyZoneEdits(parseDirectivesToLines(text, presetLines), overrides), ...grid]);
+    editHistoryRef.current = new EditHistory(); // Earlier states refer to the replaced directives
+    setSelectedZone(null);
+    const kept = overrides.changed.length + overrides.removed.length;
+    setAiFeedback(`EDITOR: ${written} ZONAS VOLCADAS A DIRECTIVAS${kept > 0 ? ` · ${kept} AJUSTES DE PRESET CONSERVADOS` : ''}`);
+    setTimeout(() => setAiFeedback(null), 3000);
+  };
+
+  // === Ground Calibration Mode ===
+  // Four clicks around a road rectangle: P1-P2 across the lane, P2-P3 along a dash, then P4
+  const addCalibrationPoint = (p: Vec2) => {
+    const points = [...calibrationDraft, { x: Math.round(p.x * 10) / 10, y: Math.round(p.y * 10) / 10 }];
+    if (points.length < 4) {
+      setCalibrationDraft(points);
+      return;
+    }
+    setCalibrationDraft([]);
+    const result = calibrateRectangle(points, calibrationSize.width, calibrationSize.length);
+    if (!result) {
+      setAiFeedback('CALIBRACIÓN: PUNTOS NO VÁLIDOS (RECORRER EL RECTÁNGULO EN ORDEN)');
+    } else {
+      calibrationStoreRef.current.set(activeCalibrationKey, result);
+      setCalibration(result);
+      setIsCalibrating(false);
+      setAiFeedback(`CALIBRACIÓN GUARDADA: ${result.widthMeters}×${result.lengthMeters} M`);
+    }
+    setTimeout(() => setAiFeedback(null), 3000);
+  };
+
+  const clearCalibration = () => {
+    calibrationStoreRef.current.remove(activeCalibrationKey);
+    setCalibration(null);
+    setCalibrationDraft([]);
+  };
+
+  // === Traffic-Light ROI Marking ===
+  // Two clicks: opposite corners of the lamp housing
+  const addLightCorner = (p: Vec2) => {
+    const points = [...lightDraft, p];
+    if (points.length < 2) {
+      setLightDraft(points);
+      return;
+    }
+    setLightDraft([]);
+    setIsMarkingLight(false);
+    const [a, b] = points;
+    addLightRoi({ x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), w: Math.abs(b.x - a.x), h: Math.abs(b.y - a.y) });
+  };
+
+  const addLightRoi = (rect: { x: number; y: number; w: number; h: number }) => {
+    if (rect.w < 2 || rect.h < 2) {
+      setAiFeedback('SEMÁFORO: REGIÓN DEMASIADO PEQUEÑA');
+    } else {
+      const directive = serializeLight({ ...rect, label: `SEMÁFORO ${lightRois.length + 1}`, stopLine: lightStopLine || null });
+      setDirectives(prev => `${prev.trimEnd()}\n${directive}`);
+      setAiFeedback(`SEMÁFORO ${lightRois.length + 1} AÑADIDO A DIRECTIVAS`);
+    }
+    setTimeout(() => setAiFeedback(null), 3000);
+  };
+
+  const drawTrafficLights = (ctx: CanvasRenderingContext2D, oX: number, oY: number, dW: number, dH: number) => {
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+    ctx.font = 'bold 10px monospace';
+    ctx.lineWidth = 2;
+    lightRois.forEach(roi => {
+      const state = lightTimelinesRef.current.get(roi.directive)?.current || 'unknown';
+      const x = oX + (roi.x / 1000) * dW;
+      const y = oY + (roi.y / 1000) * dH;
+      ctx.strokeStyle = LIGHT_COLORS[state];
+      ctx.fillStyle = LIGHT_COLORS[state];
+      ctx.strokeRect(x, y, (roi.w / 1000) * dW, (roi.h / 1000) * dH);
+      ctx.fillText(`${roi.label} ${state === 'unknown' ? '?' : state.toUpperCase()}`, x, y - 4);
+    });
+    if (lightDraft.length > 0) {
+      const p = lightDraft[0];
+      ctx.fillStyle = '#f59e0b';
+      ctx.beginPath();
+      ctx.arc(oX + (p.x / 1000) * dW, oY + (p.y / 1000) * dH, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+    ctx.restore();
+  };
+
+  const handleEditorPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isCalibrating) {
+      addCalibrationPoint(editorPoint(e));
+      return;
+    }
+    if (isMarkingLight) {
+      addLightCorner(editorPoint(e));
+      return;
+    }
+    if (!isManualMode) return;
+    const raw = editorPoint(e);
+    const editor = editorRef.current;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (editorTool === 'select') {
+      // Vertex handle first, then the zone body (drag moves the whole zone)
+      const handle = hitTestHandle(detectionLines, raw, EDITOR_HANDLE_RADIUS);
+      const zone = handle ? handle.zone : hitTestZone(detectionLines, raw, 10);
+      setSelectedZone(zone >= 0 ? zone : null);
+      if (zone >= 0) editor.drag = { zone, vertex: handle?.vertex, start: raw, origin: detectionLines[zone], before: detectionLines };
+      return;
+    }
+
+    const anchor = editor.draft[editor.draft.length - 1];
+    const p = snapEditorPoint(raw, e.shiftKey, anchor);
+    if (editorTool === 'segment') {
+      editor.draft = [p, p];
+      return;
+    }
+
+    // Polyline / polygon: one vertex per click; clicking the first vertex closes a polygon
+    const first = editor.draft[0];
+    if (editorTool === 'polygon' && first && editor.draft.length >= 3 && Math.hypot(p.x - first.x, p.y - first.y) < EDITOR_HANDLE_RADIUS) {
+      finishDraft();
+      return;
+    }
+    editor.draft = [...editor.draft, p];
+  };
+
+  const handleEditorPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isManualMode) return;
+    const raw = editorPoint(e);
+    const editor = editorRef.current;
+    editor.hover = raw;
+
+    const drag = editor.drag;
+    if (drag) {
+      // A plain click only selects: the history entry waits for the zone to actually move
+      if (drag.before) {
+        if (raw.x === drag.start.x && raw.y === drag.start.y) return;
+        editHistoryRef.current.record(drag.before);
+        drag.before = null;
+      }
+      const next = drag.vertex !== undefined
+        ? moveVertex(drag.origin, drag.vertex, snapEditorPoint(raw, e.shiftKey, undefined, drag.zone))
+        : translateZone(drag.origin, raw.x - drag.start.x, raw.y - drag.start.y);
+      setDetectionLines(prev => prev.map((l, i) => i === drag.zone ? { ...next, edited: true } : l));
+    } else if (editorTool === 'segment' && editor.draft.length === 2) {
+      editor.draft[1] = snapEditorPoint(raw, e.shiftKey, editor.draft[0]);
+    }
+  };
+
+  const handleEditorPointerUp = () => {
+    const editor = editorRef.current;
+    if (editor.drag) {
+      editor.drag = null;
+      return;
+    }
+    if (editorTool === 'segment' && editor.draft.length === 2) {
+      const [a, b] = editor.draft;
+      if (Math.hypot(b.x - a.x, b.y - a.y) > 15) {
+        finishDraft();
+      } else {
+        editor.draft = [];
+      }
+    }
+  };
+
+  // Keyboard: Enter closes a polyline/polygon, Esc cancels, Supr deletes, Ctrl+Z / Ctrl+Y undo / redo
+  useEffect(() => {
+    if (!isManualMode) return;
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      const key = e.key.toLowerCase();
+
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redoEdit();
+        } else {
+          undoEdit();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        redoEdit();
+      } else if (key === 'enter') {
+        finishDraft();
+      } else if (key === 'escape') {
+        editorRef.current.draft = [];
+        setSelectedZone(null);
+      } else if ((key === 'delete' || key === 'backspace') && selectedZone !== null) {
+        deleteZone(selectedZone);
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // Handles, selection highlight and the shape being drawn
+  const drawEditorOverlay = (ctx: CanvasRenderingContext2D, lines: DetectionLine[], oX: number, oY: number, dW: number, dH: number) => {
+    const toCanvas = (p: Vec2) => ({ x: oX + (p.x / 1000) * dW, y: oY + (p.y / 1000) * dH });
+    const editor = editorRef.current;
+
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+    lines.forEach((line, i) => {
+      if (line.label.startsWith('GRID_') || line.label.startsWith('PERSP_')) return;
+      const vertices = zoneVertices(line).map(toCanvas);
+      const isSelected = i === selectedZone;
+
+      if (isSelected) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([6, 4]);
+        ctx.beginPath();
+        vertices.forEach((p, vi) => vi === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        if (isAreaZone(line)) ctx.closePath();
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+
+      vertices.forEach(p => {
+        ctx.fillStyle = isSelected ? '#ffffff' : 'rgba(34, 211, 238, 0.9)';
+        ctx.strokeStyle = '#020617';
+        ctx.lineWidth = 1;
+        ctx.fillRect(p.x - 4, p.y - 4, 8, 8);
+        ctx.strokeRect(p.x - 4, p.y - 4, 8, 8);
+      });
+    });
+
+    // Draft preview (rubber band to the pointer)
+    if (editor.draft.length > 0) {
+      const preview = editorTool === 'segment' || !editor.hover ? editor.draft : [...editor.draft, editor.hover];
+      const points = preview.map(toCanvas);
+      ctx.strokeStyle = '#22d3ee';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      if (editorTool === 'polygon' && points.length > 2) ctx.closePath();
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#22d3ee';
+      points.forEach(p => ctx.fillRect(p.x - 3, p.y - 3, 6, 6));
+    }
+    ctx.restore();
+  };
+
+  // Clicked calibration points, or the stored rectangle repeated along the lane (it should sit on the markings)
+  const drawCalibration = (ctx: CanvasRenderingContext2D, oX: number, oY: number, dW: number, dH: number) => {
+    const toCanvas = (p: Vec2) => ({ x: oX + (p.x / 1000) * dW, y: oY + (p.y / 1000) * dH });
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+    ctx.font = 'bold 10px monospace';
+
+    if (calibrationDraft.length > 0 || !calibration) {
+      const points = calibrationDraft.map(toCanvas);
+      ctx.strokeStyle = '#a855f7';
+      ctx.fillStyle = '#a855f7';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.stroke();
+      points.forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 4, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.fillText(`P${i + 1}`, p.x + 6, p.y - 6);
+      });
+    } else {
+      const { widthMeters: W, lengthMeters: L, groundToImage, imagePoints } = calibration;
+      const segment = (a: Vec2, b: Vec2) => {
+        const pa = applyHomography(groundToImage, a);
+        const pb = applyHomography(groundToImage, b);
+        if (!pa || !pb) return;
+        const ca = toCanvas(pa);
+        const cb = toCanvas(pb);
+        ctx.beginPath();
+        ctx.moveTo(ca.x, ca.y);
+        ctx.lineTo(cb.x, cb.y);
+        ctx.stroke();
+      };
+      ctx.strokeStyle = 'rgba(168, 85, 247, 0.5)';
+      ctx.lineWidth = 1;
+      for (let k = -1; k <= 5; k++) segment({ x: 0, y: k * L }, { x: W, y: k * L });
+      segment({ x: 0, y: -L }, { x: 0, y: 5 * L });
+      segment({ x: W, y: -L }, { x: W, y: 5 * L });
+
+      const quad = imagePoints.map(toCanvas);
+      ctx.strokeStyle = '#a855f7';
+      ctx.fillStyle = '#a855f7';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      quad.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.stroke();
+      ctx.fillText(`${W}×${L} M`, quad[0].x + 6, quad[0].y + 14);
+    }
+    ctx.restore();
+  };
+
+  const processFrame = useCallback(async () => {
+    if (!videoRef.current || !canvasRef.current || !detectorRef.current || !trackerRef.current) return;
+    const v = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || v.readyState < 2) return;
+
+    const now = Date.now();
+    const delta = now - lastFrameTime.current;
+    const deltaSeconds = delta / 1000;
+    if (delta > 0) {
+      const currentFps = Math.round(1000 / delta);
+      setFps(currentFps);
+      fpsRef.current = currentFps;
+    }
+    lastFrameTime.current = now;
+
+    canvas.width = canvas.parentElement?.clientWidth || 0;
+    canvas.height = canvas.parentElement?.clientHeight || 0;
+    const scale = Math.min(canvas.width / v.videoWidth, canvas.height / v.videoHeight);
+    const dW = v.videoWidth * scale;
+    const dH = v.videoHeight * scale;
+    const oX = (canvas.width - dW) / 2;
+    const oY = (canvas.height - dH) / 2;
+
+    viewportRef.current = { oX, oY, dW, dH };
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!isPlaying) {
+      // Paused: the zone editor and the calibration keep working on the still frame
+      if (isManualMode) {
+        drawZones(ctx, detectionLines, oX, oY, dW, dH, canvas.width);
+        drawEditorOverlay(ctx, detectionLines, oX, oY, dW, dH);
+      }
+      if (isCalibrating) drawCalibration(ctx, oX, oY, dW, dH);
+      if (isMarkingLight || lightRois.length > 0) drawTrafficLights(ctx, oX, oY, dW, dH);
+      return;
+    }
+
+    frameCounterRef.current++;
+    const capture = frameCaptureRef.current;
+    capture.begin(v);
+
+    // Recording clock of a media time: the file's own clock, else counted back from the live frame
+    const recordingTime = (t: number) => source === 'upload' && recordingStart !== null
+      ? recordingStart + t * 1000
+      : now - Math.max(0, capture.mediaTime - t) * 1000;
+
+    // Traffic lights: classify every ROI on every tick, timed with the frame's media time
+    const timelines = lightTimelinesRef.current;
+    lightRois.forEach(roi => {
+      const region: [number, number, number, number] = [roi.x / 1000 * v.videoWidth, roi.y / 1000 * v.videoHeight, roi.w / 1000 * v.videoWidth, roi.h / 1000 * v.videoHeight];
+      const pixels = timeStage(capture.timings, 'lights', () => capture.regionData(region, 16, 32));
+      if (!pixels) return;
+      let timeline = timelines.get(roi.directive);
+      if (!timeline) {
+        timeline = new LightTimeline();
+        timelines.set(roi.directive, timeline);
+      }
+      timeline.update(classifyLight(pixels).state, capture.mediaTime, now);
+    });
+    timelines.forEach((_, key) => {
+      if (!lightRois.some(roi => roi.directive === key)) timelines.delete(key);
+    });
+
+    // --- YOLOv11 & ByteTrack Pipeline ---
+    // Submit every N frames to the inference worker (never awaited: the HUD keeps display rate)
+    if (frameCounterRef.current % yoloConfig.detectionSkip === 0) {
+      detectorRef.current.submit(capture, {
+        confThreshold: yoloConfig.confThreshold,
+        pose: poseEstimationEnabled,
+        poseThreshold: 0.5,
+        appearance: yoloConfig.trackerType === 'BoT-SORT',
+        cameraMotion: yoloConfig.trackerType === 'BoT-SORT' && yoloConfig.cameraMotionCompensation,
+        keepFrame: anprReady // Plates are cropped from the frame the boxes were detected on
+      });
+    }
+
+    // Tracker only advances when the worker has delivered a fresh result
+    let detections: any[] = [];
+    const inference = detectorRef.current.takeResult();
+    const runInference = inference !== null;
+
+    if (inference) {
+      detections = inference.detections;
+      lastPosesRef.current = inference.poses;
+    }
+
+    // Update tracker configuration dynamically
+    if (trackerRef.current) {
+      trackerRef.current.highThresh = yoloConfig.highDetThreshold;
+      trackerRef.current.matchThresh = yoloConfig.matchIouThreshold;
+      trackerRef.current.trackBufferFrames = yoloConfig.trackBufferFrames;
+      trackerRef.current.matchMethod = yoloConfig.matchingAlgorithm;
+      trackerRef.current.mahalanobisGating = yoloConfig.mahalanobisGating;
+      trackerRef.current.minHits = yoloConfig.minHitsToConfirm;
+
+      // BoT-SORT specific configuration
+      if (trackerRef.current instanceof BoTSORT) {
+        trackerRef.current.appearanceWeight = yoloConfig.appearanceWeight;
+        trackerRef.current.cameraMotionCompensation = yoloConfig.cameraMotionCompensation;
+      }
+    }
+    stopMonitorRef.current.policy = { ...stopMonitorRef.current.policy, ...stopPolicy };
+
+    let activeTracks: any[] = [];
+    if (runInference && detectorRef.current) {
+      // BoT-SORT: appearance features and camera motion computed by the worker on the detection frame
+      const tracker = trackerRef.current;
+      activeTracks = timeStage(capture.timings, 'tracker', () => tracker instanceof BoTSORT
+        ? tracker.update(detections, capture, inference?.appearances, inference?.affine)
+        : tracker.update(detections));
+
+      // Sync visual tracks with tracker output
+      const newVisualTracks: Track[] = [];
+      const matchedIds = new Set<number>();
+      const plateCandidates: { track: Track; bbox: [number, number, number, number] }[] = [];
+
+      activeTracks.forEach(t => {
+        matchedIds.add(t.trackId);
+        let vt = tracksRef.current.find(existing => existing.id === t.trackId);
+
+        // === CRITICAL FIX: Convert pixel coordinates to normalized 0-1000 space ===
+        // YOLO bbox is in video pixel coordinates
+        // UI rendering expects normalized 0-1000 coordinates
+        const videoW = v.videoWidth || 1280;
+        const videoH = v.videoHeight || 720;
+
+        const cx_normalized = (t.bbox[0] + t.bbox[2] / 2) / videoW * 1000;
+        const cy_normalized = (t.bbox[1] + t.bbox[3] / 2) / videoH * 1000;
+        const w_normalized = (t.bbox[2] / videoW) * 1000;
+        const h_normalized = (t.bbox[3] / videoH) * 1000;
+
+        if (!vt) {
+          // New Visual Track
+          vt = {
+            id: t.trackId,
+            label: t.className,
+            points: [],
+            lastSeen: now,
+            lastSnapshotTime: 0,
+            color: VEHICLE_COLORS[t.className] || '#fff',
+            snapshots: [],
+            velocity: 0,
+            age: t.age,
+            analyzed: false,
+            vx: 0, vy: 0,
+            predictedX: cx_normalized,
+            predictedY: cy_normalized,
+            confidence: t.score,
+            missedFrames: 0,
+            w: w_normalized,
             h: h_normalized,
             // Initialize visual state
             renderX: cx_normalized,
             renderY: cy_normalized,
             renderW: w_normalized,
             renderH: h_normalized,
-            isInfractor: false
+            isInfractor: false,
+            trackState: t.trackState
           };
         }
 
@@ -1414,19 +2550,111 @@ const App = () => {
         vt.renderH = vt.renderH * alpha + h_normalized * (1 - alpha);
 
         vt.lastSeen = now;
-        vt.points.push({ x: cx_normalized, y: cy_normalized, time: now });
+        // Ground contact (bottom-center of the box) projected onto the calibrated road plane
+        const ground = calibration ? toGround(calibration, { x: cx_normalized, y: cy_normalized + h_normalized / 2 }) : null;
+        vt.points.push({ x: cx_normalized, y: cy_normalized, time: now, mediaTime: inference.mediaTime, ground });
         vt.w = w_normalized;
         vt.h = h_normalized;
         vt.confidence = t.score;
         vt.age = t.age;
+        vt.trackState = t.trackState;
 
-        // Calculate velocity from track history
+        // Unique Counting Logic: each tracker ID counts once, when first confirmed
+        if (t.trackState === 'confirmed' && !processedIdsRef.current.has(vt.id)) {
+          processedIdsRef.current.add(vt.id);
+          setCumulativeDetections(prev => prev + 1);
+        }
+
+        // Class comes from the tracker's majority vote and may settle after a few frames
+        if (vt.label !== t.className) {
+          vt.label = t.className;
+          vt.color = VEHICLE_COLORS[t.className] || '#fff';
+        }
+
+        // Screen-space motion (extrapolation on skipped frames)
         if (vt.points.length > 1) {
           const p1 = vt.points[vt.points.length - 1];
           const p2 = vt.points[vt.points.length - 2];
           vt.vx = p1.x - p2.x;
           vt.vy = p1.y - p2.y;
-          vt.velocity = Math.sqrt(vt.vx * vt.vx + vt.vy * vt.vy);
+        }
+
+        // Kinematics: robust regression of measured ground points against video media time
+        if (calibration) {
+          const samples = vt.points
+            .filter(p => p.ground && p.mediaTime !== undefined)
+            .map(p => ({ t: p.mediaTime!, position: p.ground! }));
+          vt.kinematics = estimateKinematics(samples);
+          if (vt.kinematics) vt.velocity = vt.kinematics.speed;
+        } else {
+          vt.kinematics = null;
+          vt.velocity = 0;
+        }
+
+        // STOP approach: measured ground positions near each stop line
+        if (calibration && ground) {
+          detectionLines.forEach(line => {
+            if (line.type !== 'stop' || isAreaZone(line) || lightsForLine(lightRois, line.label).length > 0) return;
+            const distance = groundDistanceToLine(calibration, ground, line);
+            if (distance !== null) {
+              stopMonitorRef.current.observe(line.id || line.label, vt!.id, { t: inference.mediaTime, position: ground }, distance);
+            }
+          });
+        }
+
+        // Tramo control: entry / exit crossings between the last two measured points
+        if (speedSections.length > 0) {
+          let prev: Point | undefined;
+          for (let i = vt.points.length - 2; i >= 0 && !prev; i--) {
+            if (vt.points[i].mediaTime !== undefined) prev = vt.points[i];
+          }
+          if (prev) {
+            const [bx, by, bw, bh] = t.bbox;
+            const passages = sectionMonitorRef.current.observe(
+              speedSections, detectionLines, { id: vt.id, vehicleClass: vt.label },
+              { x: prev.x, y: prev.y, t: prev.mediaTime! },
+              { x: cx_normalized, y: cy_normalized, t: inference.mediaTime },
+              now,
+              () => capture.crop([bx, by, bw, bh], 400, 300)
+            );
+            const sectionTrack = vt;
+            passages.forEach(passage => reportSectionPassage(sectionTrack, passage));
+          }
+        }
+
+        // Parking dwell: stationary vehicles inside loading / no-parking polygons, limit by time of day
+        if (vt.label !== 'person' && t.trackState === 'confirmed') {
+          const footPoint = { x: cx_normalized, y: cy_normalized + h_normalized / 2 };
+          detectionLines.forEach(line => {
+            if ((line.type !== 'loading-zone' && line.type !== 'no-parking') || !isAreaZone(line)) return;
+            const zoneId = line.id || line.label;
+            if (!zoneContains(line, footPoint)) {
+              parkingMonitorRef.current.leave(zoneId, vt!.id, footPoint, ground);
+              return;
+            }
+            const [bx, by, bw, bh] = t.bbox;
+            const violation = parkingMonitorRef.current.observe(
+              zoneId, { label: line.label, type: line.type }, vt!.id, footPoint, ground,
+              { t: inference.mediaTime, wall: recordingTime(inference.mediaTime) },
+              allowedMinutes(parkingRules, line.label, line.type, new Date(recordingTime(inference.mediaTime))),
+              () => capture.crop([bx, by, bw, bh], 400, 300)
+            );
+            if (violation) reportParking(vt!, violation);
+          });
+        }
+
+        // Pedestrian priority: confirmed people located by their feet (pose ankles, else box bottom)
+        if (vt.label === 'person' && t.trackState === 'confirmed') {
+          const crosswalks = detectionLines.filter(line => line.type === 'pedestrian');
+          if (crosswalks.length > 0) {
+            const foot = pedestrianFoot(t.bbox, inference.poses, videoW, videoH);
+            pedestrianMonitorRef.current.observe(crosswalks, vt.id, foot, now, calibration);
+          }
+        }
+
+        // ANPR: confirmed vehicles without a confirmed plate, big enough to read
+        if (anprReady && PLATE_CLASSES.has(vt.label) && t.trackState === 'confirmed' && t.bbox[2] >= 80 && plateVoterRef.current.wants(vt.id, now)) {
+          plateCandidates.push({ track: vt, bbox: t.bbox });
         }
 
         // History clamp
@@ -1436,6 +2664,36 @@ const App = () => {
       });
 
       tracksRef.current = newVisualTracks;
+
+      // One plate read per result: infractors first, then the largest (closest) vehicles.
+      // Boxes belong to the analyzed frame, not the current one, so the crop is taken from it.
+      const frame = inference?.frame;
+      if (plateCandidates.length > 0 && !anprBusyRef.current && frame) {
+        const { track: plateTrack, bbox } = plateCandidates.sort((a, b) =>
+          Number(!!b.track.isInfractor) - Number(!!a.track.isInfractor) || b.bbox[2] * b.bbox[3] - a.bbox[2] * a.bbox[3])[0];
+        const trackId = plateTrack.id;
+        anprBusyRef.current = true;
+        plateVoterRef.current.attempt(trackId, now);
+        plateRecognizerRef.current.read(frame, bbox)
+          .then(detection => {
+            if (!detection) return;
+            const plate = plateVoterRef.current.add(trackId, detection.reading, detection.snapshot);
+            const live = tracksRef.current.find(t => t.id === trackId);
+            if (plate && live) {
+              if (plate.confirmed && !live.plateReading?.confirmed) {
+                vehicleRegistryRef.current.recordSighting(plate.text, { at: Date.now(), location: registryLocationRef.current });
+              }
+              live.plateReading = plate;
+              if (plate.confirmed) {
+                live.plate = formatPlate(plate.text);
+                resolvePendingPlates(trackId, live.plate, plate);
+              }
+            }
+          })
+          .catch(e => console.warn("ANPR read failed:", e))
+          .finally(() => { anprBusyRef.current = false; });
+      }
+      frame?.close(); // read() has already copied the vehicle crop
     } else {
       // Smooth interpolation on skipped frames using Kalman-predicted velocity
       tracksRef.current.forEach(t => {
@@ -1450,37 +2708,13 @@ const App = () => {
           if (t.points.length > 50) t.points.shift();
         }
 
-        // 2. Advanced Velocity Calculation (3-METER LANE CALIBRATION)
-        // Perspective Model: 3m = ~150px at bottom (y=1000) -> ~40px at horizon (y=300)
+        // 2. Velocity guide (ground speed only changes on measured frames)
         if (t.points.length > 2) {
           const p1 = t.points[t.points.length - 1];
           const p2 = t.points[t.points.length - 3]; // Use wider delta for stability
-
-          // Perspective Calibration Function
-          // Linear interpolation of Pixels-Per-Meter based on Y position
-          const yFactor = Math.max(0, Math.min(1, (t.renderY - 300) / 700)); // 0 at horizon, 1 at bottom
-          const pixelsPerMeter = 40 + (yFactor * 110); // 40px/m to 150px/m range
-
-          const dx = p1.x - p2.x;
-          const dy = p1.y - p2.y;
-          const distPx = Math.sqrt(dx * dx + dy * dy);
-
-          // Speed in m/s -> km/h
-          const currentSpeed = (distPx / pixelsPerMeter) * (fpsRef.current / 2) * 3.6;
-
-          // Smooth speed adjustment (remove spikes)
-          t.velocity = (t.velocity || currentSpeed) * 0.8 + currentSpeed * 0.2;
-
-          // Update Kalman-like velocity guide
           t.vx = (p1.x - p2.x) / 2;
           t.vy = (p1.y - p2.y) / 2;
         }
-
-        // 3. Unique Counting Logic
-        if (!processedIdsRef.current.has(t.id) && t.age > 10 && t.confidence > 0.4) {
-          processedIdsRef.current.add(t.id);
-          setCumulativeDetections(prev => prev + 1);
-        }
       });
     }
 
@@ -1488,8 +2722,8 @@ const App = () => {
 
     // STEP 4: Render all tracks with premium forensic styling
     tracksRef.current.forEach(track => {
-      // NOISE FILTER: Only draw tracks that are stable and confirmed
-      if (track.points.length === 0 || track.age < 4 || track.confidence < 0.25) return;
+      // NOISE FILTER: Only draw tracks the tracker has confirmed (minHitsToConfirm)
+      if (track.points.length === 0 || track.trackState !== 'confirmed' || track.confidence < 0.25) return;
 
       const lastP = track.points[track.points.length - 1];
 
@@ -1508,9 +2742,10 @@ const App = () => {
       const bW = (lw / 1000) * dW;
       const bH = (lh / 1000) * dH;
 
-      // Calculate speed
-      const metersMovedPerFrame = track.velocity / PIXELS_PER_METER;
-      const speedKmh = Math.floor(metersMovedPerFrame * fpsRef.current * 3.6);
+      // Ground speed ± 1σ (uncalibrated cameras show S/CAL instead of a guess)
+      const speedLabel = !calibration ? 'S/CAL'
+        : track.kinematics ? `${Math.floor(track.kinematics.speed * 3.6)}±${Math.ceil(track.kinematics.speedSigma * 3.6)} KM/H`
+          : '-- KM/H';
 
       // STABLE OPACITY: High minimum with hysteresis to prevent flicker
       let opacity = track.confidence;
@@ -1582,7 +2817,7 @@ const App = () => {
         // Label Text
         ctx.fillStyle = '#ffffff';
         ctx.font = 'bold 11px monospace';
-        ctx.fillText(`⚠ INFRACCIÓN | ${track.plate || 'ANALYZING'} | ${speedKmh} KM/H`, cpX + 5, cpY - 7);
+        ctx.fillText(`⚠ INFRACCIÓN | ${track.plate || 'ANALYZING'} | ${speedLabel}`, cpX + 5, cpY - 7);
 
       } else {
         // NORMAL VEHICLE RENDERING: Clean professional style
@@ -1597,155 +2832,152 @@ const App = () => {
         // Label Text
         ctx.fillStyle = '#000';
         ctx.font = 'bold 10px monospace';
-        ctx.fillText(`${(track.subType || track.label).toUpperCase()} | ${speedKmh} KM/H`, cpX + 5, cpY - 7);
+        ctx.fillText(`${(track.subType || track.label).toUpperCase()} | ${speedLabel}`, cpX + 5, cpY - 7);
       }
 
       ctx.globalAlpha = 1.0;
 
-      // === LINE CROSSING DETECTION (Infraction Trigger) ===
-      // Check if track crossed any detection line
+      // === ZONE EVENTS (Infraction Trigger) ===
+      // Lines / polylines: the center path p1 -> p2 intersects one of their segments; the crossing
+      // direction is the sign of the movement along the segment's north-pointing normal.
+      // Polygons: the ground point (bottom-center of the box) enters the area; dwell is tracked while
+      // inside and the direction is the heading over the last few points.
       if (track.points.length >= 2) {
         const p1 = track.points[track.points.length - 2]; // Previous position
         const p2 = track.points[track.points.length - 1]; // Current position
+        const headingFrom = track.points[Math.max(0, track.points.length - 6)];
+        const foot = { x: track.renderX, y: track.renderY + track.renderH / 2 };
+        const occupancy = zoneOccupancyRef.current;
+        const zoneDwell: Record<string, number> = {};
+        const measured = track.points.filter(p => p.mediaTime !== undefined); // Detections only
 
         detectionLines.forEach(line => {
-          // Check if trajectory crossed the line (Y coordinate comparison in 0-1000 space)
-          const crossedLine = (p1.y < line.y && p2.y >= line.y) || (p1.y > line.y && p2.y <= line.y);
-
-          if (crossedLine && !track.isInfractor) {
-            // Determine infraction type based on line type
-            const infractionTypes = {
-              'solid': 'CRUCE_LINEA_CONTINUA',
-              'stop': 'NO_DETENCION_STOP',
-              'pedestrian': 'INVASION_PASO_PEATONES',
-              'bus-lane': 'CIRCULACION_CARRIL_BUS',
-              'loading-zone': 'ESTACIONAMIENTO_ZONA_CARGA',
-              'speed-zone': 'EXCESO_VELOCIDAD'
-            };
-
-            const infractionType = infractionTypes[line.type] || 'INFRACCION_GENERICA';
-
-            console.log(`🚨 INFRACCIÓN DETECTADA: Track ${track.id} cruzó línea "${line.label}" (${infractionType})`);
+          const zoneId = line.id || line.label;
+          let crossingDirection: CrossingDirection | null = null;
+          if (isAreaZone(line)) {
+            const wasInside = occupancy.isInside(zoneId, track.id);
+            const inside = zoneContains(line, foot);
+            const dwellMs = occupancy.update(zoneId, track.id, inside, now);
+            if (inside) zoneDwell[zoneId] = dwellMs;
+            if (inside && !wasInside) crossingDirection = headingDirection(headingFrom, p2);
+          } else if (line.type === 'stop') {
+            // Stop lines (STOP signs and signalised) count detections only: the extrapolated path can
+            // overshoot a vehicle braking to a stop at the line. Judged once, on the tick the newest
+            // detection lands
+            const [from, to] = measured.slice(-2);
+            crossingDirection = to === p2 && p2.time === now && from ? detectCrossing(line, from, to)?.direction || null : null;
+          } else {
+            crossingDirection = detectCrossing(line, p1, p2)?.direction || null;
+          }
 
-            // Mark as infractor and trigger immediate audit if enough evidence collected
-            if (track.snapshots.length >= 5 && track.age > 15 && !track.analyzed) {
-              track.isInfractor = true;
-              // Trigger audit asynchronously to not block rendering
-              setTimeout(() => runNeuralAudit(track), 100);
+          // Wrong-way driving (kamikaze): only on one-way zones confined to a carriageway (never
+          // dividers, dashed or full-width lines), for vehicles, and only once the last detections
+          // have clearly crossed (box jitter on the line flips sides without getting clear of it)
+          let wrongWay = false;
+          if (line.direction !== 'bidirectional' && line.type !== 'divider' && line.type !== 'dashed' && isLaneConfined(line)
+            && track.label !== 'person' && !track.wrongWayZones?.has(zoneId)) {
+            const sustained = sustainedDirection(line, measured.slice(-WRONG_WAY_WINDOW), WRONG_WAY_MARGIN);
+            if (sustained && sustained !== line.direction) {
+              wrongWay = true;
+              crossingDirection = sustained;
+              (track.wrongWayZones ??= new Set()).add(zoneId);
             }
           }
-        });
-      }
-
-      // Snapshot capture (high frequency forensic buffer)
-      if (matchedTracks.has(track.id) && now - track.lastSnapshotTime > 150 && track.snapshots.length < 25 && track.confidence > 0.65) {
-        const snap = document.createElement('canvas');
-        snap.width = 400; snap.height = 300;
-        const trackScreenX = (lastP.x / 1000) * v.videoWidth - 40;
-        const trackScreenY = (lastP.y / 1000) * v.videoHeight - 40;
-        snap.getContext('2d')?.drawImage(v, trackScreenX, trackScreenY, 80, 80, 0, 0, 400, 300);
-        track.snapshots.push(snap.toDataURL('image/jpeg', 0.65).split(',')[1]);
-        track.lastSnapshotTime = now;
-      }
-
-      // Fallback: Trigger forensic audit at age 50 for stable tracks (if no line crossing detected)
-      if (track.age === 50 && !track.analyzed && !processingRef.current && track.confidence > 0.8 && !track.isInfractor) {
-        runNeuralAudit(track);
-      }
-    });
-
-    // STEP 5: Draw All Detection Lines (multi-line system)
-    ctx.save();
-    detectionLines.forEach((line, index) => {
-      const lineY = oY + (line.y / 1000) * dH;
+          if (!crossingDirection) return;
+
+          // Determine infraction type based on line type (dividers and dashed lines may be crossed;
+          // driving across a loading / no-parking zone is not parking: only the dwell monitor,
+          // on polygons, raises those)
+          const infractionTypes: Partial<Record<DetectionLine['type'], string>> = {
+            'solid': 'CRUCE_LINEA_CONTINUA',
+            'stop': 'NO_DETENCION_STOP',
+            'pedestrian': 'INVASION_PASO_PEATONES',
+            'bus-lane': 'CIRCULACION_CARRIL_BUS',
+            'speed-zone': 'EXCESO_VELOCIDAD'
+          };
 
-      // Line style based on type and infraction priority
-      switch (line.type) {
-        case 'solid':
-          ctx.strokeStyle = '#ef4444'; // Red for solid lines
-          ctx.lineWidth = 4;
-          ctx.setLineDash([]);
-          break;
-        case 'stop':
-          ctx.strokeStyle = '#dc2626'; // Bright Red for STOP
-          ctx.lineWidth = 6;
-          ctx.setLineDash([]);
-          break;
-        case 'pedestrian':
-          ctx.strokeStyle = '#22d3ee'; // Cyan for Pedestrian zones
-          ctx.lineWidth = 8;
-          ctx.setLineDash([30, 20]); // Zebra pattern
-          break;
-        case 'bus-lane':
-          ctx.strokeStyle = '#f59e0b'; // Amber for Bus Lane
-          ctx.lineWidth = 5;
-          ctx.setLineDash([]);
-          break;
-        case 'loading-zone':
-          ctx.strokeStyle = '#a855f7'; // Purple for Loading zones
-          ctx.lineWidth = 3;
-          ctx.setLineDash([10, 10]);
-          break;
-        case 'speed-zone':
-          ctx.strokeStyle = '#22c55e'; // Green for Speed control
-          ctx.lineWidth = 2;
-          ctx.setLineDash([2, 5]);
-          break;
-        case 'dashed':
-          ctx.strokeStyle = '#f59e0b'; // Amber for lane dividers
-          ctx.lineWidth = 2;
-          ctx.setLineDash([15, 10]);
-          break;
-        default: // divider
-          ctx.strokeStyle = '#06b6d4'; // Cyan for simple dividers
-          ctx.lineWidth = 2;
-          ctx.setLineDash([10, 5]);
-          break;
-      }
+          // Directional lines raise their own infraction only in their direction
+          const against = line.direction !== 'bidirectional' && crossingDirection !== line.direction;
+          // Speed lines that open or close a tramo are judged by the section average instead
+          const sectionLine = line.type === 'speed-zone' && speedSections.some(s => s.entry === line.label || s.exit === line.label);
+          let infractionType = wrongWay ? 'CIRCULACION_SENTIDO_CONTRARIO' : against || sectionLine ? undefined : infractionTypes[line.type];
+
+          // Stop lines controlled by a traffic light: only crossing on red is an infraction
+          const lights = line.type === 'stop' && !isAreaZone(line) ? lightsForLine(lightRois, line.label) : [];
+          if (lights.length > 0 && !against) {
+            // Light state at the crossing instant, not at the current frame (which runs ahead of
+            // the detections by the inference latency)
+            const crossingTime = measuredCrossingTime(line, track.points) ?? capture.mediaTime;
+            const crossingWall = now - Math.max(0, capture.mediaTime - crossingTime) * 1000;
+            const evidence = lights
+              .map(roi => timelines.get(roi.directive) ? lightEvidence(timelines.get(roi.directive)!, roi.label, crossingTime, crossingWall) : null)
+              .filter((e): e is LightEvidence => e !== null);
+            const red = evidence.find(e => e.state === 'red');
+            track.redLight = red || evidence[0];
+            infractionType = red ? 'REBASAR_SEMAFORO_ROJO' : undefined;
+            console.log(`🚦 SEMÁFORO "${line.label}": Track ${track.id} cruza en ${(red || evidence[0])?.state.toUpperCase() || 'DESCONOCIDO'}${red ? ` (rojo desde hace ${red.stateSeconds.toFixed(1)} s)` : ''}`);
+          } else if (line.type === 'stop' && !against && !isAreaZone(line)) {
+            // STOP lines: only an infraction when the approach shows no full stop (needs calibration;
+            // an indeterminate approach is never sanctioned)
+            const verdict = stopMonitorRef.current.judge(line.id || line.label, track.id);
+            track.stopVerdict = { ...verdict, line: line.label };
+            infractionType = calibration && verdict.compliant === false ? infractionType : undefined;
+            console.log(`🛑 STOP "${line.label}": Track ${track.id} ${verdict.compliant === null ? 'INDETERMINADO' : verdict.compliant ? 'DETENIDO' : 'SIN DETENCIÓN'} (detención ${verdict.longestStopSeconds.toFixed(1)} s, mín. ${verdict.minSpeedKmh?.toFixed(1) ?? '-'} km/h)`);
+          }
 
-      ctx.globalAlpha = (line.type === 'solid' || line.type === 'stop') ? 0.8 : (line.label.startsWith('GRID_') || line.label.startsWith('PERSP_')) ? 0.15 : 0.5;
+          // Crosswalks: only an infraction when a vehicle enters while someone is inside or entering
+          // and it is not stopped at the edge; people walking onto it are the ones being protected
+          if (line.type === 'pedestrian' && !against) {
+            if (track.label === 'person') {
+              infractionType = undefined;
+            } else {
+              const speedKmh = calibration && track.kinematics ? track.kinematics.speed * 3.6 : null;
+              const verdict = pedestrianMonitorRef.current.judge(line, speedKmh, now);
+              track.priorityVerdict = verdict;
+              if (!verdict.infraction) infractionType = undefined;
+              if (verdict.pedestrians.length > 0) {
+                console.log(`🚶 PASO "${line.label}": Track ${track.id} ${verdict.yielded === null ? 'INDETERMINADO' : verdict.yielded ? 'CEDE EL PASO' : 'NO CEDE EL PASO'} a ${verdict.pedestrians.length} peatón(es)`);
+              }
+            }
+          }
 
-      // Check if line is angled (has x1,y1,x2,y2 coordinates)
-      if (line.x1 !== undefined && line.y2 !== undefined && line.x2 !== undefined) {
-        // Angled line rendering
-        const x1 = oX + (line.x1 / 1000) * dW;
-        const y1 = oY + (line.y / 1000) * dH;
-        const x2 = oX + (line.x2 / 1000) * dW;
-        const y2 = oY + (line.y2 / 1000) * dH;
+          track.lastZoneEvent = { zone: line.label, direction: crossingDirection, wrongWay, infractionType, time: now };
 
-        ctx.beginPath();
-        ctx.moveTo(x1, y1);
-        ctx.lineTo(x2, y2);
-        ctx.stroke();
-      } else {
-        // Standard horizontal line
-        ctx.beginPath();
-        ctx.moveTo(0, lineY);
-        ctx.lineTo(canvas.width, lineY);
-        ctx.stroke();
+          if (infractionType && !track.isInfractor) {
+            console.log(`🚨 INFRACCIÓN DETECTADA: Track ${track.id} ${isAreaZone(line) ? 'entró en zona' : 'cruzó línea'} "${line.label}" en sentido ${crossingDirection}${wrongWay ? ' (KAMIKAZE)' : ''} (${infractionType})`);
 
-        // Line markers (ticks) - only for non-grid lines
-        if (!line.label.startsWith('GRID_') && !line.label.startsWith('PERSP_')) {
-          ctx.setLineDash([]);
-          ctx.lineWidth = 2;
-          for (let x = 0; x < canvas.width; x += 120) {
-            ctx.beginPath();
-            ctx.moveTo(x, lineY - 6);
-            ctx.lineTo(x, lineY + 6);
-            ctx.stroke();
+            // Mark as infractor and trigger immediate audit if enough evidence collected
+            if (track.snapshots.length >= 5 && track.age > 15 && !track.analyzed) {
+              track.isInfractor = true;
+              queueAudit(track, 'infraction');
+            }
           }
-        }
+        });
+        track.zoneDwell = zoneDwell;
       }
 
-      // Line label - only for important lines (not grid)
-      if (!line.label.startsWith('GRID_') && !line.label.startsWith('PERSP_')) {
-        ctx.fillStyle = ctx.strokeStyle;
-        ctx.font = 'bold 10px monospace';
-        ctx.globalAlpha = 0.9;
-        ctx.fillText(line.label, 15, lineY - 12);
+      // Snapshot capture (high frequency forensic buffer)
+      if (matchedTracks.has(track.id) && now - track.lastSnapshotTime > 150 && track.snapshots.length < 25 && track.confidence > 0.65) {
+        const trackScreenX = (lastP.x / 1000) * v.videoWidth - 40;
+        const trackScreenY = (lastP.y / 1000) * v.videoHeight - 40;
+        const snap = capture.crop([trackScreenX, trackScreenY, 80, 80], 400, 300);
+        if (snap) track.snapshots.push(snap);
+        track.lastSnapshotTime = now;
+      }
+
+      // Fallback: Trigger forensic audit at age 50 for stable tracks (if no line crossing detected)
+      if (track.age === 50 && !track.analyzed && track.confidence > 0.8 && !track.isInfractor) {
+        queueAudit(track, 'routine');
       }
     });
 
+    // STEP 5: Draw All Detection Lines (multi-line system)
+    ctx.save();
+    drawZones(ctx, detectionLines, oX, oY, dW, dH, canvas.width);
+    if (isManualMode) drawEditorOverlay(ctx, detectionLines, oX, oY, dW, dH);
+    if (isCalibrating) drawCalibration(ctx, oX, oY, dW, dH);
+    if (isMarkingLight || lightRois.length > 0) drawTrafficLights(ctx, oX, oY, dW, dH);
+
     // STEP 6: Draw Pose Skeletons (if active)
     if (poseEstimationEnabled && lastPosesRef.current.length > 0) {
       const poses = lastPosesRef.current;
@@ -1765,7 +2997,7 @@ const App = () => {
         skeleton.forEach(([i, j]) => {
           const kp1 = pose.keypoints[i];
           const kp2 = pose.keypoints[j];
-          if (kp1 && kp2 && kp1.score > 0.5 && kp2.score > 0.5) {
+          if (kp1 && kp2 && kp1.confidence > 0.5 && kp2.confidence > 0.5) {
             ctx.moveTo(getVidX(kp1.x), getVidY(kp1.y));
             ctx.lineTo(getVidX(kp2.x), getVidY(kp2.y));
           }
@@ -1775,7 +3007,7 @@ const App = () => {
         // Draw Keypoints
         ctx.fillStyle = '#f0abfc';
         pose.keypoints.forEach(kp => {
-          if (kp.score > 0.5) {
+          if (kp.confidence > 0.5) {
             ctx.beginPath();
             ctx.arc(getVidX(kp.x), getVidY(kp.y), 3, 0, 2 * Math.PI);
             ctx.fill();
@@ -1788,7 +3020,25 @@ const App = () => {
 
     // STEP 6: Cleanup - Remove tracks that are truly lost
     tracksRef.current = tracksRef.current.filter(t => t.missedFrames < Math.max(30, yoloConfig.trackBufferFrames) && t.confidence > 0.01);
-  }, [isPlaying, detectionLines, yoloConfig]);
+    const liveTrackIds = new Set(tracksRef.current.map(t => t.id));
+    zoneOccupancyRef.current.retain(liveTrackIds);
+    sectionMonitorRef.current.retain(liveTrackIds);
+    stopMonitorRef.current.retain(liveTrackIds);
+    pedestrianMonitorRef.current.retain(liveTrackIds);
+    plateVoterRef.current.retain(liveTrackIds);
+    pendingPlateLogsRef.current.forEach((_, id) => {
+      if (!liveTrackIds.has(id)) pendingPlateLogsRef.current.delete(id);
+    });
+    if (inference) parkingMonitorRef.current.retain(liveTrackIds, inference.mediaTime);
+
+    // Per-stage timings (main thread + last worker result), refreshed twice a second at 30 FPS
+    if (frameCounterRef.current % 15 === 0) {
+      setStageTimings({ ...detectorRef.current.lastTimings, ...capture.timings });
+      if (lightRois.length > 0) {
+        setLightStates(Object.fromEntries(lightRois.map(roi => [roi.directive, timelines.get(roi.directive)?.current || 'unknown'])));
+      }
+    }
+  }, [isPlaying, detectionLines, yoloConfig, isManualMode, editorTool, selectedZone, calibration, isCalibrating, calibrationDraft, speedSections, stopPolicy, parkingRules, source, recordingStart, lightRois, isMarkingLight, lightDraft, anprReady]);
 
   useEffect(() => {
     let handle: number;
@@ -1801,6 +3051,7 @@ const App = () => {
     try {
       const s = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: 1280, height: 720 } });
       if (videoRef.current) {
+        setCameraId(`live:${s.getVideoTracks()[0]?.getSettings().deviceId || 'default'}`);
         videoRef.current.srcObject = s;
         videoRef.current.onloadedmetadata = () => { safePlay(); setSource('live'); };
       }
@@ -1847,7 +3098,12 @@ const App = () => {
                     key={preset}
                     onClick={() => {
                       setActivePreset(preset);
-                      setYoloConfig(trackingPresets[preset]);
+                      // Runtime settings belong to the device, not the scene preset
+                      setYoloConfig(c => ({
+                        ...trackingPresets[preset],
+                        executionProviders: c.executionProviders,
+                        numThreads: c.numThreads
+                      }));
                     }}
                     className={`p-2 rounded-xl border transition-all flex flex-col items-center justify-center gap-1 relative ${isActive
                       ? `bg-${presetInfo.color}-500/20 border-${presetInfo.color}-500/50 text-${presetInfo.color}-400 shadow-[0_0_15px_rgba(var(--${presetInfo.color}-500-rgb),0.2)]`
@@ -1933,6 +3189,31 @@ const App = () => {
               />
             </div>
 
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🧩 Matching</span>
+              <div className="flex gap-1">
+                {(['hungarian', 'greedy'] as AssignmentMethod[]).map(method => (
+                  <button
+                    key={method}
+                    onClick={() => setYoloConfig(c => ({ ...c, matchingAlgorithm: method }))}
+                    className={`px-2 py-0.5 rounded text-[7px] font-bold uppercase transition-all ${yoloConfig.matchingAlgorithm === method ? 'bg-pink-500/30 text-pink-300' : 'bg-slate-800 text-slate-500'}`}
+                  >
+                    {method === 'hungarian' ? 'Húngaro' : 'Greedy'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🎯 Gating χ²</span>
+              <button
+                onClick={() => setYoloConfig(c => ({ ...c, mahalanobisGating: !c.mahalanobisGating }))}
+                className={`px-2 py-0.5 rounded text-[7px] font-bold uppercase transition-all ${yoloConfig.mahalanobisGating ? 'bg-pink-500/30 text-pink-300' : 'bg-slate-800 text-slate-500'}`}
+              >
+                {yoloConfig.mahalanobisGating ? 'ON' : 'OFF'}
+              </button>
+            </div>
+
             {/* BoT-SORT Specific Controls */}
             {yoloConfig.trackerType === 'BoT-SORT' && (
               <div className="space-y-1 pt-2 border-t border-purple-500/20">
@@ -1947,9 +3228,59 @@ const App = () => {
                   className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-purple-500"
                 />
                 <p className="text-[7px] text-purple-400/60 mt-1">Visual similarity weight</p>
+                <div className="flex justify-between text-[8px] font-mono uppercase pt-1">
+                  <span className="text-purple-400/60">Appearance</span>
+                  <span className={reidActive ? 'text-purple-300' : 'text-slate-500'}>{reidActive ? 'REID ONNX (EMBEDDING)' : 'HSV HISTOGRAM'}</span>
+                </div>
+                <div className="flex items-center justify-between pt-1">
+                  <span className="text-[9px] font-bold text-purple-400 uppercase">📷 Compensación Cámara (GMC)</span>
+                  <button
+                    onClick={() => setYoloConfig(c => ({ ...c, cameraMotionCompensation: !c.cameraMotionCompensation }))}
+                    className={`px-2 py-0.5 rounded text-[7px] font-bold uppercase transition-all ${yoloConfig.cameraMotionCompensation ? 'bg-purple-500/30 text-purple-300' : 'bg-slate-800 text-slate-500'}`}
+                  >
+                    {yoloConfig.cameraMotionCompensation ? 'ON' : 'OFF'}
+                  </button>
+                </div>
+                <p className="text-[7px] text-purple-400/60">Cámara en mano o embarcada en vehículo</p>
               </div>
             )}
 
+            {/* ONNX Execution Provider */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex justify-between text-[10px] font-bold text-slate-300 uppercase tracking-wide">
+                <span>🧠 Execution Provider</span>
+                <span className="text-green-400 font-mono">{yoloConfig.executionProviders.join(' → ').toUpperCase()}</span>
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                {Object.entries(PROVIDER_CHAINS).map(([name, chain]) => {
+                  const isActive = yoloConfig.executionProviders.join(',') === chain.join(',');
+                  return (
+                    <button
+                      key={name}
+                      onClick={() => setYoloConfig(c => ({ ...c, executionProviders: chain }))}
+                      className={`py-1 rounded text-[8px] font-black uppercase transition-all ${isActive ? 'bg-green-500/20 text-green-300 border border-green-500/40' : 'bg-slate-800 text-slate-500 border border-transparent hover:text-slate-300'}`}
+                    >
+                      {name}
+                    </button>
+                  );
+                })}
+              </div>
+              <div className="flex justify-between text-[10px] font-bold text-slate-300 uppercase tracking-wide">
+                <span>🧵 WASM Threads</span>
+                <span className="text-green-400 font-mono">{yoloConfig.numThreads === 0 ? 'AUTO' : yoloConfig.numThreads}</span>
+              </div>
+              <input
+                type="range" min="0" max="8" step="1"
+                value={yoloConfig.numThreads}
+                onChange={(e) => setYoloConfig(c => ({ ...c, numThreads: parseInt(e.target.value) }))}
+                className="w-full h-1 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-green-500"
+              />
+              <div className="flex justify-between text-[10px] font-bold text-slate-300 uppercase tracking-wide">
+                <span>🔢 ANPR Local</span>
+                <span className={`font-mono ${anprReady ? 'text-green-400' : 'text-slate-500'}`}>{anprReady ? 'PLACA + OCR ONNX' : 'SIN MODELOS (MATRÍCULA POR AUDITORÍA)'}</span>
+              </div>
+            </div>
+
             {/* === System Sensors & Status Panel === */}
             <div className="mt-4 p-3 bg-slate-950/50 border border-white/5 rounded-xl space-y-2">
               {/* Active Sensors */}
@@ -1975,8 +3306,8 @@ const App = () => {
                 {/* Pose Estimation */}
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full ${poseEstimationEnabled && detectorRef.current?.poseSession ? 'bg-purple-400 animate-pulse' : 'bg-slate-700'}`}></div>
-                    <span className={`text-[8px] font-mono uppercase tracking-wider ${poseEstimationEnabled && detectorRef.current?.poseSession ? 'text-purple-400' : 'text-slate-600'}`}>
+                    <div className={`w-2 h-2 rounded-full ${poseEstimationEnabled && detectorRef.current?.poseReady ? 'bg-purple-400 animate-pulse' : 'bg-slate-700'}`}></div>
+                    <span className={`text-[8px] font-mono uppercase tracking-wider ${poseEstimationEnabled && detectorRef.current?.poseReady ? 'text-purple-400' : 'text-slate-600'}`}>
                       POSE_DETECTOR
                     </span>
                   </div>
@@ -2027,9 +3358,21 @@ const App = () => {
 
               {/* System Info */}
               <div className="text-[8px] font-mono text-slate-500 space-y-1 pt-2 border-t border-white/5">
-                <div>Model: <span className="text-cyan-400">YOLOv11-Nano (ONNX/WASM)</span></div>
+                <div>Model: <span className="text-cyan-400">YOLOv11-Nano (ONNX)</span></div>
                 <div>Tracker: <span className={yoloConfig.trackerType === 'BoT-SORT' ? 'text-purple-400' : 'text-cyan-400'}>{yoloConfig.trackerType}</span></div>
-                <div>Backend: <span className="text-green-400">WebAssembly SIMD</span></div>
+                <div>Backend: <span className={activeBackend ? 'text-green-400' : 'text-slate-600'}>
+                  {activeBackend ? `${activeBackend.toUpperCase()}${activeBackend === 'wasm' ? (yoloConfig.numThreads > 0 ? ` ×${yoloConfig.numThreads}` : '') : ''}` : 'INICIANDO...'}
+                </span></div>
+                {Object.keys(stageTimings).length > 0 && (
+                  <div className="grid grid-cols-2 gap-x-2 pt-1">
+                    {(Object.entries(stageTimings) as [string, number][]).map(([stage, ms]) => (
+                      <div key={stage} className="flex justify-between">
+                        <span className="uppercase">{stage}</span>
+                        <span className={ms > 30 ? 'text-amber-400' : 'text-cyan-400'}>{ms.toFixed(1)}ms</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -2059,6 +3402,67 @@ const App = () => {
               {aiFeedback}
             </div>
           )}
+
+          {/* Forensic judge backend */}
+          <div className="bg-slate-900/50 border border-white/5 rounded-2xl p-3 space-y-2">
+            <div className="flex justify-between text-[10px] font-bold text-slate-300 uppercase tracking-wide">
+              <span>⚖️ Juez Forense</span>
+              <span className="text-cyan-400 font-mono">{forensicJudge.name}</span>
+            </div>
+            <div className="grid grid-cols-3 gap-1">
+              {([['gemini', 'GEMINI'], ['openai', 'LOCAL'], ['mock', 'MOCK']] as [JudgeBackend, string][]).map(([backend, name]) => (
+                <button
+                  key={backend}
+                  onClick={() => setJudgeConfig(c => ({ ...c, backend }))}
+                  className={`py-1 rounded text-[8px] font-black uppercase transition-all ${judgeConfig.backend === backend ? 'bg-cyan-500/20 text-cyan-300 border border-cyan-500/40' : 'bg-slate-800 text-slate-500 border border-transparent hover:text-slate-300'}`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            {judgeConfig.backend === 'openai' && (
+              <div className="space-y-1">
+                <input
+                  value={judgeConfig.endpoint}
+                  onChange={(e) => setJudgeConfig(c => ({ ...c, endpoint: e.target.value }))}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full bg-slate-950 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-cyan-400 outline-none focus:border-cyan-500"
+                />
+                <div className="grid grid-cols-2 gap-1">
+                  <input
+                    value={judgeConfig.model}
+                    onChange={(e) => setJudgeConfig(c => ({ ...c, model: e.target.value }))}
+                    placeholder="Modelo"
+                    className="bg-slate-950 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-cyan-400 outline-none focus:border-cyan-500"
+                  />
+                  <input
+                    type="password"
+                    value={judgeConfig.apiKey}
+                    onChange={(e) => setJudgeConfig(c => ({ ...c, apiKey: e.target.value }))}
+                    placeholder="API key (opcional)"
+                    className="bg-slate-950 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-cyan-400 outline-none focus:border-cyan-500"
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🧾 Auditorías simultáneas</span>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4].map(n => (
+                  <button
+                    key={n}
+                    onClick={() => setAuditConcurrency(n)}
+                    className={`w-6 py-0.5 rounded text-[8px] font-black transition-all ${auditConcurrency === n ? 'bg-cyan-500/20 text-cyan-300 border border-cyan-500/40' : 'bg-slate-800 text-slate-500 border border-transparent hover:text-slate-300'}`}
+                  >
+                    {n}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {judgeConfig.backend === 'mock' && (
+              <p className="text-[7px] text-slate-500 uppercase">Veredicto por reglas locales, sin red ni revisión visual</p>
+            )}
+          </div>
         </div>
 
 
@@ -2187,7 +3591,11 @@ const App = () => {
             <span className="text-[11px] font-black text-slate-500 uppercase block">Malla de Detección: {detectionLines.length} Nodos</span>
             <div className="flex flex-wrap gap-2 max-h-[100px] overflow-y-auto custom-scrollbar">
               {detectionLines.map((line, idx) => (
-                <div key={idx} className="flex items-center gap-1.5 px-2 py-1 bg-slate-900 border border-white/5 rounded-full group">
+                <div
+                  key={idx}
+                  onClick={() => isManualMode && setSelectedZone(idx)}
+                  className={`flex items-center gap-1.5 px-2 py-1 bg-slate-900 border rounded-full group ${selectedZone === idx && isManualMode ? 'border-white/60' : 'border-white/5'}`}
+                >
                   <div className="w-1.5 h-1.5 rounded-full" style={{
                     backgroundColor:
                       line.type === 'solid' || line.type === 'stop' ? '#ef4444' :
@@ -2195,7 +3603,7 @@ const App = () => {
                   }} />
                   <span className="text-[10px] font-mono text-slate-400 capitalize">{line.label.toLowerCase()}</span>
                   <button
-                    onClick={() => setDetectionLines(prev => prev.filter((_, i) => i !== idx))}
+                    onClick={(e) => { e.stopPropagation(); deleteZone(idx); }}
                     className="opacity-0 group-hover:opacity-100 text-red-500 transition-opacity"
                   >
                     <X size={8} />
@@ -2203,6 +3611,421 @@ const App = () => {
                 </div>
               ))}
             </div>
+
+            {/* Ground-Plane Calibration */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">📐 Calibración Métrica</span>
+                <span className={`text-[7px] font-mono uppercase ${calibration ? 'text-purple-300' : 'text-slate-500'}`}>
+                  {calibration ? `${calibration.widthMeters}×${calibration.lengthMeters} M` : 'Sin calibrar'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-1">
+                <label className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                  Ancho carril (m)
+                  <input
+                    type="number" step="0.1" min="0.5"
+                    value={calibrationSize.width}
+                    onChange={(e) => setCalibrationSize(c => ({ ...c, width: parseFloat(e.target.value) || 0 }))}
+                    className="bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200"
+                  />
+                </label>
+                <label className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                  Longitud trazo (m)
+                  <input
+                    type="number" step="0.1" min="0.5"
+                    value={calibrationSize.length}
+                    onChange={(e) => setCalibrationSize(c => ({ ...c, length: parseFloat(e.target.value) || 0 }))}
+                    className="bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200"
+                  />
+                </label>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => { setCalibrationDraft([]); setIsCalibrating(c => !c); }}
+                  className={`flex-1 py-1 rounded text-[7px] font-bold uppercase ${isCalibrating ? 'bg-purple-500/30 text-purple-300' : 'bg-slate-800 text-slate-400'}`}
+                >
+                  {isCalibrating ? `Marcando P${calibrationDraft.length + 1}/4` : calibration ? 'Recalibrar' : 'Calibrar'}
+                </button>
+                <button onClick={clearCalibration} disabled={!calibration} className="flex-1 py-1 rounded text-[7px] font-bold uppercase bg-slate-800 text-red-400 disabled:opacity-30">
+                  Borrar
+                </button>
+              </div>
+              {isCalibrating && (
+                <p className="text-[7px] text-slate-500 leading-tight">
+                  Marque 4 puntos del suelo recorriendo un rectángulo: P1→P2 a lo ancho del carril, P2→P3 a lo largo del trazo, después P4. Se guarda para esta cámara y este preset de vía.
+                </p>
+              )}
+            </div>
+
+            {/* STOP Compliance */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🛑 Control STOP</span>
+                <span className={`text-[7px] font-mono uppercase ${calibration ? 'text-slate-500' : 'text-amber-500'}`}>
+                  {calibration ? `< ${DEFAULT_STOP_POLICY.stopSpeedKmh} km/h` : 'Requiere calibración'}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-1">
+                {([['minStopSeconds', 'Detención mín. (s)', 0.1], ['approachMeters', 'Aproximación (m)', 1]] as const).map(([field, name, step]) => (
+                  <label key={field} className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                    {name}
+                    <input
+                      type="number" min="0" step={step}
+                      value={stopPolicy[field]}
+                      onChange={(e) => setStopPolicy(p => ({ ...p, [field]: parseFloat(e.target.value) || 0 }))}
+                      className="bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Traffic Lights (red-light control at stop lines) */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🚦 Semáforos</span>
+                <span className="text-[7px] font-mono uppercase text-slate-500">{lightRois.length} activos</span>
+              </div>
+              {lightRois.map(roi => {
+                const state = lightStates[roi.directive] || 'unknown';
+                return (
+                  <div key={roi.directive} className="flex items-center justify-between gap-2 px-2 py-1 bg-slate-900 rounded border border-white/5">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: LIGHT_COLORS[state] }} />
+                      <div className="flex flex-col min-w-0">
+                        <span className="text-[8px] font-bold text-slate-200 uppercase truncate">{roi.label}</span>
+                        <span className="text-[7px] font-mono text-slate-500 truncate">{roi.stopLine ? `→ ${roi.stopLine}` : 'Todas las líneas STOP'}</span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setDirectives(prev => prev.replace(roi.directive, '').replace(/\n{3,}/g, '\n\n'))}
+                      className="text-red-500 shrink-0"
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                );
+              })}
+              <select
+                value={lightStopLine}
+                onChange={(e) => setLightStopLine(e.target.value)}
+                className="w-full bg-black/40 border border-white/10 rounded px-1 py-1 text-[8px] font-mono text-slate-200"
+              >
+                <option value="">Todas las líneas STOP</option>
+                {detectionLines.filter(l => l.type === 'stop' && !isAreaZone(l)).map((l, i) => (
+                  <option key={i} value={l.label}>{l.label}</option>
+                ))}
+              </select>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => { setLightDraft([]); setIsMarkingLight(m => !m); }}
+                  className={`flex-1 py-1 rounded text-[7px] font-bold uppercase ${isMarkingLight ? 'bg-amber-500/30 text-amber-300' : 'bg-slate-800 text-slate-400'}`}
+                >
+                  {isMarkingLight ? `Marcando esquina ${lightDraft.length + 1}/2` : 'Marcar semáforo'}
+                </button>
+                <button
+                  onClick={() => {
+                    // Most confident YOLO 'traffic light' track as the ROI
+                    const detected = tracksRef.current
+                      .filter(t => t.label === 'traffic light' && t.trackState === 'confirmed')
+                      .sort((a, b) => b.confidence - a.confidence)[0];
+                    if (!detected) {
+                      setAiFeedback('SEMÁFORO: NINGÚN SEMÁFORO DETECTADO EN ESCENA');
+                      setTimeout(() => setAiFeedback(null), 3000);
+                      return;
+                    }
+                    addLightRoi({ x: detected.renderX - detected.renderW / 2, y: detected.renderY - detected.renderH / 2, w: detected.renderW, h: detected.renderH });
+                  }}
+                  className="flex-1 py-1 rounded text-[7px] font-bold uppercase bg-slate-800 text-amber-400"
+                >
+                  Usar detección
+                </button>
+              </div>
+              {isMarkingLight && (
+                <p className="text-[7px] text-slate-500 leading-tight">
+                  Marque dos esquinas opuestas del cuerpo del semáforo. Cruzar la línea STOP asociada en rojo abre expediente.
+                </p>
+              )}
+            </div>
+
+            {/* Section (tramo) Speed Control */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">⏱️ Control de Tramo</span>
+                <span className="text-[7px] font-mono uppercase text-slate-500">{speedSections.length} activos</span>
+              </div>
+              {speedSections.map(section => (
+                <div key={section.id} className="flex items-center justify-between gap-2 px-2 py-1 bg-slate-900 rounded border border-white/5">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-[8px] font-bold text-amber-300 uppercase truncate">{section.label}</span>
+                    <span className="text-[7px] font-mono text-slate-500 truncate">
+                      {section.entry} → {section.exit} · {section.distanceMeters} m · {Object.entries(section.limits).map(([cls, kmh]) => `${cls === 'default' ? '' : `${cls} `}${kmh}`).join(' / ')} km/h
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => setDirectives(prev => prev.replace(section.directive, '').replace(/\n{3,}/g, '\n\n'))}
+                    className="text-red-500 shrink-0"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-1">
+                {(['entry', 'exit'] as const).map(role => (
+                  <select
+                    key={role}
+                    value={sectionDraft[role]}
+                    onChange={(e) => setSectionDraft(d => ({ ...d, [role]: e.target.value }))}
+                    className="bg-black/40 border border-white/10 rounded px-1 py-1 text-[8px] font-mono text-slate-200"
+                  >
+                    <option value="">{role === 'entry' ? 'Línea entrada' : 'Línea salida'}</option>
+                    {detectionLines.filter(l => !l.label.startsWith('GRID_') && !l.label.startsWith('PERSP_') && !isAreaZone(l)).map((l, i) => (
+                      <option key={i} value={l.label}>{l.label}</option>
+                    ))}
+                  </select>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-1">
+                {([['distance', 'Distancia (m)'], ['limit', 'Límite km/h'], ['truckLimit', 'Pesados km/h']] as const).map(([field, name]) => (
+                  <label key={field} className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                    {name}
+                    <input
+                      type="number" min="0"
+                      value={sectionDraft[field]}
+                      onChange={(e) => setSectionDraft(d => ({ ...d, [field]: parseFloat(e.target.value) || 0 }))}
+                      className="bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200"
+                    />
+                  </label>
+                ))}
+              </div>
+              <button
+                disabled={!sectionDraft.entry || !sectionDraft.exit || sectionDraft.entry === sectionDraft.exit || !(sectionDraft.distance > 0) || !(sectionDraft.limit > 0)}
+                onClick={() => {
+                  const limits: Record<string, number> = { default: sectionDraft.limit };
+                  if (sectionDraft.truckLimit > 0) {
+                    limits.truck = sectionDraft.truckLimit;
+                    limits.bus = sectionDraft.truckLimit;
+                  }
+                  const directive = serializeSection({
+                    label: `TRAMO ${speedSections.length + 1}`,
+                    entry: sectionDraft.entry,
+                    exit: sectionDraft.exit,
+                    distanceMeters: sectionDraft.distance,
+                    limits
+                  });
+                  setDirectives(prev => `${prev.trimEnd()}\n${directive}`);
+                }}
+                className="w-full py-1.5 rounded text-[8px] font-bold uppercase bg-slate-800 text-amber-400 hover:bg-slate-700 disabled:opacity-30"
+              >
+                Añadir tramo a directivas
+              </button>
+            </div>
+
+            {/* Parking dwell rules (per zone and time of day) */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">🅿️ Estacionamiento</span>
+                <span className="text-[7px] font-mono uppercase text-slate-500">{parkingRules.length} reglas</span>
+              </div>
+              {source === 'upload' && (
+                <label className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                  Inicio de la grabación (horarios)
+                  <input
+                    type="datetime-local" step="1"
+                    value={recordingStart === null ? '' : (() => {
+                      const d = new Date(recordingStart - new Date(recordingStart).getTimezoneOffset() * 60000);
+                      return d.toISOString().slice(0, 19);
+                    })()}
+                    onChange={(e) => {
+                      const t = new Date(e.target.value).getTime();
+                      if (Number.isFinite(t)) setRecordingStart(t);
+                    }}
+                    className="bg-black/40 border border-white/10 rounded px-1 py-1 text-[9px] font-mono text-slate-200"
+                  />
+                </label>
+              )}
+              {detectionLines.filter(l => (l.type === 'loading-zone' || l.type === 'no-parking') && isAreaZone(l)).length === 0 && (
+                <span className="block text-[7px] font-mono uppercase text-slate-600">Dibuje un polígono loading-zone o no-parking</span>
+              )}
+              {parkingRules.map(rule => (
+                <div key={rule.directive} className="flex items-center justify-between gap-2 px-2 py-1 bg-slate-900 rounded border border-white/5">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-[8px] font-bold text-rose-300 uppercase truncate">{rule.zone}</span>
+                    <span className="text-[7px] font-mono text-slate-500 truncate">
+                      {rule.from === rule.to ? 'Todo el día' : `${formatClock(rule.from)}–${formatClock(rule.to)}`} · máx. {rule.maxMinutes} min
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => setDirectives(prev => prev.replace(rule.directive, '').replace(/\n{3,}/g, '\n\n'))}
+                    className="text-red-500 shrink-0"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              <select
+                value={parkingDraft.zone}
+                onChange={(e) => setParkingDraft(d => ({ ...d, zone: e.target.value }))}
+                className="w-full bg-black/40 border border-white/10 rounded px-1 py-1 text-[8px] font-mono text-slate-200"
+              >
+                <option value="">Zona</option>
+                {detectionLines.filter(l => (l.type === 'loading-zone' || l.type === 'no-parking') && isAreaZone(l)).map((l, i) => (
+                  <option key={i} value={l.label}>{l.label}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-3 gap-1">
+                <label className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                  Máx. min
+                  <input
+                    type="number" min="0"
+                    value={parkingDraft.maxMinutes}
+                    onChange={(e) => setParkingDraft(d => ({ ...d, maxMinutes: parseFloat(e.target.value) || 0 }))}
+                    className="bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200"
+                  />
+                </label>
+                {([['from', 'Desde'], ['to', 'Hasta']] as const).map(([field, name]) => (
+                  <label key={field} className="flex flex-col gap-0.5 text-[7px] text-slate-500 uppercase">
+                    {name}
+                    <input
+                      type="time"
+                      value={parkingDraft[field]}
+                      onChange={(e) => setParkingDraft(d => ({ ...d, [field]: e.target.value }))}
+                      className="bg-black/40 border border-white/10 rounded px-1 py-1 text-[9px] font-mono text-slate-200"
+                    />
+                  </label>
+                ))}
+              </div>
+              <button
+                disabled={!parkingDraft.zone || !(parkingDraft.maxMinutes >= 0)}
+                onClick={() => {
+                  const clock = (text: string) => {
+                    const [h, m] = text.split(':').map(Number);
+                    return (h || 0) * 60 + (m || 0);
+                  };
+                  const directive = serializeParkingRule({
+                    zone: parkingDraft.zone,
+                    maxMinutes: parkingDraft.maxMinutes,
+                    from: clock(parkingDraft.from),
+                    to: clock(parkingDraft.to)
+                  });
+                  setDirectives(prev => `${prev.trimEnd()}\n${directive}`);
+                }}
+                className="w-full py-1.5 rounded text-[8px] font-bold uppercase bg-slate-800 text-rose-400 hover:bg-slate-700 disabled:opacity-30"
+              >
+                Añadir horario a directivas
+              </button>
+            </div>
+
+            {/* Manual Zone Editor */}
+            <div className="space-y-2 pt-2 border-t border-white/5">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold text-slate-300 uppercase tracking-wide">✏️ Editor de Zonas</span>
+                <button
+                  onClick={() => {
+                    editorRef.current.draft = [];
+                    setSelectedZone(null);
+                    setIsManualMode(m => !m);
+                  }}
+                  className={`px-2 py-0.5 rounded text-[7px] font-bold uppercase transition-all ${isManualMode ? 'bg-cyan-500/30 text-cyan-300' : 'bg-slate-800 text-slate-500'}`}
+                >
+                  {isManualMode ? 'ON' : 'OFF'}
+                </button>
+              </div>
+
+              {isManualMode && (
+                <>
+                  <div className="grid grid-cols-4 gap-1">
+                    {([['select', 'Selec.'], ['segment', 'Segmento'], ['polyline', 'Polilínea'], ['polygon', 'Polígono']] as [EditorTool, string][]).map(([tool, name]) => (
+                      <button
+                        key={tool}
+                        onClick={() => { editorRef.current.draft = []; setEditorTool(tool); }}
+                        className={`py-1 rounded text-[7px] font-bold uppercase transition-all ${editorTool === tool ? 'bg-cyan-500/30 text-cyan-300' : 'bg-slate-800 text-slate-500'}`}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex flex-wrap gap-1">
+                    {(['solid', 'dashed', 'divider', 'pedestrian', 'stop', 'loading-zone', 'no-parking', 'bus-lane', 'speed-zone'] as DetectionLine['type'][]).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => setManualLineType(type)}
+                        className={`px-1.5 py-0.5 rounded text-[7px] font-mono uppercase transition-all ${manualLineType === type ? 'bg-amber-500/30 text-amber-300' : 'bg-slate-800 text-slate-500'}`}
+                      >
+                        {type}
+                      </button>
+                    ))}
+                  </div>
+
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setSnapEnabled(v => !v)}
+                      className={`flex-1 py-1 rounded text-[7px] font-bold uppercase ${snapEnabled ? 'bg-cyan-500/20 text-cyan-300' : 'bg-slate-800 text-slate-500'}`}
+                    >
+                      Snap {snapEnabled ? 'ON' : 'OFF'}
+                    </button>
+                    <button onClick={undoEdit} disabled={!editHistoryRef.current.canUndo} className="flex-1 py-1 rounded text-[7px] font-bold uppercase bg-slate-800 text-slate-400 disabled:opacity-30">
+                      Deshacer
+                    </button>
+                    <button onClick={redoEdit} disabled={!editHistoryRef.current.canRedo} className="flex-1 py-1 rounded text-[7px] font-bold uppercase bg-slate-800 text-slate-400 disabled:opacity-30">
+                      Rehacer
+                    </button>
+                  </div>
+
+                  {selectedZone !== null && detectionLines[selectedZone] && (
+                    <div className="space-y-1 p-2 bg-slate-900 rounded-lg border border-white/10">
+                      <input
+                        value={detectionLines[selectedZone].label}
+                        onFocus={() => editHistoryRef.current.record(detectionLines)}
+                        onChange={(e) => updateSelectedZone({ label: e.target.value.toUpperCase() })}
+                        className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200 uppercase"
+                      />
+                      <input
+                        value={detectionLines[selectedZone].infractionType || ''}
+                        placeholder="INFRACCIÓN (opcional)"
+                        onFocus={() => editHistoryRef.current.record(detectionLines)}
+                        onChange={(e) => updateSelectedZone({ infractionType: e.target.value.toUpperCase() || null })}
+                        className="w-full bg-black/40 border border-white/10 rounded px-2 py-1 text-[9px] font-mono text-slate-200 uppercase"
+                      />
+                      <div className="flex gap-1">
+                        {(['bidirectional', 'northbound', 'southbound'] as DetectionLine['direction'][]).map(direction => (
+                          <button
+                            key={direction}
+                            onClick={() => commitLines(detectionLines.map((l, i) => i === selectedZone ? { ...l, direction } : l))}
+                            className={`flex-1 py-0.5 rounded text-[7px] font-bold uppercase ${detectionLines[selectedZone].direction === direction ? 'bg-pink-500/30 text-pink-300' : 'bg-slate-800 text-slate-500'}`}
+                          >
+                            {direction === 'bidirectional' ? '⇅ Ambos' : direction === 'northbound' ? '▲ Norte' : '▼ Sur'}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => commitLines(detectionLines.map((l, i) => i === selectedZone ? { ...l, type: manualLineType } : l))}
+                          className="flex-1 py-0.5 rounded text-[7px] font-bold uppercase bg-slate-800 text-amber-400"
+                        >
+                          Tipo → {manualLineType}
+                        </button>
+                        <button onClick={() => deleteZone(selectedZone)} className="flex-1 py-0.5 rounded text-[7px] font-bold uppercase bg-red-900/40 text-red-400">
+                          Eliminar
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <button
+                    onClick={writeEditorToDirectives}
+                    className="w-full py-1.5 rounded text-[8px] font-bold uppercase bg-slate-800 text-cyan-400 hover:bg-slate-700"
+                  >
+                    Volcar zonas a directivas
+                  </button>
+                  <p className="text-[7px] text-slate-500 leading-tight">
+                    Arrastre para segmentos; clic por vértice en polilíneas/polígonos (Intro o doble clic cierra, Mayús fija ángulos de 15°). Supr elimina, Ctrl+Z / Ctrl+Y deshacer/rehacer. Al salir del editor la malla se regenera desde las directivas.
+                  </p>
+                </>
+              )}
+            </div>
           </div>
         </div>
 
@@ -2227,6 +4050,14 @@ const App = () => {
             <div className="w-2 h-2 bg-cyan-500 rounded-full animate-pulse shadow-[0_0_10px_#22d3ee]" />
             <span className="text-[9px] font-mono text-cyan-400/80 uppercase tracking-wider">LIVE :: {fps} FPS</span>
           </div>
+          {auditStatus.pending + auditStatus.running > 0 && (
+            <div className="flex items-center gap-3 bg-black/60 backdrop-blur-xl px-4 py-2 rounded-2xl border border-red-500/30">
+              <BrainCircuit size={12} className="text-red-400 animate-pulse" />
+              <span className="text-[9px] font-mono text-red-400/90 uppercase tracking-wider">
+                AUDITORÍAS :: {auditStatus.running} EN CURSO · {auditStatus.pending} EN COLA
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Video Viewport - Absolute Protagonist */}
@@ -2254,14 +4085,18 @@ const App = () => {
               {/* Canvas Overlay - Transparent Detection Layer */}
               <canvas
                 ref={canvasRef}
-                className="absolute inset-0 w-full h-full pointer-events-none"
+                onPointerDown={handleEditorPointerDown}
+                onPointerMove={handleEditorPointerMove}
+                onPointerUp={handleEditorPointerUp}
+                onDoubleClick={finishDraft}
+                className={`absolute inset-0 w-full h-full ${isManualMode || isCalibrating || isMarkingLight ? 'cursor-crosshair touch-none' : 'pointer-events-none'}`}
               />
 
               {/* Subtle Grid Overlay */}
               <div className="absolute inset-0 opacity-5 pointer-events-none hud-grid" />
 
               {/* Forensic Analysis Indicator */}
-              {isAnalyzing && (
+              {auditStatus.running > 0 && (
                 <div className="absolute bottom-8 right-8 z-50 bg-black/95 border-2 border-red-600/40 p-6 rounded-[30px] flex items-center gap-5 shadow-[0_0_40px_rgba(220,38,38,0.4)] animate-in slide-in-from-bottom-10">
                   <div className="w-12 h-12 border-t-3 border-red-600 rounded-full animate-spin flex items-center justify-center">
                     <BrainCircuit size={24} className="text-cyan-400 animate-pulse" />
@@ -2318,7 +4153,7 @@ const App = () => {
             <button onClick={() => document.getElementById('f-up-main')?.click()}
               className="w-14 h-14 bg-white/5 rounded-2xl hover:bg-white/10 text-slate-500 transition-all border border-white/10 flex items-center justify-center shadow-neon group">
               <Upload size={24} className="group-hover:text-cyan-400 transition-colors" />
-              <input id="f-up-main" type="file" className="hidden" accept="video/*" onChange={e => { const f = e.target.files?.[0]; if (f) { setVideoUrl(URL.createObjectURL(f)); setSource('upload'); } }} />
+              <input id="f-up-main" type="file" className="hidden" accept="video/*" onChange={e => { const f = e.target.files?.[0]; if (f) { uploadModifiedRef.current = f.lastModified; setRecordingStart(null); setVideoUrl(URL.createObjectURL(f)); setCameraId(`file:${f.name}`); setSource('upload'); } }} />
             </button>
           </div>
         </div>
@@ -2335,11 +4170,38 @@ const App = () => {
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
-          {logs.map(log => (
+          {failedAudits.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-[10px] font-black text-amber-500 uppercase tracking-widest">⚠ Auditorías fallidas ({failedAudits.length})</span>
+              {failedAudits.map(failure => (
+                <div
+                  key={failure.id}
+                  onClick={() => { setReviewAudit(failure); setReviewPlate(failure.evidence.plate || ''); setReviewSeverity('grave'); }}
+                  className="p-3 bg-amber-950/20 border border-amber-500/20 border-l-4 border-l-amber-500 rounded-2xl cursor-pointer hover:bg-amber-950/40 transition-all flex gap-3 items-center"
+                >
+                  <img src={failure.context.image} className="w-16 h-12 rounded-lg object-cover grayscale" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between text-[9px] font-black uppercase">
+                      <span className="text-white">Track #{failure.evidence.trackId} · {failure.evidence.vehicleClass}</span>
+                      <span className="text-amber-400 font-mono">{failure.time}</span>
+                    </div>
+                    <p className="text-[8px] text-amber-300/70 font-mono truncate">{failure.attempts[failure.attempts.length - 1]?.error}</p>
+                    <span className="text-[7px] text-slate-500 uppercase">{failure.attempts.length} intentos · {failure.evidence.infractionType || 'auditoría rutinaria'} · pendiente de revisión</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {logs.map(log => {
+            const offender = vehicleRegistryRef.current.status(log.plate);
+            return (
             <div key={log.id} onClick={() => setSelectedLog(log)} className="p-4 bg-slate-900/40 border border-white/5 border-l-4 border-l-red-600 rounded-2xl cursor-pointer hover:bg-slate-900 transition-all shadow-lg group hover:border-red-500/30">
               <div className="relative aspect-video rounded-xl overflow-hidden mb-3 border border-white/10 shadow-lg">
                 <img src={log.image} className="w-full h-full object-cover grayscale brightness-110 contrast-125 group-hover:grayscale-0 transition-all duration-500" />
                 <div className="absolute top-2 right-2 bg-red-700/90 backdrop-blur px-2 py-0.5 rounded text-[10px] font-mono font-black text-white shadow-lg">{log.plate}</div>
+                {offender.repeat && (
+                  <div className="absolute top-2 left-2 bg-amber-500/90 backdrop-blur px-2 py-0.5 rounded text-[9px] font-mono font-black text-black shadow-lg">REINCIDENTE ×{offender.recentPasses}</div>
+                )}
               </div>
               <div className="flex items-center justify-between mb-2">
                 <span className="text-[10px] font-bold text-white uppercase tracking-wider">{log.subType}</span>
@@ -2347,7 +4209,8 @@ const App = () => {
               </div>
               <p className="text-[9px] text-slate-500 font-mono line-clamp-2 leading-relaxed uppercase group-hover:text-slate-400">"{log.description}"</p>
             </div>
-          ))}
+            );
+          })}
         </div>
       </aside >
 
@@ -2438,16 +4301,74 @@ const App = () => {
                     <h2 className="text-5xl lg:text-6xl font-black italic text-white tracking-tighter uppercase font-mono">
                       {selectedLog.plate}
                     </h2>
+                    {selectedLog.plateReading && (
+                      <div className="flex flex-wrap items-center gap-4 pt-2 border-t border-white/5">
+                        {selectedLog.plateReading.snapshot && (
+                          <img src={`data:image/jpeg;base64,${selectedLog.plateReading.snapshot}`} className="h-12 rounded-lg border border-white/10" />
+                        )}
+                        <div className="flex gap-1">
+                          {selectedLog.plateReading.characters.map((c, i) => (
+                            <div key={i} className="flex flex-col items-center bg-slate-900 border border-white/10 rounded-lg px-2 py-1">
+                              <span className="text-[16px] font-black font-mono text-white leading-none">{c.char}</span>
+                              <span className={`text-[8px] font-mono ${c.confidence >= 0.9 ? 'text-green-400' : c.confidence >= 0.7 ? 'text-amber-400' : 'text-red-400'}`}>{Math.round(c.confidence * 100)}</span>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex flex-col text-[10px] font-mono uppercase">
+                          <span className="text-cyan-400">ANPR local · {PLATE_FORMAT_NAMES[selectedLog.plateReading.format]} · {selectedLog.plateReading.votes}/{selectedLog.plateReading.attempts} lecturas</span>
+                          {selectedLog.plateCheck && (
+                            <span className={selectedLog.plateCheck.agrees ? 'text-green-400' : 'text-amber-400'}>
+                              Juez: {selectedLog.plateCheck.cloud} {selectedLog.plateCheck.agrees ? '✓ coincide' : '⚠ discrepancia'}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {(() => {
+                      const record = vehicleRegistryRef.current.get(selectedLog.plate);
+                      if (!record) return null;
+                      const offender = vehicleRegistryRef.current.status(record.plate);
+                      return (
+                        <div className="pt-3 border-t border-white/5 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-[11px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                              <History size={14} /> Historial del vehículo
+                              {offender.repeat && <span className="bg-amber-500 text-black px-2 py-0.5 rounded text-[9px]">REINCIDENTE ×{offender.recentPasses}</span>}
+                            </span>
+                            <button
+                              onClick={() => setTimelinePlate(record.plate)}
+                              className="px-3 py-1 rounded-lg bg-cyan-500/10 border border-cyan-500/30 text-cyan-400 text-[9px] font-black uppercase tracking-widest hover:bg-cyan-500/20 transition-all"
+                            >
+                              Ver cronología
+                            </button>
+                          </div>
+                          <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-[10px] font-mono uppercase">
+                            <span className="text-slate-500">Expedientes: <span className="text-white">{offender.totalInfractions}</span> ({offender.recentInfractions} en {vehicleRegistryRef.current.policy.windowDays} días, {offender.recentPasses} pasos)</span>
+                            <span className="text-slate-500">Avistamientos: <span className="text-white">{record.sightings}</span></span>
+                            <span className="text-slate-500">Primera vez: <span className="text-white">{new Date(record.firstSeen).toLocaleString()}</span></span>
+                            <span className="text-slate-500">Última vez: <span className="text-white">{new Date(record.lastSeen).toLocaleString()}</span></span>
+                          </div>
+                          <div className="flex flex-wrap gap-1 text-[9px] font-mono uppercase">
+                            {record.descriptions.slice(0, 3).map(d => (
+                              <span key={`${d.vehicleType}/${d.subType}`} className="bg-slate-900 border border-white/10 rounded px-2 py-0.5 text-slate-300">{d.subType} ({d.vehicleType}) ×{d.count}</span>
+                            ))}
+                            {[...record.locations].sort((a, b) => b.count - a.count).slice(0, 3).map(l => (
+                              <span key={l.name} className="bg-slate-900 border border-white/10 rounded px-2 py-0.5 text-cyan-300/80 flex items-center gap-1"><MapPin size={10} /> {l.name} ×{l.count}</span>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })()}
                   </div>
 
                   {/* Sensor Pillars (Vertical Capsule Shapes) */}
                   <div className="grid grid-cols-4 gap-6 px-2">
                     {/* Sensor 1 */}
                     <div className="bg-[#0a0a0a] aspect-[3/4.5] rounded-[60px] border border-white/5 flex flex-col items-center justify-between py-10 text-center group transition-transform hover:scale-105">
-                      <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest font-mono">Calibración</span>
+                      <span className="text-[9px] font-black text-slate-600 uppercase tracking-widest font-mono">Dist._Línea</span>
                       <div className="flex flex-col items-center">
-                        <span className="text-[16px] font-black text-purple-500 uppercase leading-none">CARRIL</span>
-                        <span className="text-[18px] font-black text-purple-500 font-mono">3.0M</span>
+                        <span className="text-[18px] font-black text-purple-500 font-mono leading-none">{selectedLog.telemetry?.distanceToLine || 'N/D'}</span>
+                        <span className="text-[10px] font-black text-purple-500/60 uppercase font-mono">{selectedLog.telemetry?.calibration ? `CAL ${selectedLog.telemetry.calibration}` : 'SIN CALIBRAR'}</span>
                       </div>
                       <div className="w-2 h-2 rounded-full bg-purple-500/30 border border-purple-500 animate-pulse" />
                     </div>
@@ -2458,6 +4379,12 @@ const App = () => {
                       <div className="flex flex-col items-center">
                         <span className="text-4xl font-mono font-black text-amber-500 leading-none">{selectedLog.telemetry?.speedEstimated.replace(' km/h', '')}</span>
                         <span className="text-[14px] font-black text-amber-500/50 uppercase font-mono">km/h</span>
+                        {selectedLog.telemetry?.speedUncertainty && (
+                          <span className="text-[10px] font-black text-amber-500/40 font-mono">{selectedLog.telemetry.speedUncertainty}</span>
+                        )}
+                        {selectedLog.telemetry?.minSpeedObserved && (
+                          <span className="text-[10px] font-black text-red-400/70 font-mono">MÍN {selectedLog.telemetry.minSpeedObserved} · STOP {selectedLog.telemetry.stopDuration}</span>
+                        )}
                       </div>
                       <Gauge size={18} className="text-amber-500/40" />
                     </div>
@@ -2479,6 +4406,82 @@ const App = () => {
                     </div>
                   </div>
 
+                  {/* Crosswalk evidence: people inside / entering when the vehicle passed */}
+                  {selectedLog.telemetry?.pedestriansPresent && (
+                    <div className="bg-slate-900 rounded-2xl border border-pink-500/20 px-4 py-3 text-[11px] font-mono text-pink-300 uppercase">
+                      🚶 {selectedLog.telemetry.pedestriansPresent}
+                    </div>
+                  )}
+
+                  {/* Traffic-light evidence: state timeline up to the stop-line crossing */}
+                  {selectedLog.trafficLight && selectedLog.trafficLight.timeline.length > 0 && (() => {
+                    const evidence = selectedLog.trafficLight;
+                    const from = evidence.timeline[0].start;
+                    const span = Math.max(0.001, evidence.crossingTime - from);
+                    return (
+                      <div className="bg-slate-900 rounded-2xl border border-red-500/20 px-4 py-3 space-y-2">
+                        <div className="flex items-center justify-between text-[11px] font-mono uppercase">
+                          <span className="font-black text-red-400 tracking-widest">🚦 {evidence.light}</span>
+                          <span className="text-slate-300">{evidence.state.toUpperCase()} · {evidence.stateSeconds.toFixed(1)} s al cruzar</span>
+                        </div>
+                        <div className="relative h-3 rounded-full overflow-hidden bg-slate-800">
+                          {evidence.timeline.map((phase, i) => (
+                            <div
+                              key={i}
+                              className="absolute top-0 h-full"
+                              style={{
+                                left: `${Math.max(0, (phase.start - from) / span) * 100}%`,
+                                width: `${Math.max(0, ((evidence.timeline[i + 1]?.start ?? evidence.crossingTime) - Math.max(phase.start, from)) / span) * 100}%`,
+                                backgroundColor: LIGHT_COLORS[phase.state]
+                              }}
+                            />
+                          ))}
+                          <div className="absolute top-0 right-0 h-full w-0.5 bg-white" />
+                        </div>
+                        <div className="flex justify-between text-[9px] font-mono text-slate-500">
+                          <span>t={from.toFixed(2)}s</span>
+                          <span>CRUCE t={evidence.crossingTime.toFixed(2)}s · {new Date(evidence.crossingWallTime).toLocaleTimeString()}</span>
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Parking evidence: start and end of the stay */}
+                  {selectedLog.parking && (
+                    <div className="grid grid-cols-2 gap-4">
+                      {([['INICIO', selectedLog.parking.startSnapshot, selectedLog.parking.startedAt], ['FIN', selectedLog.parking.endSnapshot, selectedLog.parking.endedAt]] as const).map(([name, snapshot, time]) => (
+                        <div key={name} className="bg-slate-900 rounded-2xl border border-rose-500/20 overflow-hidden">
+                          {snapshot && <img src={`data:image/jpeg;base64,${snapshot}`} className="w-full aspect-[4/3] object-cover" />}
+                          <div className="px-4 py-2 flex items-center justify-between">
+                            <span className="text-[11px] font-black text-rose-400 uppercase tracking-widest">{name}</span>
+                            <span className="text-[11px] font-mono text-slate-300">{new Date(time).toLocaleTimeString()}</span>
+                          </div>
+                        </div>
+                      ))}
+                      <div className="col-span-2 text-[11px] font-mono text-slate-400 uppercase px-2">
+                        {selectedLog.parking.zone}: {Math.round(selectedLog.parking.dwellSeconds / 60)} min estacionado · máximo {selectedLog.parking.allowedMinutes} min{selectedLog.parking.occlusions > 0 ? ` · ${selectedLog.parking.occlusions} ocultaciones` : ''}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Section (tramo) evidence: entry and exit crossings */}
+                  {selectedLog.section && (
+                    <div className="grid grid-cols-2 gap-4">
+                      {([['ENTRADA', selectedLog.section.entry], ['SALIDA', selectedLog.section.exit]] as const).map(([name, crossing]) => (
+                        <div key={name} className="bg-slate-900 rounded-2xl border border-amber-500/20 overflow-hidden">
+                          {crossing.snapshot && <img src={`data:image/jpeg;base64,${crossing.snapshot}`} className="w-full aspect-[4/3] object-cover" />}
+                          <div className="px-4 py-2 flex items-center justify-between">
+                            <span className="text-[11px] font-black text-amber-400 uppercase tracking-widest">{name}</span>
+                            <span className="text-[11px] font-mono text-slate-300">{new Date(crossing.wallTime).toLocaleTimeString()} · t={crossing.mediaTime.toFixed(3)}s</span>
+                          </div>
+                        </div>
+                      ))}
+                      <div className="col-span-2 text-[11px] font-mono text-slate-400 uppercase px-2">
+                        {selectedLog.section.sectionLabel}: {selectedLog.section.distanceMeters} m / {selectedLog.section.elapsedSeconds.toFixed(2)} s = {Math.round(selectedLog.section.averageKmh)} km/h (−{Math.round(selectedLog.section.marginKmh)} margen) · límite {selectedLog.section.limitKmh} km/h
+                      </div>
+                    </div>
+                  )}
+
                   {/* NEURAL FORENSIC BUFFER: Multiple snapshots display */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between px-4">
@@ -2554,6 +4557,166 @@ const App = () => {
         )
       }
 
+      {/* MANUAL REVIEW MODAL - FAILED AUDIT */}
+      {
+        reviewAudit && (
+          <div className="fixed inset-0 z-[200] bg-black/95 flex items-center justify-center p-6 backdrop-blur-3xl animate-in fade-in duration-300">
+            <div className="bg-[#050914] w-full max-w-4xl max-h-[90vh] rounded-[40px] border border-amber-500/20 overflow-hidden flex flex-col shadow-2xl relative">
+              <button onClick={() => setReviewAudit(null)} className="absolute top-5 right-5 z-[210] p-2 bg-slate-900/90 rounded-full hover:bg-red-700 text-white transition-all border border-white/10">
+                <X size={20} />
+              </button>
+
+              <div className="p-8 space-y-5 overflow-y-auto custom-scrollbar">
+                <div>
+                  <h3 className="text-amber-400 font-black uppercase text-sm tracking-[0.2em]">Revisión manual · Track #{reviewAudit.evidence.trackId}</h3>
+                  <span className="text-[10px] font-mono text-slate-500">{reviewAudit.date} {reviewAudit.time} · {reviewAudit.judge} · {reviewAudit.evidence.infractionType || 'auditoría rutinaria'}</span>
+                </div>
+
+                <div className="grid grid-cols-4 gap-2">
+                  {reviewAudit.evidence.snapshots.slice(-8).map((snap, i) => (
+                    <img key={i} src={`data:image/jpeg;base64,${snap}`} className="w-full aspect-video object-cover rounded-lg border border-white/10" />
+                  ))}
+                </div>
+                {reviewAudit.context.videoUrl && (
+                  <video src={reviewAudit.context.videoUrl} controls className="w-full max-h-64 rounded-xl border border-white/10 bg-black" />
+                )}
+
+                <div className="bg-slate-900/50 border border-white/5 rounded-2xl p-4 space-y-1">
+                  {reviewAudit.evidence.facts.map(([label, value]) => (
+                    <div key={label} className="text-[10px] font-mono"><span className="text-slate-500 uppercase">{label}:</span> <span className="text-slate-300">{value}</span></div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <span className="text-[10px] font-black text-amber-500 uppercase tracking-widest">Intentos del juez ({reviewAudit.attempts.length})</span>
+                  {reviewAudit.attempts.map((attempt, i) => (
+                    <div key={i} className="bg-amber-950/20 border border-amber-500/10 rounded-xl p-3 space-y-1">
+                      <div className="flex justify-between text-[9px] font-mono">
+                        <span className="text-amber-300">{attempt.error}</span>
+                        <span className="text-slate-500">{new Date(attempt.at).toLocaleTimeString()}</span>
+                      </div>
+                      {attempt.issues && (
+                        <ul className="text-[8px] font-mono text-amber-200/60 list-disc pl-4">
+                          {attempt.issues.map((issue, j) => <li key={j}>{issue}</li>)}
+                        </ul>
+                      )}
+                      {attempt.raw && (
+                        <pre className="text-[8px] font-mono text-slate-500 whitespace-pre-wrap break-all max-h-32 overflow-y-auto custom-scrollbar">{attempt.raw}</pre>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    value={reviewPlate}
+                    onChange={(e) => setReviewPlate(e.target.value)}
+                    placeholder="Matrícula"
+                    className="bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-[12px] font-mono text-white uppercase outline-none focus:border-amber-500"
+                  />
+                  <select
+                    value={reviewSeverity}
+                    onChange={(e) => setReviewSeverity(e.target.value as typeof SEVERITIES[number])}
+                    className="bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-[12px] font-mono text-white uppercase outline-none focus:border-amber-500"
+                  >
+                    {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    disabled={reviewBusy}
+                    onClick={() => retryFailedAudit(reviewAudit)}
+                    className="py-3 rounded-2xl bg-cyan-500/20 text-cyan-300 border border-cyan-500/40 text-[10px] font-black uppercase tracking-widest hover:bg-cyan-500/30 disabled:opacity-40 transition-all"
+                  >
+                    {reviewBusy ? 'Reintentando…' : `Reintentar (${forensicJudge.name})`}
+                  </button>
+                  <button
+                    disabled={reviewBusy}
+                    onClick={() => resolveFailedAudit(reviewAudit, reviewPlate, reviewSeverity)}
+                    className="py-3 rounded-2xl bg-red-700 text-white text-[10px] font-black uppercase tracking-widest hover:bg-red-600 disabled:opacity-40 transition-all"
+                  >
+                    Abrir expediente manual
+                  </button>
+                  <button
+                    disabled={reviewBusy}
+                    onClick={() => dismissFailedAudit(reviewAudit)}
+                    className="py-3 rounded-2xl bg-slate-800 text-slate-400 text-[10px] font-black uppercase tracking-widest hover:text-white disabled:opacity-40 transition-all"
+                  >
+                    Descartar
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )
+      }
+
+      {/* VEHICLE TIMELINE MODAL - PLATE HISTORY */}
+      {
+        timelinePlate && (() => {
+          const record = vehicleRegistryRef.current.get(timelinePlate);
+          if (!record) return null;
+          const offender = vehicleRegistryRef.current.status(record.plate);
+          return (
+            <div className="fixed inset-0 z-[220] bg-black/90 flex items-center justify-center p-6 backdrop-blur-3xl animate-in fade-in duration-300">
+              <div className="bg-[#050914] w-full max-w-3xl max-h-[85vh] rounded-[40px] border border-cyan-500/20 overflow-hidden flex flex-col shadow-2xl relative">
+                <button onClick={() => setTimelinePlate(null)} className="absolute top-5 right-5 z-[230] p-2 bg-slate-900/90 rounded-full hover:bg-red-700 text-white transition-all border border-white/10">
+                  <X size={20} />
+                </button>
+
+                <div className="p-8 space-y-5 overflow-y-auto custom-scrollbar">
+                  <div>
+                    <h3 className="text-cyan-400 font-black uppercase text-sm tracking-[0.2em]">Cronología · {formatPlate(record.plate)}</h3>
+                    <span className="text-[10px] font-mono text-slate-500 uppercase">
+                      {PLATE_FORMAT_NAMES[record.format]} · {offender.totalInfractions} expedientes · {record.sightings} avistamientos · desde {new Date(record.firstSeen).toLocaleDateString()}
+                      {offender.repeat && <span className="text-amber-400"> · reincidente ({offender.recentPasses} pasos en {vehicleRegistryRef.current.policy.windowDays} días)</span>}
+                    </span>
+                  </div>
+
+                  <div className="relative pl-6 space-y-3 border-l border-white/10">
+                    {[...record.infractions].reverse().map(entry => {
+                      const log = logs.find(l => l.id === entry.logId);
+                      return (
+                        <div
+                          key={entry.logId}
+                          onClick={() => { if (log) { setSelectedLog(log); setTimelinePlate(null); } }}
+                          className={`relative bg-slate-900/50 border border-white/5 rounded-2xl p-4 space-y-1 ${log ? 'cursor-pointer hover:border-red-500/30' : ''}`}
+                        >
+                          <div className="absolute -left-[29px] top-5 w-2.5 h-2.5 rounded-full bg-red-600 shadow-[0_0_8px_rgba(220,38,38,0.8)]" />
+                          <div className="flex justify-between text-[9px] font-mono uppercase">
+                            <span className="text-white">{new Date(entry.at).toLocaleString()}</span>
+                            <span className={entry.severity === 'muy-grave' ? 'text-red-400' : 'text-orange-400'}>{entry.severity}</span>
+                          </div>
+                          <p className="text-[10px] text-slate-400 font-mono line-clamp-3">{entry.description}</p>
+                          <div className="flex justify-between text-[8px] font-mono text-slate-500 uppercase">
+                            <span className="flex items-center gap-1"><MapPin size={10} /> {entry.location}</span>
+                            <span>{entry.legalArticle || ''}{log ? '' : ' · sesión anterior'}</span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {record.infractions.length === 0 && (
+                      <p className="text-[10px] font-mono text-slate-500 uppercase">Sin expedientes: solo avistamientos del ANPR</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ubicaciones</span>
+                    {[...record.locations].sort((a, b) => b.lastSeen - a.lastSeen).map(l => (
+                      <div key={l.name} className="flex justify-between text-[9px] font-mono uppercase">
+                        <span className="text-cyan-300/80">{l.name}</span>
+                        <span className="text-slate-500">{l.count} veces · última {new Date(l.lastSeen).toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          );
+        })()
+      }
+
       <style>{`
         @import url('https://fonts.googleapis.com/css2?family=Outfit:wght@100;300;400;700;900&family=JetBrains+Mono:wght@400;700&display=swap');
         
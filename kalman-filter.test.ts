@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { CHI2_INV_95, KalmanFilter, Matrix, diag, identity, invertSPD, matMul, transpose } from './kalman-filter';
+
+// Deterministic pseudo-random numbers (mulberry32) so failures reproduce
+function random(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function gaussian(rand: () => number): number {
+    return Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+}
+
+function expectMatrixClose(actual: Matrix, expected: Matrix, digits = 6) {
+    actual.forEach((row, i) => row.forEach((x, j) => expect(x).toBeCloseTo(expected[i][j], digits)));
+}
+
+// Runs the filter over [cx, cy, a, h] measurements and returns the final state
+function track(measurements: number[][]) {
+    const kf = new KalmanFilter();
+    let { mean, covariance } = kf.initiate(measurements[0]);
+    for (const z of measurements.slice(1)) {
+        ({ mean, covariance } = kf.predict(mean, covariance));
+        ({ mean, covariance } = kf.update(mean, covariance, z));
+    }
+    return { kf, mean, covariance };
+}
+
+describe('invertSPD', () => {
+    it('inverts a known 2x2 matrix', () => {
+        expectMatrixClose(invertSPD([[4, 2], [2, 3]]), [[0.375, -0.25], [-0.25, 0.5]]);
+    });
+
+    it('returns the inverse of random SPD matrices up to 8x8', () => {
+        const rand = random(7);
+        for (let n = 1; n <= 8; n++) {
+            const B = Array.from({ length: n }, () => Array.from({ length: n }, () => rand() * 2 - 1));
+            const A = matMul(B, transpose(B)).map((row, i) => row.map((x, j) => x + (i === j ? n : 0)));
+            expectMatrixClose(matMul(A, invertSPD(A)), identity(n));
+        }
+    });
+
+    it('handles a diagonal matrix', () => {
+        expectMatrixClose(invertSPD(diag([2, 5, 10])), diag([0.5, 0.2, 0.1]));
+    });
+});
+
+describe('KalmanFilter', () => {
+    it('converges to the velocity of a noisy constant-velocity trajectory', () => {
+        const rand = random(42);
+        const truth = (t: number) => [100 + 5 * t, 200 - 3 * t, 0.5, 80];
+        const measurements = Array.from({ length: 60 }, (_, t) =>
+            truth(t).map((x, i) => x + (i === 2 ? 0.005 : 1.5) * gaussian(rand)));
+
+        const { mean } = track(measurements);
+        const last = truth(59);
+        expect(Math.abs(mean[0] - last[0])).toBeLessThan(3);
+        expect(Math.abs(mean[1] - last[1])).toBeLessThan(3);
+        expect(mean[4]).toBeCloseTo(5, 0);
+        expect(mean[5]).toBeCloseTo(-3, 0);
+        expect(mean[2]).toBeCloseTo(0.5, 1);
+        expect(Math.abs(mean[3] - 80)).toBeLessThan(3);
+    });
+
+    it('settles on a stationary target and has no residual velocity', () => {
+        const rand = random(3);
+        const measurements = Array.from({ length: 40 }, () => [320 + gaussian(rand), 240 + gaussian(rand), 1.2, 60]);
+        const { mean } = track(measurements);
+        expect(Math.abs(mean[0] - 320)).toBeLessThan(1.5);
+        expect(Math.abs(mean[1] - 240)).toBeLessThan(1.5);
+        expect(Math.abs(mean[4])).toBeLessThan(0.3);
+        expect(Math.abs(mean[5])).toBeLessThan(0.3);
+    });
+
+    it('shrinks the velocity uncertainty as measurements arrive', () => {
+        const kf = new KalmanFilter();
+        const initial = kf.initiate([50, 50, 0.6, 100]).covariance;
+        const { covariance } = track(Array.from({ length: 20 }, (_, t) => [50 + 2 * t, 50, 0.6, 100]));
+        expect(covariance[4][4]).toBeLessThan(initial[4][4]);
+        expect(covariance[5][5]).toBeLessThan(initial[5][5]);
+    });
+
+    it('keeps the covariance symmetric through predict / update', () => {
+        const { covariance } = track(Array.from({ length: 10 }, (_, t) => [10 * t, 5 * t, 0.4, 50 + t]));
+        expectMatrixClose(covariance, transpose(covariance), 9);
+    });
+});
+
+describe('gatingDistance', () => {
+    const kf = new KalmanFilter();
+
+    it('is zero at the projected mean and grows with the offset', () => {
+        const initial = kf.initiate([100, 100, 0.5, 80]);
+        const { mean, covariance } = kf.predict(initial.mean, initial.covariance);
+        const near = kf.gatingDistance(mean, covariance, [102, 100, 0.5, 80]);
+        const far = kf.gatingDistance(mean, covariance, [120, 100, 0.5, 80]);
+        expect(kf.gatingDistance(mean, covariance, mean.slice(0, 4))).toBeCloseTo(0, 9);
+        expect(near).toBeGreaterThan(0);
+        expect(far).toBeGreaterThan(near);
+    });
+
+    it('matches the closed form for position-only gating', () => {
+        const mean = [100, 100, 0.5, 80, 0, 0, 0, 0];
+        const covariance = diag([16, 9, 1e-4, 16, 1, 1, 1e-10, 1]);
+        // S = P + R with R = (h / 20)^2 = 16 on cx, cy
+        const expected = 6 * 6 / (16 + 16) + 4 * 4 / (9 + 16);
+        expect(kf.gatingDistance(mean, covariance, [106, 104, 0.5, 80], true)).toBeCloseTo(expected, 9);
+    });
+
+    it('admits the next point of a tracked trajectory and rejects a jump', () => {
+        const measurements = Array.from({ length: 30 }, (_, t) => [100 + 4 * t, 300, 0.5, 80]);
+        const { kf: filter, mean, covariance } = track(measurements);
+        const predicted = filter.predict(mean, covariance);
+        expect(filter.gatingDistance(predicted.mean, predicted.covariance, [100 + 4 * 30, 300, 0.5, 80])).toBeLessThan(CHI2_INV_95[4]);
+        expect(filter.gatingDistance(predicted.mean, predicted.covariance, [100 + 4 * 30 + 60, 300, 0.5, 80])).toBeGreaterThan(CHI2_INV_95[4]);
+    });
+});
@@ -0,0 +1,188 @@
+// --- Constant-Velocity Kalman Filter (ByteTrack / DeepSORT formulation) ---
+// State: [cx, cy, a, h, vx, vy, va, vh] with a = w / h. Measurement: [cx, cy, a, h].
+// Noise scales with box height (std_weight_position / std_weight_velocity) so near and
+// far vehicles get comparable relative uncertainty.
+
+export type Matrix = number[][];
+
+// 0.95 quantile of the chi-square distribution, indexed by degrees of freedom
+export const CHI2_INV_95: Record<number, number> = {
+    1: 3.8415, 2: 5.9915, 3: 7.8147, 4: 9.4877,
+    5: 11.070, 6: 12.592, 7: 14.067, 8: 15.507, 9: 16.919
+};
+
+// --- Small dense matrix helpers ---
+export function zeros(rows: number, cols: number): Matrix {
+    return Array.from({ length: rows }, () => new Array(cols).fill(0));
+}
+
+export function identity(n: number): Matrix {
+    const m = zeros(n, n);
+    for (let i = 0; i < n; i++) m[i][i] = 1;
+    return m;
+}
+
+export function diag(values: number[]): Matrix {
+    const m = zeros(values.length, values.length);
+    values.forEach((v, i) => m[i][i] = v);
+    return m;
+}
+
+export function transpose(a: Matrix): Matrix {
+    return a[0].map((_, j) => a.map(row => row[j]));
+}
+
+export function matMul(a: Matrix, b: Matrix): Matrix {
+    const rows = a.length, inner = b.length, cols = b[0].length;
+    const out = zeros(rows, cols);
+    for (let i = 0; i < rows; i++) {
+        for (let k = 0; k < inner; k++) {
+            const aik = a[i][k];
+            if (aik === 0) continue;
+            for (let j = 0; j < cols; j++) out[i][j] += aik * b[k][j];
+        }
+    }
+    return out;
+}
+
+export function matVec(a: Matrix, v: number[]): number[] {
+    return a.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+}
+
+export function matAdd(a: Matrix, b: Matrix): Matrix {
+    return a.map((row, i) => row.map((x, j) => x + b[i][j]));
+}
+
+export function matSub(a: Matrix, b: Matrix): Matrix {
+    return a.map((row, i) => row.map((x, j) => x - b[i][j]));
+}
+
+// Inverse of a symmetric positive-definite matrix via Cholesky (innovation covariance)
+export function invertSPD(a: Matrix): Matrix {
+    const n = a.length;
+    const L = zeros(n, n);
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = a[i][j];
+            for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+            if (i === j) {
+                L[i][i] = Math.sqrt(Math.max(sum, 1e-12));
+            } else {
+                L[i][j] = sum / L[j][j];
+            }
+        }
+    }
+
+    // inv(L) by forward substitution, then inv(A) = inv(L)^T inv(L)
+    const Linv = zeros(n, n);
+    for (let i = 0; i < n; i++) {
+        Linv[i][i] = 1 / L[i][i];
+        for (let j = 0; j < i; j++) {
+            let sum = 0;
+            for (let k = j; k < i; k++) sum -= L[i][k] * Linv[k][j];
+            Linv[i][j] = sum / L[i][i];
+        }
+    }
+    return matMul(transpose(Linv), Linv);
+}
+
+// --- Filter ---
+export class KalmanFilter {
+    static readonly STD_WEIGHT_POSITION = 1 / 20;
+    static readonly STD_WEIGHT_VELOCITY = 1 / 160;
+
+    private static readonly NDIM = 4;
+    private readonly F: Matrix; // Transition (dt = 1 tracker step)
+    private readonly H: Matrix; // Measurement projection
+
+    constructor() {
+        const n = KalmanFilter.NDIM;
+        this.F = identity(2 * n);
+        for (let i = 0; i < n; i++) this.F[i][n + i] = 1;
+        this.H = zeros(n, 2 * n);
+        for (let i = 0; i < n; i++) this.H[i][i] = 1;
+    }
+
+    // New track from an unassociated measurement [cx, cy, a, h]
+    initiate(measurement: number[]): { mean: number[], covariance: Matrix } {
+        const h = measurement[3];
+        const wp = KalmanFilter.STD_WEIGHT_POSITION;
+        const wv = KalmanFilter.STD_WEIGHT_VELOCITY;
+        const std = [
+            2 * wp * h, 2 * wp * h, 1e-2, 2 * wp * h,
+            10 * wv * h, 10 * wv * h, 1e-5, 10 * wv * h
+        ];
+        return {
+            mean: [...measurement, 0, 0, 0, 0],
+            covariance: diag(std.map(s => s * s))
+        };
+    }
+
+    // x = F x, P = F P F^T + Q
+    predict(mean: number[], covariance: Matrix): { mean: number[], covariance: Matrix } {
+        const h = mean[3];
+        const wp = KalmanFilter.STD_WEIGHT_POSITION;
+        const wv = KalmanFilter.STD_WEIGHT_VELOCITY;
+        const std = [
+            wp * h, wp * h, 1e-2, wp * h,
+            wv * h, wv * h, 1e-5, wv * h
+        ];
+        const Q = diag(std.map(s => s * s));
+        return {
+            mean: matVec(this.F, mean),
+            covariance: matAdd(matMul(matMul(this.F, covariance), transpose(this.F)), Q)
+        };
+    }
+
+    // Measurement-space distribution: (H x, S = H P H^T + R)
+    project(mean: number[], covariance: Matrix): { mean: number[], covariance: Matrix } {
+        const h = mean[3];
+        const wp = KalmanFilter.STD_WEIGHT_POSITION;
+        const std = [wp * h, wp * h, 1e-1, wp * h];
+        const R = diag(std.map(s => s * s));
+        return {
+            mean: matVec(this.H, mean),
+            covariance: matAdd(matMul(matMul(this.H, covariance), transpose(this.H)), R)
+        };
+    }
+
+    // K = P H^T S^-1, x += K (z - H x), P -= K S K^T
+    update(mean: number[], covariance: Matrix, measurement: number[]): { mean: number[], covariance: Matrix } {
+        const projected = this.project(mean, covariance);
+        const S = projected.covariance;
+        const K = matMul(matMul(covariance, transpose(this.H)), invertSPD(S));
+        const innovation = measurement.map((z, i) => z - projected.mean[i]);
+
+        const correction = matVec(K, innovation);
+        return {
+            mean: mean.map((x, i) => x + correction[i]),
+            covariance: matSub(covariance, matMul(matMul(K, S), transpose(K)))
+        };
+    }
+
+    // Squared Mahalanobis distance of a measurement to the predicted state
+    // (onlyPosition compares cx, cy only → 2 degrees of freedom)
+    gatingDistance(mean: number[], covariance: Matrix, measurement: number[], onlyPosition = false): number {
+        const projected = this.project(mean, covariance);
+        let S = projected.covariance;
+        let d = measurement.map((z, i) => z - projected.mean[i]);
+        if (onlyPosition) {
+            S = [S[0].slice(0, 2), S[1].slice(0, 2)];
+            d = d.slice(0, 2);
+        }
+        const Sinv = invertSPD(S);
+        const Sd = matVec(Sinv, d);
+        return d.reduce((sum, x, i) => sum + x * Sd[i], 0);
+    }
+}
+
+// bbox [x, y, w, h] (top-left) <-> measurement [cx, cy, a, h]
+export function bboxToXyah(bbox: [number, number, number, number]): number[] {
+    return [bbox[0] + bbox[2] / 2, bbox[1] + bbox[3] / 2, bbox[2] / Math.max(bbox[3], 1e-6), bbox[3]];
+}
+
+export function xyahToBbox(state: number[]): [number, number, number, number] {
+    const [cx, cy, a, h] = state;
+    const w = a * h;
+    return [cx - w / 2, cy - h / 2, w, h];
+}
@@ -0,0 +1,195 @@
+// --- Track Kinematics (media-time regression on the ground plane) ---
+// Speed, acceleration and heading of a track from its measured ground positions only
+// (points extrapolated on skipped frames are left out), timed with the media time of the
+// frame each detection came from, so playback rate, dropped ticks and detectionSkip do not
+// bias the result. Each ground axis is fitted with a Huber-weighted polynomial over a
+// sliding window; the parameter covariance gives the 1σ uncertainty quoted with the speed.
+import { Vec2 } from './zone-geometry';
+
+export interface KinematicSample {
+    t: number;      // Media time (s) of the detection frame
+    position: Vec2; // Ground position (m)
+}
+
+export interface KinematicEstimate {
+    speed: number;                    // m/s at the newest sample
+    speedSigma: number;               // 1σ, m/s
+    acceleration: number | null;      // m/s² along the heading (null below quadraticMinSamples)
+    accelerationSigma: number | null;
+    heading: number;                  // Degrees from the calibrated lane axis (+Y), positive towards +X
+    headingSigma: number;             // 1σ, degrees
+    samples: number;                  // Measured points in the window
+    inliers: number;                  // Points within 3 robust sigmas on both axes
+    span: number;                     // Seconds covered by the window
+}
+
+export interface KinematicOptions {
+    windowSeconds: number;
+    minSamples: number;
+    minSpan: number;             // Seconds
+    quadraticMinSamples: number; // Below this only a constant-velocity line is fitted
+    huberK: number;              // Huber threshold in robust sigmas
+    iterations: number;          // IRLS passes
+    noiseFloor: number;          // Meters: lower bound of the residual scale
+}
+
+export const DEFAULT_KINEMATIC_OPTIONS: KinematicOptions = {
+    windowSeconds: 1.5,
+    minSamples: 3,
+    minSpan: 0.2,
+    quadraticMinSamples: 6,
+    huberK: 1.345,
+    iterations: 5,
+    noiseFloor: 0.05
+};
+
+// Newest run of strictly increasing media times inside the window. Repeated frames are
+// skipped; a jump back in time (looped file, seek) ends the run.
+export function recentWindow(samples: KinematicSample[], windowSeconds: number): KinematicSample[] {
+    const run: KinematicSample[] = []; // Newest first
+    for (let i = samples.length - 1; i >= 0; i--) {
+        const s = samples[i];
+        if (run.length > 0) {
+            const later = run[run.length - 1];
+            if (s.t === later.t) continue;
+            if (s.t > later.t || run[0].t - s.t > windowSeconds) break;
+        }
+        run.push(s);
+    }
+    return run.reverse();
+}
+
+export function estimateKinematics(samples: KinematicSample[], options: KinematicOptions = DEFAULT_KINEMATIC_OPTIONS): KinematicEstimate | null {
+    const window = recentWindow(samples, options.windowSeconds);
+    if (window.length < options.minSamples) return null;
+    const tLast = window[window.length - 1].t;
+    const span = tLast - window[0].t;
+    if (span < options.minSpan) return null;
+
+    // Time relative to the newest sample: the slope is the velocity "now"
+    const ts = window.map(s => s.t - tLast);
+    const degree = window.length >= options.quadraticMinSamples ? 2 : 1;
+    const fx = robustFit(ts, window.map(s => s.position.x), degree, options);
+    const fy = robustFit(ts, window.map(s => s.position.y), degree, options);
+    if (!fx || !fy) return null;
+
+    const vx = fx.coef[1];
+    const vy = fy.coef[1];
+    const varVx = fx.cov[1][1];
+    const varVy = fy.cov[1][1];
+    const speed = Math.hypot(vx, vy);
+    const moving = speed > 1e-6;
+
+    const speedSigma = moving
+        ? Math.sqrt(vx * vx * varVx + vy * vy * varVy) / speed
+        : Math.sqrt(Math.max(varVx, varVy));
+    const heading = moving ? Math.atan2(vx, vy) * 180 / Math.PI : 0;
+    const headingSigma = moving
+        ? Math.min(180, Math.sqrt(vy * vy * varVx + vx * vx * varVy) / (speed * speed) * 180 / Math.PI)
+        : 180;
+
+    let acceleration: number | null = null;
+    let accelerationSigma: number | null = null;
+    if (degree === 2) {
+        const ax = 2 * fx.coef[2];
+        const ay = 2 * fy.coef[2];
+        const varAx = 4 * fx.cov[2][2];
+        const varAy = 4 * fy.cov[2][2];
+        if (moving) {
+            acceleration = (ax * vx + ay * vy) / speed;
+            accelerationSigma = Math.sqrt(vx * vx * varAx + vy * vy * varAy) / speed;
+        } else {
+            acceleration = Math.hypot(ax, ay);
+            accelerationSigma = Math.sqrt(Math.max(varAx, varAy));
+        }
+    }
+
+    const inliers = window.filter((_, i) => fx.inlier[i] && fy.inlier[i]).length;
+    return { speed, speedSigma, acceleration, accelerationSigma, heading, headingSigma, samples: window.length, inliers, span };
+}
+
+// --- Robust polynomial fit (IRLS with Huber weights) ---
+interface AxisFit {
+    coef: number[];     // c0 + c1 t + c2 t²
+    cov: number[][];    // Parameter covariance
+    inlier: boolean[];
+}
+
+function robustFit(ts: number[], ys: number[], degree: number, options: KinematicOptions): AxisFit | null {
+    const n = ts.length;
+    const p = degree + 1;
+    let weights = new Array(n).fill(1);
+    let fit = weightedPolyfit(ts, ys, weights, p);
+    if (!fit) return null;
+
+    let scale = options.noiseFloor;
+    for (let iter = 0; iter < options.iterations; iter++) {
+        const residuals = ys.map((y, i) => y - evaluate(fit!.coef, ts[i]));
+        scale = Math.max(options.noiseFloor, 1.4826 * median(residuals.map(Math.abs)));
+        weights = residuals.map(r => {
+            const u = Math.abs(r) / scale;
+            return u <= options.huberK ? 1 : options.huberK / u;
+        });
+        const next = weightedPolyfit(ts, ys, weights, p);
+        if (!next) break;
+        fit = next;
+    }
+
+    const residuals = ys.map((y, i) => y - evaluate(fit!.coef, ts[i]));
+    const dof = n - p;
+    const weighted = residuals.reduce((s, r, i) => s + weights[i] * r * r, 0);
+    const variance = Math.max(options.noiseFloor * options.noiseFloor, dof > 0 ? weighted / dof : 0);
+    return {
+        coef: fit.coef,
+        cov: fit.inverse.map(row => row.map(v => v * variance)),
+        inlier: residuals.map(r => Math.abs(r) <= 3 * scale)
+    };
+}
+
+function weightedPolyfit(ts: number[], ys: number[], ws: number[], p: number): { coef: number[]; inverse: number[][] } | null {
+    const A = Array.from({ length: p }, () => new Array(p).fill(0));
+    const b = new Array(p).fill(0);
+    ts.forEach((t, i) => {
+        const basis = [1, t, t * t].slice(0, p);
+        for (let j = 0; j < p; j++) {
+            b[j] += ws[i] * basis[j] * ys[i];
+            for (let k = 0; k < p; k++) A[j][k] += ws[i] * basis[j] * basis[k];
+        }
+    });
+    const inverse = invert(A);
+    if (!inverse) return null;
+    const coef = inverse.map(row => row.reduce((s, v, k) => s + v * b[k], 0));
+    return { coef, inverse };
+}
+
+// Gauss-Jordan inverse of a small matrix; null when singular
+function invert(M: number[][]): number[][] | null {
+    const n = M.length;
+    const A = M.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+        }
+        if (Math.abs(A[pivot][col]) < 1e-12) return null;
+        [A[col], A[pivot]] = [A[pivot], A[col]];
+        const d = A[col][col];
+        for (let c = 0; c < 2 * n; c++) A[col][c] /= d;
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue;
+            const f = A[r][col];
+            for (let c = 0; c < 2 * n; c++) A[r][c] -= f * A[col][c];
+        }
+    }
+    return A.map(row => row.slice(n));
+}
+
+function evaluate(coef: number[], t: number): number {
+    return coef.reduce((s, c, k) => s + c * Math.pow(t, k), 0);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { AssignmentResult, greedyAssignment, hungarianAssignment, linearAssignment } from './linear-assignment';
+
+function random(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Objective the solver minimizes: matched costs plus maxCost / 2 for every row or column left out
+function objective(cost: number[][], maxCost: number, matches: [number, number][]): number {
+    const rows = cost.length;
+    const cols = rows > 0 ? cost[0].length : 0;
+    const matched = matches.reduce((sum, [i, j]) => sum + cost[i][j], 0);
+    return matched + (maxCost / 2) * (rows + cols - 2 * matches.length);
+}
+
+// Every partial matching over pairs within maxCost
+function bruteForce(cost: number[][], maxCost: number): number {
+    const cols = cost.length > 0 ? cost[0].length : 0;
+    let best = Infinity;
+    const search = (i: number, used: Set<number>, matches: [number, number][]) => {
+        if (i === cost.length) {
+            best = Math.min(best, objective(cost, maxCost, matches));
+            return;
+        }
+        search(i + 1, used, matches);
+        for (let j = 0; j < cols; j++) {
+            if (used.has(j) || !(cost[i][j] <= maxCost)) continue;
+            used.add(j);
+            search(i + 1, used, [...matches, [i, j]]);
+            used.delete(j);
+        }
+    };
+    search(0, new Set(), []);
+    return best;
+}
+
+// Matches are one-to-one and the unmatched lists are exactly the complement
+function expectConsistent(result: AssignmentResult, rows: number, cols: number) {
+    const matchedRows = result.matches.map(([i]) => i);
+    const matchedCols = result.matches.map(([, j]) => j);
+    expect(new Set(matchedRows).size).toBe(matchedRows.length);
+    expect(new Set(matchedCols).size).toBe(matchedCols.length);
+    expect([...matchedRows, ...result.unmatchedRows].sort((a, b) => a - b)).toEqual(Array.from({ length: rows }, (_, i) => i));
+    expect([...matchedCols, ...result.unmatchedCols].sort((a, b) => a - b)).toEqual(Array.from({ length: cols }, (_, j) => j));
+}
+
+describe('hungarianAssignment', () => {
+    it('matches brute force on random square and rectangular matrices', () => {
+        const rand = random(11);
+        for (let trial = 0; trial < 300; trial++) {
+            const rows = 1 + Math.floor(rand() * 5);
+            const cols = 1 + Math.floor(rand() * 5);
+            const cost = Array.from({ length: rows }, () => Array.from({ length: cols }, () => Math.round(rand() * 100) / 100));
+            const maxCost = 0.2 + rand() * 0.8;
+
+            const result = hungarianAssignment(cost, maxCost);
+            expectConsistent(result, rows, cols);
+            expect(objective(cost, maxCost, result.matches)).toBeCloseTo(bruteForce(cost, maxCost), 9);
+        }
+    });
+
+    it('never matches a pair above maxCost', () => {
+        const cost = [
+            [0.9, 0.1],
+            [0.2, 0.95]
+        ];
+        const result = hungarianAssignment(cost, 0.5);
+        expect(result.matches).toEqual([[0, 1], [1, 0]]);
+
+        const gated = hungarianAssignment([[0.6, 0.7], [0.8, 0.9]], 0.5);
+        expect(gated.matches).toEqual([]);
+        expect(gated.unmatchedRows).toEqual([0, 1]);
+        expect(gated.unmatchedCols).toEqual([0, 1]);
+    });
+
+    it('treats non-finite costs as forbidden', () => {
+        const result = hungarianAssignment([[Infinity, 0.3], [NaN, Infinity]], 1);
+        expect(result.matches).toEqual([[0, 1]]);
+        expect(result.unmatchedRows).toEqual([1]);
+        expect(result.unmatchedCols).toEqual([0]);
+    });
+
+    it('handles more rows than columns and more columns than rows', () => {
+        const tall = hungarianAssignment([[0.5], [0.1], [0.3]], 1);
+        expect(tall.matches).toEqual([[1, 0]]);
+        expect(tall.unmatchedRows).toEqual([0, 2]);
+
+        const wide = hungarianAssignment([[0.5, 0.1, 0.3]], 1);
+        expect(wide.matches).toEqual([[0, 1]]);
+        expect(wide.unmatchedCols).toEqual([0, 2]);
+    });
+
+    it('returns everything unmatched for empty matrices', () => {
+        expect(hungarianAssignment([], 1)).toEqual({ matches: [], unmatchedRows: [], unmatchedCols: [] });
+        expect(hungarianAssignment([[], []], 1)).toEqual({ matches: [], unmatchedRows: [0, 1], unmatchedCols: [] });
+    });
+
+    it('beats greedy where the cheapest pair is not part of the optimum', () => {
+        // Greedy takes (0,0) = 0.1 and is left with (1,1) = 0.9; the optimum crosses over
+        const cost = [
+            [0.1, 0.2],
+            [0.2, 0.9]
+        ];
+        const greedy = greedyAssignment(cost, 1);
+        const optimal = hungarianAssignment(cost, 1);
+        expect(greedy.matches).toEqual([[0, 0], [1, 1]]);
+        expect(optimal.matches).toEqual([[0, 1], [1, 0]]);
+        expect(objective(cost, 1, optimal.matches)).toBeLessThan(objective(cost, 1, greedy.matches));
+    });
+
+    it('matches more pairs than greedy when gating leaves greedy stranded', () => {
+        // Greedy grabs (0,0) and row 1 has no other admissible column
+        const cost = [
+            [0.1, 0.3],
+            [0.2, 0.8]
+        ];
+        expect(greedyAssignment(cost, 0.5).matches).toEqual([[0, 0]]);
+        expect(hungarianAssignment(cost, 0.5).matches).toEqual([[0, 1], [1, 0]]);
+    });
+});
+
+describe('linearAssignment', () => {
+    it('dispatches on the method', () => {
+        const cost = [[0.1, 0.2], [0.2, 0.9]];
+        expect(linearAssignment(cost, 1, 'greedy')).toEqual(greedyAssignment(cost, 1));
+        expect(linearAssignment(cost, 1)).toEqual(hungarianAssignment(cost, 1));
+    });
+});
@@ -0,0 +1,158 @@
+// --- Linear Assignment (track ↔ detection association) ---
+// Shared by ByteTracker and BoTSORT. `hungarian` gives the globally optimal matching,
+// `greedy` keeps the old best-pair-first behaviour for side-by-side comparison.
+
+export type AssignmentMethod = 'greedy' | 'hungarian';
+
+export interface AssignmentResult {
+    matches: [number, number][]; // [row, col]
+    unmatchedRows: number[];
+    unmatchedCols: number[];
+}
+
+const FORBIDDEN = 1e9;
+
+// Hungarian algorithm with potentials (shortest augmenting path), square matrix, O(n^3)
+function solveSquare(cost: number[][]): number[] {
+    const n = cost.length;
+    const u = new Array(n + 1).fill(0);
+    const v = new Array(n + 1).fill(0);
+    const p = new Array(n + 1).fill(0);   // p[j] = row assigned to column j (1-based)
+    const way = new Array(n + 1).fill(0);
+
+    for (let i = 1; i <= n; i++) {
+        p[0] = i;
+        let j0 = 0;
+        const minv = new Array(n + 1).fill(Infinity);
+        const used = new Array(n + 1).fill(false);
+
+        do {
+            used[j0] = true;
+            const i0 = p[j0];
+            let delta = Infinity;
+            let j1 = 0;
+            for (let j = 1; j <= n; j++) {
+                if (used[j]) continue;
+                const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+                if (cur < minv[j]) {
+                    minv[j] = cur;
+                    way[j] = j0;
+                }
+                if (minv[j] < delta) {
+                    delta = minv[j];
+                    j1 = j;
+                }
+            }
+            for (let j = 0; j <= n; j++) {
+                if (used[j]) {
+                    u[p[j]] += delta;
+                    v[j] -= delta;
+                } else {
+                    minv[j] -= delta;
+                }
+            }
+            j0 = j1;
+        } while (p[j0] !== 0);
+
+        do {
+            const j1 = way[j0];
+            p[j0] = p[j1];
+            j0 = j1;
+        } while (j0);
+    }
+
+    const rowToCol = new Array(n).fill(-1);
+    for (let j = 1; j <= n; j++) {
+        if (p[j] > 0) rowToCol[p[j] - 1] = j - 1;
+    }
+    return rowToCol;
+}
+
+// Optimal assignment minimizing total cost; pairs costing more than maxCost are never matched.
+// The matrix is padded with "unmatched" slots costing maxCost / 2 per side (lapjv cost_limit),
+// so a pair is only kept when it is cheaper than leaving both of its ends unmatched.
+export function hungarianAssignment(cost: number[][], maxCost: number): AssignmentResult {
+    const rows = cost.length;
+    const cols = rows > 0 ? cost[0].length : 0;
+    if (rows === 0 || cols === 0) {
+        return { matches: [], unmatchedRows: Array.from({ length: rows }, (_, i) => i), unmatchedCols: Array.from({ length: cols }, (_, j) => j) };
+    }
+
+    const n = rows + cols;
+    const half = maxCost / 2;
+    const padded: number[][] = [];
+    for (let i = 0; i < n; i++) {
+        const row = new Array(n);
+        for (let j = 0; j < n; j++) {
+            if (i < rows && j < cols) {
+                const c = cost[i][j];
+                row[j] = c <= maxCost && Number.isFinite(c) ? c : FORBIDDEN;
+            } else if (i < rows) {
+                row[j] = j - cols === i ? half : FORBIDDEN;      // row i left unmatched
+            } else if (j < cols) {
+                row[j] = i - rows === j ? half : FORBIDDEN;      // column j left unmatched
+            } else {
+                row[j] = 0;
+            }
+        }
+        padded.push(row);
+    }
+
+    const rowToCol = solveSquare(padded);
+    const matches: [number, number][] = [];
+    const matchedCols = new Set<number>();
+    const unmatchedRows: number[] = [];
+
+    for (let i = 0; i < rows; i++) {
+        const j = rowToCol[i];
+        if (j >= 0 && j < cols && cost[i][j] <= maxCost) {
+            matches.push([i, j]);
+            matchedCols.add(j);
+        } else {
+            unmatchedRows.push(i);
+        }
+    }
+
+    const unmatchedCols: number[] = [];
+    for (let j = 0; j < cols; j++) {
+        if (!matchedCols.has(j)) unmatchedCols.push(j);
+    }
+
+    return { matches, unmatchedRows, unmatchedCols };
+}
+
+// Cheapest pair first; fast but can swap IDs in dense queues
+export function greedyAssignment(cost: number[][], maxCost: number): AssignmentResult {
+    const rows = cost.length;
+    const cols = rows > 0 ? cost[0].length : 0;
+    const candidates: { i: number, j: number, c: number }[] = [];
+
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            if (cost[i][j] <= maxCost) candidates.push({ i, j, c: cost[i][j] });
+        }
+    }
+    candidates.sort((a, b) => a.c - b.c);
+
+    const usedRows = new Set<number>();
+    const usedCols = new Set<number>();
+    const matches: [number, number][] = [];
+
+    candidates.forEach(({ i, j }) => {
+        if (!usedRows.has(i) && !usedCols.has(j)) {
+            matches.push([i, j]);
+            usedRows.add(i);
+            usedCols.add(j);
+        }
+    });
+
+    return {
+        matches,
+        unmatchedRows: Array.from({ length: rows }, (_, i) => i).filter(i => !usedRows.has(i)),
+        unmatchedCols: Array.from({ length: cols }, (_, j) => j).filter(j => !usedCols.has(j))
+    };
+}
+
+export function linearAssignment(cost: number[][], maxCost: number, method: AssignmentMethod = 'hungarian'): AssignmentResult {
+    return method === 'greedy' ? greedyAssignment(cost, maxCost) : hungarianAssignment(cost, maxCost);
+}
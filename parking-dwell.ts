@@ -0,0 +1,262 @@
+// --- Parking Dwell (loading zones and no-parking areas) ---
+// A vehicle that merely drives through a loading bay is not parked. Per zone, a track
+// starts a stay when its ground point stops moving (stays within a small radius for
+// settleSeconds); the stay survives brief occlusions: when the track is lost it is kept
+// for occlusionGraceSeconds and handed over to a track that reappears at the same spot.
+// The allowed time comes from [ESTACIONAMIENTO: ...] rules per zone and time of day.
+// Dwell is measured in the video's media time, so pausing or seeking a file never adds
+// parked time; the schedule is checked against the recording clock of the observed frame.
+import { Vec2 } from './zone-geometry';
+
+export type ParkingZoneType = 'loading-zone' | 'no-parking';
+
+// Minutes allowed when a zone has no rule of its own (no-parking: a brief stop only)
+export const DEFAULT_ALLOWED_MINUTES: Record<ParkingZoneType, number> = {
+    'loading-zone': 30,
+    'no-parking': 2
+};
+
+export interface ParkingRule {
+    zone: string;       // Zone label
+    maxMinutes: number; // 0 = no stopping at all
+    from: number;       // Minutes after midnight (inclusive)
+    to: number;         // Minutes after midnight (exclusive); from > to wraps past midnight
+    directive: string;  // Source [ESTACIONAMIENTO: ...] text
+}
+
+export interface ParkingPolicy {
+    stationaryMeters: number;      // Calibrated: max drift of the ground point while parked
+    stationaryImage: number;       // Same in 0-1000 units when the camera is not calibrated
+    settleSeconds: number;         // Stationary this long before the stay counts
+    occlusionGraceSeconds: number; // A lost stay is kept this long
+    rematchMeters: number;         // Radius for handing a lost stay to a new track
+    rematchImage: number;
+}
+
+export const DEFAULT_PARKING_POLICY: ParkingPolicy = {
+    stationaryMeters: 1.0,
+    stationaryImage: 12,
+    settleSeconds: 5,
+    occlusionGraceSeconds: 20,
+    rematchMeters: 2.0,
+    rematchImage: 25
+};
+
+export interface ParkingStay {
+    zone: string;
+    trackId: number | null;      // null while the vehicle is occluded / its track was lost
+    anchor: Vec2;                // Image ground point (0-1000) where it stopped
+    groundAnchor: Vec2 | null;   // Same on the calibrated road plane (m)
+    startT: number;              // Media time (s): first observation at the anchor
+    lastT: number;               // Media time (s) of the last observation
+    startedAt: number;           // Recording clock (ms epoch) at startT
+    lastSeen: number;            // Recording clock (ms epoch) at lastT
+    settled: boolean;            // Stationary for settleSeconds
+    startSnapshot: string | null;
+    occlusions: number;          // Times the stay survived losing its track
+    reported: boolean;
+}
+
+export interface ParkingViolation {
+    zone: string;
+    zoneType: ParkingZoneType;
+    trackId: number;
+    startedAt: number; // Recording clock (ms epoch)
+    endedAt: number;
+    dwellSeconds: number; // Media time between start and end
+    allowedMinutes: number;
+    rule: string | null; // Directive that set the limit (null = zone type default)
+    occlusions: number;
+    startSnapshot: string | null;
+    endSnapshot: string | null;
+}
+
+// --- Rules ---
+
+function minutesOfDay(date: Date): number {
+    return date.getHours() * 60 + date.getMinutes();
+}
+
+function inWindow(rule: ParkingRule, minute: number): boolean {
+    if (rule.from === rule.to) return true; // Whole day
+    return rule.from < rule.to
+        ? minute >= rule.from && minute < rule.to
+        : minute >= rule.from || minute < rule.to;
+}
+
+// Limit in force for a zone at a given time: the strictest matching rule; the type default
+// when the zone has no rules; null (unrestricted) when it has rules but none applies now
+export function allowedMinutes(rules: ParkingRule[], zone: string, zoneType: ParkingZoneType, date: Date): { minutes: number; rule: ParkingRule | null } | null {
+    const own = rules.filter(r => r.zone === zone);
+    if (own.length === 0) return { minutes: DEFAULT_ALLOWED_MINUTES[zoneType], rule: null };
+    const minute = minutesOfDay(date);
+    const active = own.filter(r => inWindow(r, minute));
+    if (active.length === 0) return null;
+    const strictest = active.reduce((a, b) => (b.maxMinutes < a.maxMinutes ? b : a));
+    return { minutes: strictest.maxMinutes, rule: strictest };
+}
+
+// --- Stays per zone ---
+export class ParkingMonitor {
+    policy: ParkingPolicy = { ...DEFAULT_PARKING_POLICY };
+
+    private stays = new Map<string, ParkingStay[]>(); // zoneId -> stays
+    private lastT = -Infinity; // Newest media time observed
+
+    // Record a measured ground point of a track inside a parking zone at media time at.t (s),
+    // recorded at at.wall (ms epoch). Returns a violation the first time a settled stay exceeds
+    // the limit (null = no limit at this time of day).
+    observe(
+        zoneId: string,
+        zone: { label: string; type: ParkingZoneType },
+        trackId: number,
+        foot: Vec2,
+        ground: Vec2 | null,
+        at: { t: number; wall: number },
+        limit: { minutes: number; rule: ParkingRule | null } | null,
+        snapshot: () => string | null
+    ): ParkingViolation | null {
+        this.advance(at.t);
+        let stays = this.stays.get(zoneId);
+        if (!stays) {
+            stays = [];
+            this.stays.set(zoneId, stays);
+        }
+
+        let stay = stays.find(s => s.trackId === trackId);
+        // Reappearing after an occlusion: adopt a lost settled stay at the same spot
+        if (!stay) {
+            stay = stays.find(s => s.settled && (s.trackId === null || at.t - s.lastT > 1)
+                && this.near(s, foot, ground, this.policy.rematchMeters, this.policy.rematchImage));
+            if (stay) {
+                stay.trackId = trackId;
+                stay.occlusions++;
+            }
+        }
+
+        // Moved away from the anchor: the vehicle is driving, start over from here
+        if (stay && !this.near(stay, foot, ground, this.policy.stationaryMeters, this.policy.stationaryImage)) {
+            stays.splice(stays.indexOf(stay), 1);
+            stay = undefined;
+        }
+        if (!stay) {
+            stay = {
+                zone: zone.label, trackId, anchor: foot, groundAnchor: ground, startT: at.t, lastT: at.t,
+                startedAt: at.wall, lastSeen: at.wall, settled: false, startSnapshot: null, occlusions: 0, reported: false
+            };
+            stays.push(stay);
+        }
+        stay.lastT = at.t;
+        stay.lastSeen = at.wall;
+        const dwell = at.t - stay.startT;
+
+        if (!stay.settled && dwell >= this.policy.settleSeconds) {
+            stay.settled = true;
+            stay.startSnapshot = snapshot();
+        }
+
+        if (!stay.settled || stay.reported || !limit || dwell <= limit.minutes * 60) return null;
+        stay.reported = true;
+        return {
+            zone: zone.label,
+            zoneType: zone.type,
+            trackId,
+            startedAt: stay.startedAt,
+            endedAt: at.wall,
+            dwellSeconds: dwell,
+            allowedMinutes: limit.minutes,
+            rule: limit.rule?.directive || null,
+            occlusions: stay.occlusions,
+            startSnapshot: stay.startSnapshot,
+            endSnapshot: snapshot()
+        };
+    }
+
+    // Track seen outside the zone: its stay ends unless it is still at the anchor (box jitter at the edge)
+    leave(zoneId: string, trackId: number, foot: Vec2, ground: Vec2 | null) {
+        const stays = this.stays.get(zoneId);
+        if (!stays) return;
+        this.stays.set(zoneId, stays.filter(s => s.trackId !== trackId
+            || this.near(s, foot, ground, this.policy.stationaryMeters, this.policy.stationaryImage)));
+    }
+
+    // Settled stays in a zone (parked vehicles, occluded ones included)
+    parked(zoneId: string): ParkingStay[] {
+        return (this.stays.get(zoneId) || []).filter(s => s.settled);
+    }
+
+    // Stays of tracks that no longer exist are kept as occluded until the grace period ends
+    retain(trackIds: Set<number>, t: number) {
+        this.advance(t);
+        this.stays.forEach((stays, zoneId) => {
+            const kept = stays.filter(s => {
+                if (s.trackId !== null && !trackIds.has(s.trackId)) {
+                    if (!s.settled) return false;
+                    s.trackId = null;
+                }
+                return t - s.lastT <= this.policy.occlusionGraceSeconds;
+            });
+            this.stays.set(zoneId, kept);
+        });
+    }
+
+    clear() {
+        this.stays.clear();
+        this.lastT = -Infinity;
+    }
+
+    // File looped or was seeked (media time went back, or jumped past the grace period):
+    // no stay can carry over
+    private advance(t: number) {
+        if (t < this.lastT || t - this.lastT > this.policy.occlusionGraceSeconds) this.stays.clear();
+        this.lastT = t;
+    }
+
+    private near(stay: ParkingStay, foot: Vec2, ground: Vec2 | null, meters: number, image: number): boolean {
+        if (stay.groundAnchor && ground) {
+            return Math.hypot(ground.x - stay.groundAnchor.x, ground.y - stay.groundAnchor.y) <= meters;
+        }
+        return Math.hypot(foot.x - stay.anchor.x, foot.y - stay.anchor.y) <= image;
+    }
+}
+
+// --- Directive syntax ---
+// [ESTACIONAMIENTO: ZONE=<zone label>, MAX=<minutes>, FROM=HH:MM, TO=HH:MM]
+// FROM/TO are optional (whole day); several rules per zone give different limits by hour.
+export function parseParkingDirectives(text: string): ParkingRule[] {
+    const rules: ParkingRule[] = [];
+    const regex = /\[ESTACIONAMIENTO:([^\]]+)\]/gi;
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        const fields: Record<string, string> = {};
+        match[1].split(',').forEach(part => {
+            const eq = part.indexOf('=');
+            if (eq > 0) fields[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim();
+        });
+
+        const maxMinutes = parseFloat(fields.MAX);
+        const from = fields.FROM ? parseClock(fields.FROM) : 0;
+        const to = fields.TO ? parseClock(fields.TO) : 0;
+        if (!fields.ZONE || !(maxMinutes >= 0) || from === null || to === null) continue;
+        rules.push({ zone: fields.ZONE, maxMinutes, from, to, directive: match[0] });
+    }
+    return rules;
+}
+
+export function serializeParkingRule(rule: Omit<ParkingRule, 'directive'>): string {
+    const clean = (s: string) => s.replace(/[,\]\[=]/g, ' ').replace(/\s+/g, ' ').trim();
+    const window = rule.from === rule.to ? '' : `, FROM=${formatClock(rule.from)}, TO=${formatClock(rule.to)}`;
+    return `[ESTACIONAMIENTO: ZONE=${clean(rule.zone)}, MAX=${rule.maxMinutes}${window}]`;
+}
+
+function parseClock(text: string): number | null {
+    const m = /^(\d{1,2})(?::(\d{2}))?$/.exec(text);
+    if (!m) return null;
+    const hours = parseInt(m[1]);
+    const minutes = m[2] ? parseInt(m[2]) : 0;
+    return hours <= 24 && minutes < 60 ? (hours * 60 + minutes) % 1440 : null;
+}
+
+export function formatClock(minutes: number): string {
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,178 @@
+// --- Pedestrian Priority at Crosswalks ---
+// A vehicle on a zebra crossing is only an infraction when it fails to yield to someone
+// using it. Confirmed person tracks are located by their feet (ankle keypoints of the pose
+// matched to the box, else the bottom-center of the box) and kept per crosswalk as inside
+// or entering; a vehicle that enters the crosswalk while one of them is present, and is not
+// stopped at its edge, is judged as not yielding. Without ground calibration the vehicle
+// speed is unknown: the verdict is indeterminate and never an infraction (as for STOP).
+import { PoseDetection, iou } from './yolo-tracker';
+import { Vec2, ZoneGeometry, isAreaZone, zoneContains, zoneEdges, distanceToSegment } from './zone-geometry';
+import { GroundCalibration, toGround, groundDistanceToLine } from './ground-calibration';
+
+const LEFT_ANKLE = 15;
+const RIGHT_ANKLE = 16;
+
+export interface PedestrianFoot {
+    point: Vec2;              // Normalized 0-1000 frame space
+    source: 'pose' | 'bbox';  // Ankle keypoints or box bottom-center
+}
+
+// Pose whose box overlaps the person box the most (poses come from a separate model pass)
+export function associatePose(bbox: [number, number, number, number], poses: PoseDetection[], minIou = 0.3): PoseDetection | null {
+    let best: PoseDetection | null = null;
+    let bestIou = minIou;
+    poses.forEach(pose => {
+        const overlap = iou(bbox, pose.bbox);
+        if (overlap >= bestIou) {
+            best = pose;
+            bestIou = overlap;
+        }
+    });
+    return best;
+}
+
+// Ground contact of a person: midpoint of the confident ankles, or the box bottom-center.
+// bbox and keypoints are in video pixels; the result is normalized to the 0-1000 space.
+export function pedestrianFoot(
+    bbox: [number, number, number, number],
+    poses: PoseDetection[],
+    frameWidth: number,
+    frameHeight: number,
+    minKeypointConfidence = 0.5
+): PedestrianFoot {
+    const pose = associatePose(bbox, poses);
+    const ankles = pose
+        ? [pose.keypoints[LEFT_ANKLE], pose.keypoints[RIGHT_ANKLE]].filter(kp => kp && kp.confidence >= minKeypointConfidence)
+        : [];
+    const [x, y] = ankles.length > 0
+        ? [ankles.reduce((s, kp) => s + kp.x, 0) / ankles.length, ankles.reduce((s, kp) => s + kp.y, 0) / ankles.length]
+        : [bbox[0] + bbox[2] / 2, bbox[1] + bbox[3]];
+    return {
+        point: { x: x / frameWidth * 1000, y: y / frameHeight * 1000 },
+        source: ankles.length > 0 ? 'pose' : 'bbox'
+    };
+}
+
+export interface PriorityPolicy {
+    approachMeters: number;  // Calibrated: distance outside the crosswalk that counts as entering
+    approachImage: number;   // Same in 0-1000 units when the camera is not calibrated
+    yieldSpeedKmh: number;   // A vehicle entering at or below this speed is stopped at the edge
+    maxAgeMs: number;        // Pedestrian observations older than this are ignored
+}
+
+export const DEFAULT_PRIORITY_POLICY: PriorityPolicy = {
+    approachMeters: 1.5,
+    approachImage: 25,
+    yieldSpeedKmh: 3,
+    maxAgeMs: 1500
+};
+
+export interface PedestrianPresence {
+    trackId: number;
+    state: 'inside' | 'entering';
+    foot: Vec2;
+    footSource: PedestrianFoot['source'];
+    distance: number; // To the crosswalk outline (0 inside): meters when metric, else 0-1000 units
+    metric: boolean;
+    time: number;     // ms epoch of the observation
+}
+
+export interface PriorityVerdict {
+    zone: string;
+    infraction: boolean;
+    yielded: boolean | null;        // null = indeterminate (vehicle speed unknown)
+    vehicleSpeedKmh: number | null; // null when the camera is not calibrated
+    pedestrians: PedestrianPresence[];
+}
+
+type Crosswalk = ZoneGeometry & { id?: string; label: string };
+
+interface PedestrianState {
+    distance: number;                   // Last distance, to tell approaching from walking away
+    presence: PedestrianPresence | null;
+}
+
+export class PedestrianPriorityMonitor {
+    policy: PriorityPolicy = { ...DEFAULT_PRIORITY_POLICY };
+
+    private states = new Map<string, Map<number, PedestrianState>>(); // zoneId -> person trackId -> state
+
+    // Record a measured foot position of a confirmed person track against every crosswalk
+    observe(crosswalks: Crosswalk[], trackId: number, foot: PedestrianFoot, time: number, calibration: GroundCalibration | null) {
+        const ground = calibration ? toGround(calibration, foot.point) : null;
+
+        crosswalks.forEach(zone => {
+            const zoneId = zone.id || zone.label;
+            const metricDistance = calibration && ground ? groundDistanceToLine(calibration, ground, zone) : null;
+            const metric = metricDistance !== null;
+            const distance = metric ? metricDistance : imageDistance(zone, foot.point);
+            const approach = metric ? this.policy.approachMeters : this.policy.approachImage;
+
+            let zoneStates = this.states.get(zoneId);
+            if (!zoneStates) {
+                zoneStates = new Map();
+                this.states.set(zoneId, zoneStates);
+            }
+            const previous = zoneStates.get(trackId);
+
+            // Lines have no area: the band around them is the crossing itself
+            let state: PedestrianPresence['state'] | null = null;
+            if (isAreaZone(zone) ? zoneContains(zone, foot.point) : distance <= approach) {
+                state = 'inside';
+            } else if (isAreaZone(zone) && distance <= approach && previous && distance < previous.distance) {
+                state = 'entering';
+            }
+
+            zoneStates.set(trackId, {
+                distance,
+                presence: state ? {
+                    trackId,
+                    state,
+                    foot: foot.point,
+                    footSource: foot.source,
+                    distance: state === 'inside' ? 0 : distance,
+                    metric,
+                    time
+                } : null
+            });
+        });
+    }
+
+    // Pedestrians currently inside or entering a crosswalk
+    conflicts(zoneId: string, now: number): PedestrianPresence[] {
+        const presences: PedestrianPresence[] = [];
+        this.states.get(zoneId)?.forEach(state => {
+            if (state.presence && now - state.presence.time <= this.policy.maxAgeMs) presences.push(state.presence);
+        });
+        return presences;
+    }
+
+    // Judge a vehicle entering or crossing the crosswalk
+    judge(zone: Crosswalk, vehicleSpeedKmh: number | null, now: number): PriorityVerdict {
+        const pedestrians = this.conflicts(zone.id || zone.label, now);
+        const yielded = vehicleSpeedKmh === null ? null : vehicleSpeedKmh <= this.policy.yieldSpeedKmh;
+        return {
+            zone: zone.label,
+            infraction: pedestrians.length > 0 && yielded === false,
+            yielded,
+            vehicleSpeedKmh,
+            pedestrians
+        };
+    }
+
+    retain(trackIds: Set<number>) {
+        this.states.forEach(zoneStates => {
+            zoneStates.forEach((_, trackId) => {
+                if (!trackIds.has(trackId)) zoneStates.delete(trackId);
+            });
+        });
+    }
+
+    clear() {
+        this.states.clear();
+    }
+}
+
+function imageDistance(zone: ZoneGeometry, p: Vec2): number {
+    return zoneEdges(zone).reduce((best, [a, b]) => Math.min(best, distanceToSegment(p, a, b)), Infinity);
+}
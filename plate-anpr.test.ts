@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { PlateVoter } from './plate-anpr';
+import { PlateReading, parsePlate } from './spanish-plate';
+
+function reading(text: string, confidence: number): PlateReading {
+    return {
+        text,
+        format: parsePlate(text)!.format,
+        characters: [...text].map(char => ({ char, confidence })),
+        confidence
+    };
+}
+
+describe('PlateVoter', () => {
+    let voter: PlateVoter;
+
+    beforeEach(() => {
+        voter = new PlateVoter();
+    });
+
+    it('confirms a plate once two readings agree', () => {
+        const first = voter.add(1, reading('1234BCD', 0.8), 'crop-a');
+        expect(first).toMatchObject({ text: '1234BCD', votes: 1, confirmed: false, snapshot: 'crop-a' });
+
+        const second = voter.add(1, reading('1234BCD', 0.85), 'crop-b');
+        expect(second).toMatchObject({ text: '1234BCD', votes: 2, confirmed: true, confidence: 0.85, snapshot: 'crop-b' });
+        expect(voter.get(1)).toBe(second);
+    });
+
+    it('confirms a single very confident reading', () => {
+        expect(voter.add(1, reading('M1234AB', 0.95), null)?.confirmed).toBe(true);
+    });
+
+    it('discards readings below the minimum confidence', () => {
+        expect(voter.add(1, reading('1234BCD', 0.4), null)).toBeNull();
+        expect(voter.add(1, reading('1234BCD', 0.8), null)?.votes).toBe(1);
+    });
+
+    it('leads with the most voted text, then the most confident', () => {
+        voter.add(1, reading('1234BCD', 0.7), null);
+        expect(voter.add(1, reading('1284BCD', 0.8), null)?.text).toBe('1284BCD');
+        const leader = voter.add(1, reading('1234BCD', 0.6), null);
+        expect(leader).toMatchObject({ text: '1234BCD', votes: 2, confidence: 0.7, confirmed: true });
+    });
+
+    it('keeps a confirmed plate confirmed when another text takes the lead', () => {
+        voter.add(1, reading('1234BCD', 0.95), null);
+        voter.add(1, reading('1284BCD', 0.8), null);
+        const leader = voter.add(1, reading('1284BCD', 0.8), null);
+        expect(leader).toMatchObject({ text: '1284BCD', votes: 2, confirmed: true });
+    });
+
+    it('keeps the tracks apart', () => {
+        voter.add(1, reading('1234BCD', 0.8), null);
+        expect(voter.add(2, reading('1234BCD', 0.8), null)?.confirmed).toBe(false);
+    });
+
+    it('spaces the reads of a track and stops once confirmed', () => {
+        expect(voter.wants(1, 0)).toBe(true);
+        voter.attempt(1, 1000);
+        expect(voter.wants(1, 1000 + voter.policy.retryMs - 1)).toBe(false);
+        expect(voter.wants(1, 1000 + voter.policy.retryMs)).toBe(true);
+
+        voter.add(1, reading('1234BCD', 0.95), null);
+        expect(voter.get(1)?.attempts).toBe(1);
+        expect(voter.wants(1, 10000)).toBe(false);
+    });
+
+    it('gives up after the maximum number of reads', () => {
+        voter.policy = { ...voter.policy, maxAttempts: 3 };
+        for (let i = 0; i < 3; i++) voter.attempt(1, i * 1000);
+        expect(voter.wants(1, 10000)).toBe(false);
+    });
+
+    it('forgets tracks that are not retained', () => {
+        voter.add(1, reading('1234BCD', 0.8), null);
+        voter.add(2, reading('M1234AB', 0.8), null);
+        voter.retain(new Set([2]));
+
+        expect(voter.get(1)).toBeNull();
+        expect(voter.get(2)?.text).toBe('M1234AB');
+        expect(voter.wants(1, 0)).toBe(true);
+    });
+});
@@ -0,0 +1,324 @@
+// --- On-device ANPR (plate localization + OCR) ---
+// Runs on the main thread on one vehicle crop at a time: a single-class YOLO plate detector
+// finds the plate inside the vehicle box, the plate crop is read by a fixed-slot OCR model
+// and the per-position distributions are decoded under the Spanish plate layouts. Readings
+// of the same track are voted until a plate is confirmed, so the audit starts with a plate
+// read locally and the cloud answer is only a cross-check. Both models are optional.
+import * as ort from 'onnxruntime-web/all'; // Same build as the detector (webgl included)
+import { ExecutionProvider } from './yolo-tracker';
+import { LetterboxPreprocessor, createCanvas, unletterboxBox } from './yolo-preprocess';
+import { CharDistribution, PlateReading, decodePlate } from './spanish-plate';
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface OcrModelSpec {
+    width: number;
+    height: number;
+    channels: 1 | 3;
+    layout: 'nhwc' | 'nchw';
+    dtype: 'uint8' | 'float32'; // float32 inputs are scaled to 0-1
+    alphabet: string;           // Output classes, in order
+    pad: string;                // Class of empty slots (fixed-slot models)
+}
+
+// fast-plate-ocr style model: 70x140 grayscale uint8, 37 classes per slot, '_' = empty
+export const DEFAULT_OCR_SPEC: OcrModelSpec = {
+    width: 140,
+    height: 70,
+    channels: 1,
+    layout: 'nhwc',
+    dtype: 'uint8',
+    alphabet: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_',
+    pad: '_'
+};
+
+export interface AnprOptions {
+    detectorSize: number;   // Plate detector input side
+    minPlateScore: number;
+    platePadding: number;   // Fraction of the plate box added around it before OCR
+}
+
+export const DEFAULT_ANPR_OPTIONS: AnprOptions = {
+    detectorSize: 384,
+    minPlateScore: 0.4,
+    platePadding: 0.06
+};
+
+export interface PlateDetection {
+    reading: PlateReading;
+    box: [number, number, number, number]; // Plate box in source pixels
+    plateScore: number;
+    snapshot: string | null;               // Plate crop as read by the OCR (base64 JPEG)
+}
+
+export class PlateRecognizer {
+    options: AnprOptions = { ...DEFAULT_ANPR_OPTIONS };
+
+    private detector: ort.InferenceSession | null = null;
+    private ocr: ort.InferenceSession | null = null;
+    private spec: OcrModelSpec = DEFAULT_OCR_SPEC;
+    private letterbox = new LetterboxPreprocessor(DEFAULT_ANPR_OPTIONS.detectorSize, 32);
+    private vehicleCanvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private vehicleCtx: Canvas2D | null = null;
+    private plateCanvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private plateCtx: Canvas2D | null = null;
+
+    get ready(): boolean {
+        return this.detector !== null && this.ocr !== null;
+    }
+
+    // Soft fail: without either model ANPR stays off and plates come from the audit
+    async load(detectorPath: string, ocrPath: string, providers: ExecutionProvider[], spec: OcrModelSpec = DEFAULT_OCR_SPEC): Promise<boolean> {
+        try {
+            this.detector = await createSession(detectorPath, providers);
+            this.ocr = await createSession(ocrPath, providers);
+            this.spec = spec;
+            this.letterbox = new LetterboxPreprocessor(this.options.detectorSize, 32);
+            console.log("ANPR Loaded", this.detector.inputNames, this.ocr.inputNames, this.ocr.outputNames);
+            return true;
+        } catch (e) {
+            console.warn("Failed to load ANPR models (plates will come from the forensic audit):", e);
+            this.detector = null;
+            this.ocr = null;
+            return false;
+        }
+    }
+
+    // Read the plate of the vehicle in box [x, y, w, h] (source pixels). The vehicle is copied
+    // before the first await, so the source may be redrawn while inference runs.
+    async read(source: CanvasImageSource, vehicleBox: [number, number, number, number]): Promise<PlateDetection | null> {
+        if (!this.detector || !this.ocr) return null;
+        const [vx, vy, vw, vh] = vehicleBox.map(Math.round);
+        if (vw < 8 || vh < 8) return null;
+
+        if (!this.vehicleCanvas || this.vehicleCanvas.width !== vw || this.vehicleCanvas.height !== vh) {
+            this.vehicleCanvas = createCanvas(vw, vh);
+            this.vehicleCtx = this.vehicleCanvas.getContext('2d', { willReadFrequently: true }) as Canvas2D | null;
+        }
+        if (!this.vehicleCtx) return null;
+        this.vehicleCtx.drawImage(source, vx, vy, vw, vh, 0, 0, vw, vh);
+
+        // 1. Localize: best plate box inside the vehicle crop
+        const pre = this.letterbox.run(this.vehicleCanvas, vw, vh);
+        if (!pre) return null;
+        const input = new ort.Tensor('float32', pre.data, [1, 3, pre.info.size, pre.info.size]);
+        const detected = await this.detector.run({ [this.detector.inputNames[0]]: input });
+        const output = detected[this.detector.outputNames[0]];
+        const plate = bestBox(output.data as Float32Array, output.dims as number[], this.options.minPlateScore);
+        if (!plate) return null;
+        const [px, py, pw, ph] = unletterboxBox(plate.cx, plate.cy, plate.w, plate.h, pre.info);
+        if (pw < 4 || ph < 2) return null;
+
+        // 2. Read: padded plate crop at the OCR input size
+        const padX = pw * this.options.platePadding;
+        const padY = ph * this.options.platePadding;
+        const crop: [number, number, number, number] = [
+            Math.max(0, px - padX), Math.max(0, py - padY),
+            Math.min(vw, px + pw + padX) - Math.max(0, px - padX), Math.min(vh, py + ph + padY) - Math.max(0, py - padY)
+        ];
+        const tensor = this.ocrInput(crop);
+        if (!tensor) return null;
+        const read = await this.ocr.run({ [this.ocr.inputNames[0]]: tensor });
+        const logits = read[this.ocr.outputNames[0]].data as Float32Array;
+
+        const reading = decodePlate(this.slots(logits));
+        if (!reading) return null;
+        return { reading, box: [vx + px, vy + py, pw, ph], plateScore: plate.score, snapshot: await toJpeg(this.plateCanvas!) };
+    }
+
+    private ocrInput(crop: [number, number, number, number]): ort.Tensor | null {
+        const { width, height, channels, layout, dtype } = this.spec;
+        if (!this.plateCanvas) {
+            this.plateCanvas = createCanvas(width, height);
+            this.plateCtx = this.plateCanvas.getContext('2d', { willReadFrequently: true }) as Canvas2D | null;
+        }
+        if (!this.plateCtx || !this.vehicleCanvas) return null;
+
+        const [x, y, w, h] = crop;
+        this.plateCtx.drawImage(this.vehicleCanvas, x, y, w, h, 0, 0, width, height);
+        const pixels = this.plateCtx.getImageData(0, 0, width, height).data;
+
+        const area = width * height;
+        const data = dtype === 'uint8' ? new Uint8Array(area * channels) : new Float32Array(area * channels);
+        const scale = dtype === 'uint8' ? 1 : 1 / 255;
+        for (let i = 0; i < area; i++) {
+            const r = pixels[i * 4], g = pixels[i * 4 + 1], b = pixels[i * 4 + 2];
+            const values = channels === 1 ? [0.299 * r + 0.587 * g + 0.114 * b] : [r, g, b];
+            values.forEach((value, c) => {
+                const index = layout === 'nhwc' ? i * channels + c : c * area + i;
+                data[index] = dtype === 'uint8' ? Math.round(value) : value * scale;
+            });
+        }
+        const dims = layout === 'nhwc' ? [1, height, width, channels] : [1, channels, height, width];
+        return new ort.Tensor(dtype, data, dims);
+    }
+
+    // Per-slot distributions over the alphabet; empty slots are dropped
+    private slots(output: Float32Array): CharDistribution[] {
+        const { alphabet, pad } = this.spec;
+        const positions: CharDistribution[] = [];
+        for (let s = 0; s + alphabet.length <= output.length; s += alphabet.length) {
+            const probs = toProbabilities(output.subarray(s, s + alphabet.length));
+            let argmax = 0;
+            probs.forEach((p, k) => { if (p > probs[argmax]) argmax = k; });
+            if (alphabet[argmax] === pad) continue;
+            const dist: CharDistribution = {};
+            probs.forEach((p, k) => { if (alphabet[k] !== pad) dist[alphabet[k]] = p; });
+            positions.push(dist);
+        }
+        return positions;
+    }
+}
+
+async function createSession(modelPath: string, providers: ExecutionProvider[]): Promise<ort.InferenceSession> {
+    let lastError: unknown = new Error("No execution providers configured");
+    for (const provider of providers) {
+        try {
+            return await ort.InferenceSession.create(modelPath, { executionProviders: [provider] });
+        } catch (e) {
+            lastError = e;
+        }
+    }
+    throw lastError;
+}
+
+async function toJpeg(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<string | null> {
+    if ('toDataURL' in canvas) return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+    const bytes = new Uint8Array(await (await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.8 })).arrayBuffer());
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary);
+}
+
+// Highest scoring box of a single-class YOLO head ([1, 5, N] or [1, N, 5])
+function bestBox(output: Float32Array, dims: number[], minScore: number) {
+    const transposed = dims.length === 3 && dims[1] > dims[2];
+    const anchors = dims.length === 3 ? (transposed ? dims[1] : dims[2]) : output.length / 5;
+    const stride = transposed ? dims[2] : 1;
+    const at = (row: number, i: number) => (transposed ? output[i * stride + row] : output[row * anchors + i]);
+
+    let best: { cx: number; cy: number; w: number; h: number; score: number } | null = null;
+    for (let i = 0; i < anchors; i++) {
+        const score = at(4, i);
+        if (score >= minScore && (!best || score > best.score)) {
+            best = { cx: at(0, i), cy: at(1, i), w: at(2, i), h: at(3, i), score };
+        }
+    }
+    return best;
+}
+
+// Softmax unless the model already outputs probabilities
+function toProbabilities(row: Float32Array): number[] {
+    const values = Array.from(row);
+    const sum = values.reduce((a, b) => a + b, 0);
+    if (values.every(v => v >= 0 && v <= 1) && Math.abs(sum - 1) < 1e-3) return values;
+    const max = Math.max(...values);
+    const exps = values.map(v => Math.exp(v - max));
+    const total = exps.reduce((a, b) => a + b, 0);
+    return exps.map(e => e / total);
+}
+
+// --- Per-track voting ---
+export interface PlateVotePolicy {
+    retryMs: number;           // Between two reads of the same track
+    maxAttempts: number;       // Reads per track before giving up
+    confirmVotes: number;      // Identical readings that confirm a plate
+    confirmConfidence: number; // A single reading this confident confirms it too
+    minConfidence: number;     // Readings below are discarded
+}
+
+export const DEFAULT_PLATE_VOTE_POLICY: PlateVotePolicy = {
+    retryMs: 400,
+    maxAttempts: 15,
+    confirmVotes: 2,
+    confirmConfidence: 0.92,
+    minConfidence: 0.5
+};
+
+export interface TrackPlate extends PlateReading {
+    votes: number;     // Readings that agree with this text
+    attempts: number;  // Reads made on the track
+    confirmed: boolean;
+    snapshot: string | null; // Plate crop of the best reading (base64 JPEG)
+}
+
+interface TrackVotes {
+    attempts: number;
+    lastAttempt: number;
+    candidates: Map<string, { best: PlateReading; votes: number; snapshot: string | null }>;
+    result: TrackPlate | null;
+}
+
+export class PlateVoter {
+    policy: PlateVotePolicy = { ...DEFAULT_PLATE_VOTE_POLICY };
+
+    private tracks = new Map<number, TrackVotes>();
+
+    // Whether the track is due for another read
+    wants(trackId: number, now: number): boolean {
+        const state = this.tracks.get(trackId);
+        if (!state) return true;
+        return !state.result?.confirmed && state.attempts < this.policy.maxAttempts && now - state.lastAttempt >= this.policy.retryMs;
+    }
+
+    attempt(trackId: number, now: number) {
+        const state = this.state(trackId);
+        state.attempts++;
+        state.lastAttempt = now;
+    }
+
+    // Adds a reading and returns the track's leading plate (confirmed or not)
+    add(trackId: number, reading: PlateReading, snapshot: string | null): TrackPlate | null {
+        const state = this.state(trackId);
+        if (reading.confidence >= this.policy.minConfidence) {
+            const candidate = state.candidates.get(reading.text);
+            if (!candidate) {
+                state.candidates.set(reading.text, { best: reading, votes: 1, snapshot });
+            } else {
+                candidate.votes++;
+                if (reading.confidence > candidate.best.confidence) {
+                    candidate.best = reading;
+                    candidate.snapshot = snapshot;
+                }
+            }
+        }
+
+        let leader: { best: PlateReading; votes: number; snapshot: string | null } | null = null;
+        state.candidates.forEach(c => {
+            if (!leader || c.votes > leader.votes || (c.votes === leader.votes && c.best.confidence > leader.best.confidence)) leader = c;
+        });
+        if (!leader) return state.result;
+        const { best, votes, snapshot: leaderSnapshot } = leader;
+        state.result = {
+            ...best,
+            votes,
+            attempts: state.attempts,
+            confirmed: state.result?.confirmed || votes >= this.policy.confirmVotes || best.confidence >= this.policy.confirmConfidence,
+            snapshot: leaderSnapshot
+        };
+        return state.result;
+    }
+
+    get(trackId: number): TrackPlate | null {
+        return this.tracks.get(trackId)?.result || null;
+    }
+
+    retain(trackIds: Set<number>) {
+        this.tracks.forEach((_, id) => {
+            if (!trackIds.has(id)) this.tracks.delete(id);
+        });
+    }
+
+    clear() {
+        this.tracks.clear();
+    }
+
+    private state(trackId: number): TrackVotes {
+        let state = this.tracks.get(trackId);
+        if (!state) {
+            state = { attempts: 0, lastAttempt: 0, candidates: new Map(), result: null };
+            this.tracks.set(trackId, state);
+        }
+        return state;
+    }
+}
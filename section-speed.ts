@@ -0,0 +1,202 @@
+// --- Section (tramo) Average Speed ---
+// Average-speed control between an entry and an exit line a known road distance apart.
+// Crossing instants come from measured detections only, interpolated between the two
+// bracketing frames by their media times; the average (distance / elapsed time) is
+// compared with the limit for the vehicle class after deducting the measurement margin.
+import { Vec2, ZoneGeometry, crossingFraction } from './zone-geometry';
+
+export interface SpeedSection {
+    id: string;
+    label: string;
+    entry: string;                  // Label of the entry line
+    exit: string;                   // Label of the exit line
+    distanceMeters: number;         // Road distance between both lines
+    limits: Record<string, number>; // km/h per detector class ('default' for the rest)
+    directive: string;              // Source [TRAMO: ...] text
+}
+
+export interface SectionCrossing {
+    mediaTime: number;       // Video media time (s), interpolated between detections
+    wallTime: number;        // ms epoch
+    snapshot: string | null; // Base64 JPEG of the vehicle at the crossing
+}
+
+export interface SectionPassage {
+    sectionId: string;
+    sectionLabel: string;
+    trackId: number;
+    vehicleClass: string;
+    entry: SectionCrossing;
+    exit: SectionCrossing;
+    distanceMeters: number;
+    elapsedSeconds: number;
+    averageKmh: number;
+    marginKmh: number;    // Measurement margin deducted before comparing
+    correctedKmh: number; // averageKmh - marginKmh
+    limitKmh: number;
+    infraction: boolean;
+    severity: 'grave' | 'muy-grave' | null;
+}
+
+export interface TimedPoint extends Vec2 {
+    t: number; // Media time (s)
+}
+
+export function limitFor(section: SpeedSection, vehicleClass: string): number {
+    return section.limits[vehicleClass] ?? section.limits.default;
+}
+
+// Maximum permissible error in service: 5 km/h up to 100 km/h, 5 % above
+export function measurementMargin(kmh: number): number {
+    return Math.max(5, kmh * 0.05);
+}
+
+// Over the limit is grave; more than 50 % and at least 30 km/h over is muy grave (LSV art. 77.a)
+export function speedingSeverity(kmh: number, limitKmh: number): SectionPassage['severity'] {
+    if (kmh <= limitKmh) return null;
+    return kmh > limitKmh * 1.5 && kmh - limitKmh >= 30 ? 'muy-grave' : 'grave';
+}
+
+export class SectionSpeedMonitor {
+    maxSectionSeconds = 600; // Entries older than this are dropped (vehicle parked, track reused)
+
+    private open = new Map<string, Map<number, SectionCrossing>>(); // sectionId -> trackId -> entry
+
+    // Feed one measured movement of a track; returns the passages it completes.
+    // snapshot is only called when a line is actually crossed.
+    observe(
+        sections: SpeedSection[],
+        lines: (ZoneGeometry & { label: string })[],
+        track: { id: number; vehicleClass: string },
+        from: TimedPoint,
+        to: TimedPoint,
+        wallNow: number,
+        snapshot: () => string | null
+    ): SectionPassage[] {
+        if (to.t <= from.t) return []; // Same frame, or the file looped / was seeked
+        const passages: SectionPassage[] = [];
+
+        sections.forEach(section => {
+            const entryLine = lines.find(l => l.label === section.entry);
+            const exitLine = lines.find(l => l.label === section.exit);
+            if (!entryLine || !exitLine) return;
+
+            let entries = this.open.get(section.id);
+            if (!entries) {
+                entries = new Map();
+                this.open.set(section.id, entries);
+            }
+
+            const crossingAt = (line: ZoneGeometry): SectionCrossing | null => {
+                const f = crossingFraction(line, from, to);
+                if (f === null) return null;
+                const mediaTime = from.t + f * (to.t - from.t);
+                return { mediaTime, wallTime: wallNow - (to.t - mediaTime) * 1000, snapshot: snapshot() };
+            };
+
+            // Exit first: a movement spanning both lines still closes the previous entry
+            const entry = entries.get(track.id);
+            const exit = entry ? crossingAt(exitLine) : null;
+            if (entry && exit) {
+                entries.delete(track.id);
+                const elapsed = exit.mediaTime - entry.mediaTime;
+                if (elapsed > 0 && elapsed <= this.maxSectionSeconds) {
+                    passages.push(evaluatePassage(section, track, entry, exit));
+                }
+            }
+
+            const newEntry = crossingAt(entryLine);
+            if (newEntry) entries.set(track.id, newEntry);
+        });
+
+        // Expire stale entries
+        this.open.forEach(entries => {
+            entries.forEach((entry, trackId) => {
+                if (to.t - entry.mediaTime > this.maxSectionSeconds || to.t < entry.mediaTime) entries.delete(trackId);
+            });
+        });
+        return passages;
+    }
+
+    // Tracks currently between an entry and an exit line
+    inSection(sectionId: string): number[] {
+        return Array.from(this.open.get(sectionId)?.keys() || []);
+    }
+
+    retain(trackIds: Set<number>) {
+        this.open.forEach(entries => {
+            entries.forEach((_, trackId) => {
+                if (!trackIds.has(trackId)) entries.delete(trackId);
+            });
+        });
+    }
+
+    clear() {
+        this.open.clear();
+    }
+}
+
+function evaluatePassage(section: SpeedSection, track: { id: number; vehicleClass: string }, entry: SectionCrossing, exit: SectionCrossing): SectionPassage {
+    const elapsedSeconds = exit.mediaTime - entry.mediaTime;
+    const averageKmh = section.distanceMeters / elapsedSeconds * 3.6;
+    const marginKmh = measurementMargin(averageKmh);
+    const correctedKmh = averageKmh - marginKmh;
+    const limitKmh = limitFor(section, track.vehicleClass);
+    const severity = speedingSeverity(correctedKmh, limitKmh);
+    return {
+        sectionId: section.id,
+        sectionLabel: section.label,
+        trackId: track.id,
+        vehicleClass: track.vehicleClass,
+        entry,
+        exit,
+        distanceMeters: section.distanceMeters,
+        elapsedSeconds,
+        averageKmh,
+        marginKmh,
+        correctedKmh,
+        limitKmh,
+        infraction: severity !== null,
+        severity
+    };
+}
+
+// --- Directive syntax ---
+// [TRAMO: ENTRY=<line label>, EXIT=<line label>, DISTANCE=<m>, LIMIT=<km/h>, LIMIT_TRUCK=<km/h>, LABEL=<name>]
+// LIMIT_<CLASS> overrides the limit for a detector class (TRUCK, BUS, MOTORCYCLE, CAR).
+export function parseSectionDirectives(text: string): SpeedSection[] {
+    const sections: SpeedSection[] = [];
+    const regex = /\[TRAMO:([^\]]+)\]/gi;
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        const fields: Record<string, string> = {};
+        match[1].split(',').forEach(part => {
+            const eq = part.indexOf('=');
+            if (eq > 0) fields[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim();
+        });
+
+        const distanceMeters = parseFloat(fields.DISTANCE);
+        const limit = parseFloat(fields.LIMIT);
+        if (!fields.ENTRY || !fields.EXIT || !(distanceMeters > 0) || !(limit > 0)) continue;
+
+        const limits: Record<string, number> = { default: limit };
+        Object.entries(fields).forEach(([key, value]) => {
+            const classLimit = parseFloat(value);
+            if (key.startsWith('LIMIT_') && classLimit > 0) limits[key.slice(6).toLowerCase()] = classLimit;
+        });
+
+        const label = fields.LABEL || `${fields.ENTRY} → ${fields.EXIT}`;
+        sections.push({ id: label, label, entry: fields.ENTRY, exit: fields.EXIT, distanceMeters, limits, directive: match[0] });
+    }
+    return sections;
+}
+
+export function serializeSection(section: Omit<SpeedSection, 'id' | 'directive'>): string {
+    const clean = (s: string) => s.replace(/[,\]\[=]/g, ' ').replace(/\s+/g, ' ').trim();
+    const classLimits = Object.entries(section.limits)
+        .filter(([cls]) => cls !== 'default')
+        .map(([cls, kmh]) => `, LIMIT_${cls.toUpperCase()}=${kmh}`)
+        .join('');
+    return `[TRAMO: ENTRY=${clean(section.entry)}, EXIT=${clean(section.exit)}, DISTANCE=${section.distanceMeters}`
+        + `, LIMIT=${section.limits.default}${classLimits}, LABEL=${clean(section.label)}]`;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { CharDistribution, decodePlate, formatPlate, isValidPlate, parsePlate } from './spanish-plate';
+
+// One distribution per character of `text` (confidence p); `alternatives` adds competing
+// characters at given positions, e.g. { 1: { O: 0.7 } }
+function distributions(text: string, p = 0.9, alternatives: Record<number, CharDistribution> = {}): CharDistribution[] {
+    return [...text].map((char, i) => ({ [char]: p, ...alternatives[i] }));
+}
+
+describe('parsePlate', () => {
+    it.each([
+        ['1234 BCD', '1234BCD', 'current'],
+        ['M-1234-AB', 'M1234AB', 'provincial'],
+        ['M 1234 A', 'M1234A', 'provincial'],
+        ['GC 1234 AB', 'GC1234AB', 'provincial'],
+        ['TF 1234 Z', 'TF1234Z', 'provincial'],
+        ['C 1234 BCD', 'C1234BCD', 'motorcycle'],
+        ['R 1234 BCD', 'R1234BCD', 'trailer'],
+        ['CD 1234', 'CD1234', 'diplomatic'],
+        ['OI 123456', 'OI123456', 'diplomatic']
+    ])('reads %s as %s (%s)', (plate, text, format) => {
+        expect(parsePlate(plate)).toEqual({ text, format });
+    });
+
+    it.each([
+        '1234 ABC',   // Vowels are not used in the national series
+        '1234 BCQ',
+        '123 BCD',
+        'XX 1234 AB', // Unknown province
+        'CD 123',
+        ''
+    ])('rejects %s', plate => {
+        expect(parsePlate(plate)).toBeNull();
+        expect(isValidPlate(plate)).toBe(false);
+    });
+
+    it('tells CC (Cáceres) from CC (consular corps) by what follows the digits', () => {
+        expect(parsePlate('CC 1234 AB')?.format).toBe('provincial');
+        expect(parsePlate('CC 1234 A')?.format).toBe('provincial');
+        expect(parsePlate('CC 1234')?.format).toBe('diplomatic');
+        expect(parsePlate('CC 12345')?.format).toBe('diplomatic');
+    });
+
+    it('tells C (A Coruña) from C (moped) by the letter count', () => {
+        expect(parsePlate('C 1234 AB')?.format).toBe('provincial');
+        expect(parsePlate('C 1234 BC')?.format).toBe('provincial');
+        expect(parsePlate('C 1234 BCD')?.format).toBe('motorcycle');
+    });
+});
+
+describe('formatPlate', () => {
+    it.each([
+        ['1234bcd', '1234 BCD'],
+        ['M1234AB', 'M 1234 AB'],
+        ['GC-1234-A', 'GC 1234 A'],
+        ['C1234BCD', 'C 1234 BCD'],
+        ['R1234BCD', 'R 1234 BCD'],
+        ['CC12345', 'CC 12345'],
+        ['CC1234AB', 'CC 1234 AB']
+    ])('prints %s as %s', (plate, printed) => {
+        expect(formatPlate(plate)).toBe(printed);
+    });
+
+    it('leaves plates outside every layout normalized but ungrouped', () => {
+        expect(formatPlate('ab-12 cd')).toBe('AB12CD');
+    });
+});
+
+describe('decodePlate', () => {
+    it('reads a clean plate with the geometric mean confidence', () => {
+        const reading = decodePlate(distributions('1234BCD'));
+        expect(reading?.text).toBe('1234BCD');
+        expect(reading?.format).toBe('current');
+        expect(reading?.characters).toHaveLength(7);
+        expect(reading?.confidence).toBeCloseTo(0.9, 9);
+    });
+
+    it('settles O→0 in digit positions', () => {
+        const reading = decodePlate(distributions('1034BCD', 0.9, { 1: { '0': 0.3, O: 0.7 } }));
+        expect(reading?.text).toBe('1034BCD');
+        expect(reading?.characters[1]).toEqual({ char: '0', confidence: 0.3 });
+    });
+
+    it('settles B→8 in digit positions and 8→B in letter positions', () => {
+        expect(decodePlate(distributions('1284BCD', 0.9, { 2: { '8': 0.35, B: 0.6 } }))?.text).toBe('1284BCD');
+        expect(decodePlate(distributions('1234BCD', 0.9, { 4: { B: 0.3, '8': 0.65 } }))?.text).toBe('1234BCD');
+    });
+
+    it('only keeps province prefixes that exist', () => {
+        // X is the likelier first character, but no province starts with XA
+        const reading = decodePlate(distributions('MA1234B', 0.9, { 0: { X: 0.95 } }));
+        expect(reading?.text).toBe('MA1234B');
+        expect(reading?.format).toBe('provincial');
+    });
+
+    it('chooses the layout the characters support best', () => {
+        expect(decodePlate(distributions('C1234BCD'))?.format).toBe('motorcycle');
+        expect(decodePlate(distributions('CC12345'))?.format).toBe('diplomatic');
+        expect(decodePlate(distributions('CC1234A'))?.format).toBe('provincial');
+    });
+
+    it('returns null when no layout has that many characters', () => {
+        expect(decodePlate(distributions('123'))).toBeNull();
+    });
+
+    it('returns null when a position has no character the layouts allow', () => {
+        expect(decodePlate(distributions('12#4BCD'))).toBeNull();
+    });
+});
@@ -0,0 +1,171 @@
+// --- Spanish Number Plate Formats ---
+// Plates in circulation follow a handful of layouts: the national series since 2000
+// (1234 BCD, consonants only), the provincial series before it (M 1234 AB), mopeds
+// (C 1234 BCD), trailers (R 1234 BCD) and the diplomatic corps (CD 1234...). Each layout
+// is a template of segments; the same templates validate a plate string and constrain
+// the OCR output, choosing per position the most probable character the layout allows.
+
+export type PlateFormat = 'current' | 'provincial' | 'motorcycle' | 'trailer' | 'diplomatic';
+
+export const PLATE_FORMAT_NAMES: Record<PlateFormat, string> = {
+    current: 'Nacional',
+    provincial: 'Provincial',
+    motorcycle: 'Ciclomotor',
+    trailer: 'Remolque',
+    diplomatic: 'Diplomática'
+};
+
+const DIGITS = '0123456789';
+const CONSONANTS = 'BCDFGHJKLMNPRSTVWXYZ'; // National series: no vowels, Ñ or Q
+const LETTERS = 'ABCDEFGHIJKLMNOPRSTUVWXYZ';
+
+// Provincial prefixes, including the ones replaced over the years (GE → GI, PM → IB, ...)
+const PROVINCES = [
+    'A', 'AB', 'AL', 'AV', 'B', 'BA', 'BI', 'BU', 'C', 'CA', 'CC', 'CE', 'CO', 'CR', 'CS', 'CU',
+    'GC', 'GE', 'GI', 'GR', 'GU', 'H', 'HU', 'IB', 'J', 'L', 'LE', 'LO', 'LU', 'M', 'MA', 'ML',
+    'MU', 'NA', 'O', 'OR', 'OU', 'P', 'PM', 'PO', 'S', 'SA', 'SE', 'SG', 'SO', 'SS', 'T', 'TE',
+    'TF', 'TO', 'V', 'VA', 'VI', 'Z', 'ZA'
+];
+const DIPLOMATIC = ['CD', 'CC', 'OI', 'TA'];
+
+type Segment = { chars: string; min: number; max: number } | { words: string[] };
+
+const TEMPLATES: { format: PlateFormat; segments: Segment[] }[] = [
+    { format: 'current', segments: [{ chars: DIGITS, min: 4, max: 4 }, { chars: CONSONANTS, min: 3, max: 3 }] },
+    { format: 'motorcycle', segments: [{ words: ['C'] }, { chars: DIGITS, min: 4, max: 4 }, { chars: CONSONANTS, min: 3, max: 3 }] },
+    { format: 'trailer', segments: [{ words: ['R'] }, { chars: DIGITS, min: 4, max: 4 }, { chars: CONSONANTS, min: 3, max: 3 }] },
+    { format: 'provincial', segments: [{ words: PROVINCES }, { chars: DIGITS, min: 4, max: 4 }, { chars: LETTERS, min: 1, max: 2 }] },
+    { format: 'diplomatic', segments: [{ words: DIPLOMATIC }, { chars: DIGITS, min: 4, max: 6 }] }
+];
+
+// Fixed-length expansion: one slot per character (a set) or per word (same-length choices)
+type Slot = { chars: string } | { words: string[] };
+
+interface Layout {
+    format: PlateFormat;
+    slots: Slot[];
+    groups: number[]; // Characters per printed group (for display)
+    length: number;
+}
+
+const LAYOUTS: Layout[] = TEMPLATES.flatMap(({ format, segments }) => {
+    let layouts: { slots: Slot[]; groups: number[] }[] = [{ slots: [], groups: [] }];
+    segments.forEach(segment => {
+        const variants: { slots: Slot[]; size: number }[] = 'words' in segment
+            ? [...new Set(segment.words.map(w => w.length))].map(size => ({ slots: [{ words: segment.words.filter(w => w.length === size) }], size }))
+            : Array.from({ length: segment.max - segment.min + 1 }, (_, i) => ({
+                slots: Array.from({ length: segment.min + i }, () => ({ chars: segment.chars })),
+                size: segment.min + i
+            }));
+        layouts = layouts.flatMap(l => variants.map(v => ({ slots: [...l.slots, ...v.slots], groups: [...l.groups, v.size] })));
+    });
+    return layouts.map(l => ({ format, ...l, length: l.groups.reduce((a, b) => a + b, 0) }));
+});
+
+export function normalizePlate(plate: string): string {
+    return plate.toUpperCase().replace(/[\s·.-]/g, '');
+}
+
+function matches(layout: Layout, text: string): boolean {
+    if (text.length !== layout.length) return false;
+    let i = 0;
+    return layout.slots.every(slot => {
+        if ('chars' in slot) return slot.chars.includes(text[i++]);
+        const word = text.slice(i, i + slot.words[0].length);
+        i += word.length;
+        return slot.words.includes(word);
+    });
+}
+
+// Format of a plate string (any spacing / dashes), null when no Spanish layout fits
+export function parsePlate(plate: string): { text: string; format: PlateFormat } | null {
+    const text = normalizePlate(plate);
+    const layout = LAYOUTS.find(l => matches(l, text));
+    return layout ? { text, format: layout.format } : null;
+}
+
+export function isValidPlate(plate: string): boolean {
+    return parsePlate(plate) !== null;
+}
+
+// Printed form: 1234 BCD, M 1234 AB, C 1234 BCD, CD 1234
+export function formatPlate(plate: string): string {
+    const text = normalizePlate(plate);
+    const layout = LAYOUTS.find(l => matches(l, text));
+    if (!layout) return text;
+    const parts: string[] = [];
+    let i = 0;
+    layout.groups.forEach(size => {
+        parts.push(text.slice(i, i + size));
+        i += size;
+    });
+    return parts.join(' ');
+}
+
+// --- Constrained OCR decoding ---
+export type CharDistribution = Record<string, number>; // Character -> probability at one position
+
+export interface PlateCharacter {
+    char: string;
+    confidence: number;
+}
+
+export interface PlateReading {
+    text: string;                 // Normalized (no spaces)
+    format: PlateFormat;
+    characters: PlateCharacter[]; // Per-position confidence of the chosen character
+    confidence: number;           // Geometric mean of the character confidences
+}
+
+// Most probable plate that fits a Spanish layout of the same length (O→0, I→1, B→8 ... are
+// settled by the layout, not by a lookup table)
+export function decodePlate(positions: CharDistribution[]): PlateReading | null {
+    let best: PlateReading | null = null;
+    let bestLog = -Infinity;
+
+    LAYOUTS.filter(l => l.length === positions.length).forEach(layout => {
+        const characters: PlateCharacter[] = [];
+        let i = 0;
+        for (const slot of layout.slots) {
+            if ('chars' in slot) {
+                const dist = positions[i++];
+                let char = '';
+                let p = 0;
+                for (const c of slot.chars) {
+                    if ((dist[c] || 0) > p) {
+                        char = c;
+                        p = dist[c];
+                    }
+                }
+                if (!char) return;
+                characters.push({ char, confidence: p });
+            } else {
+                const size = slot.words[0].length;
+                let word = '';
+                let p = 0;
+                slot.words.forEach(w => {
+                    const wp = [...w].reduce((acc, c, k) => acc * (positions[i + k][c] || 0), 1);
+                    if (wp > p) {
+                        word = w;
+                        p = wp;
+                    }
+                });
+                if (!word) return;
+                [...word].forEach((c, k) => characters.push({ char: c, confidence: positions[i + k][c] || 0 }));
+                i += size;
+            }
+        }
+
+        const logScore = characters.reduce((acc, c) => acc + Math.log(c.confidence), 0);
+        if (logScore > bestLog) {
+            bestLog = logScore;
+            best = {
+                text: characters.map(c => c.char).join(''),
+                format: layout.format,
+                characters,
+                confidence: Math.exp(logScore / characters.length)
+            };
+        }
+    });
+    return best;
+}
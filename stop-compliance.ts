@@ -0,0 +1,128 @@
+// --- STOP Line Compliance ---
+// A STOP line is only an infraction when the vehicle did not come to a full stop before it.
+// While a track is within the approach distance of a stop line its measured ground positions
+// are buffered; when it crosses, the buffer is judged: was there an interval of at least
+// minStopSeconds in which it moved no more than a creep of stopSpeedKmh plus position noise?
+// Too little evidence gives an indeterminate verdict, which never raises an infraction.
+import { Vec2 } from './zone-geometry';
+
+export interface StopSample {
+    t: number;      // Media time (s)
+    position: Vec2; // Ground position (m)
+}
+
+export interface StopPolicy {
+    minStopSeconds: number;     // Required duration of the full stop
+    approachMeters: number;     // Watched distance before the line
+    stopSpeedKmh: number;       // Directive: stopped means below this speed
+    positionNoise: number;      // Meters of foot-point jitter tolerated while stopped
+    speedWindow: number;        // Seconds: window of the minimum-speed evidence
+    maxApproachSeconds: number; // Older samples are discarded
+}
+
+export const DEFAULT_STOP_POLICY: StopPolicy = {
+    minStopSeconds: 1.0,
+    approachMeters: 15,
+    stopSpeedKmh: 1,
+    positionNoise: 0.3,
+    speedWindow: 0.5,
+    maxApproachSeconds: 60
+};
+
+export interface StopVerdict {
+    compliant: boolean | null;   // null = not enough evidence to judge
+    longestStopSeconds: number;
+    minSpeedKmh: number | null;  // Lowest average speed over speedWindow in the approach
+    approachSeconds: number;     // Time covered by the samples
+    samples: number;
+}
+
+export function evaluateStop(samples: StopSample[], policy: StopPolicy = DEFAULT_STOP_POLICY): StopVerdict {
+    const n = samples.length;
+    const approachSeconds = n > 1 ? samples[n - 1].t - samples[0].t : 0;
+
+    // Minimum speed: displacement over the shortest span >= speedWindow from each sample
+    let minSpeed: number | null = null;
+    for (let i = 0, j = 0; i < n; i++) {
+        if (j < i) j = i;
+        while (j < n && samples[j].t - samples[i].t < policy.speedWindow) j++;
+        if (j >= n) break;
+        const a = samples[i];
+        const b = samples[j];
+        const speed = Math.hypot(b.position.x - a.position.x, b.position.y - a.position.y) / (b.t - a.t);
+        if (minSpeed === null || speed < minSpeed) minSpeed = speed;
+    }
+
+    // Longest interval whose positions stay within noise + creep of its first position
+    const creep = policy.stopSpeedKmh / 3.6;
+    let longest = 0;
+    for (let i = 0; i < n; i++) {
+        const start = samples[i];
+        for (let j = i + 1; j < n; j++) {
+            const p = samples[j];
+            const d = Math.hypot(p.position.x - start.position.x, p.position.y - start.position.y);
+            if (d > policy.positionNoise + creep * (p.t - start.t)) break;
+            longest = Math.max(longest, p.t - start.t);
+        }
+    }
+
+    let compliant: boolean | null;
+    if (longest >= policy.minStopSeconds) {
+        compliant = true;
+    } else if (n < 3 || approachSeconds < policy.minStopSeconds || minSpeed === null) {
+        compliant = null; // Track seen too briefly before the line
+    } else {
+        compliant = false;
+    }
+
+    return {
+        compliant,
+        longestStopSeconds: longest,
+        minSpeedKmh: minSpeed === null ? null : minSpeed * 3.6,
+        approachSeconds,
+        samples: n
+    };
+}
+
+export class StopComplianceMonitor {
+    policy: StopPolicy = { ...DEFAULT_STOP_POLICY };
+
+    private approaches = new Map<string, Map<number, StopSample[]>>(); // lineId -> trackId -> samples
+
+    // Record a measured position of a track at distanceMeters from the stop line
+    observe(lineId: string, trackId: number, sample: StopSample, distanceMeters: number) {
+        let line = this.approaches.get(lineId);
+        if (!line) {
+            line = new Map();
+            this.approaches.set(lineId, line);
+        }
+        let samples = line.get(trackId) || [];
+        const last = samples[samples.length - 1];
+        if (last && sample.t <= last.t) {
+            if (sample.t < last.t) samples = []; // Looped file / seek: start over
+            else return;                         // Same frame
+        }
+        if (distanceMeters <= this.policy.approachMeters) samples.push(sample);
+        while (samples.length > 0 && sample.t - samples[0].t > this.policy.maxApproachSeconds) samples.shift();
+        line.set(trackId, samples);
+    }
+
+    // Judge the approach when the track crosses the line; its buffer is cleared
+    judge(lineId: string, trackId: number): StopVerdict {
+        const samples = this.approaches.get(lineId)?.get(trackId) || [];
+        this.approaches.get(lineId)?.delete(trackId);
+        return evaluateStop(samples, this.policy);
+    }
+
+    retain(trackIds: Set<number>) {
+        this.approaches.forEach(line => {
+            line.forEach((_, trackId) => {
+                if (!trackIds.has(trackId)) line.delete(trackId);
+            });
+        });
+    }
+
+    clear() {
+        this.approaches.clear();
+    }
+}
@@ -0,0 +1,195 @@
+// --- Traffic-Light State Recognition ---
+// The officer marks the lamp housing of a traffic light as a rectangle (ROI). Every tick
+// the ROI is read back small and classified by color: lit lamps are bright, saturated
+// pixels whose hue falls in the red, amber or green band. The per-light state history is
+// kept as a timeline of phases (debounced over a few frames) so a stop-line crossing can
+// be judged against the state at that instant and cite the phases around it as evidence.
+
+export type LightState = 'red' | 'amber' | 'green' | 'unknown';
+type LampColor = Exclude<LightState, 'unknown'>;
+
+export interface TrafficLightRoi {
+    x: number; // Normalized 0-1000 frame space, top-left corner
+    y: number;
+    w: number;
+    h: number;
+    label: string;
+    stopLine: string | null; // Label of the stop line it controls (null = every stop line)
+    directive: string;       // Source [SEMAFORO: ...] text
+}
+
+export interface LightReading {
+    state: LightState;
+    scores: Record<LampColor, number>; // Fraction of ROI pixels lit in each color
+}
+
+export interface ClassifierOptions {
+    minValue: number;      // HSV V (0-1) of a lit lamp pixel
+    minSaturation: number; // HSV S (0-1)
+    minLitFraction: number; // Of the ROI, for the dominant color
+    dominance: number;     // Dominant score over the runner-up
+}
+
+export const DEFAULT_CLASSIFIER: ClassifierOptions = {
+    minValue: 0.55,
+    minSaturation: 0.4,
+    minLitFraction: 0.01,
+    dominance: 1.5
+};
+
+// Hue bands in degrees (red wraps around 0)
+function lampColor(hue: number): LampColor | null {
+    if (hue >= 330 || hue <= 15) return 'red';
+    if (hue >= 20 && hue <= 60) return 'amber';
+    if (hue >= 80 && hue <= 200) return 'green'; // LED greens drift towards cyan
+    return null;
+}
+
+export function classifyLight(pixels: ImageData, options: ClassifierOptions = DEFAULT_CLASSIFIER): LightReading {
+    const counts: Record<LampColor, number> = { red: 0, amber: 0, green: 0 };
+    const data = pixels.data;
+    const total = pixels.width * pixels.height;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = data[i] / 255;
+        const g = data[i + 1] / 255;
+        const b = data[i + 2] / 255;
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const delta = max - min;
+        if (max < options.minValue || delta / max < options.minSaturation) continue;
+
+        let hue: number;
+        if (max === r) hue = 60 * (((g - b) / delta) % 6);
+        else if (max === g) hue = 60 * ((b - r) / delta + 2);
+        else hue = 60 * ((r - g) / delta + 4);
+        if (hue < 0) hue += 360;
+
+        const color = lampColor(hue);
+        if (color) counts[color]++;
+    }
+
+    const scores: Record<LampColor, number> = {
+        red: total > 0 ? counts.red / total : 0,
+        amber: total > 0 ? counts.amber / total : 0,
+        green: total > 0 ? counts.green / total : 0
+    };
+    const ranked = (Object.keys(scores) as LampColor[]).sort((a, b) => scores[b] - scores[a]);
+    const [best, second] = ranked;
+    const state = scores[best] >= options.minLitFraction && scores[best] >= scores[second] * options.dominance ? best : 'unknown';
+    return { state, scores };
+}
+
+// --- State timeline ---
+export interface LightPhase {
+    state: LightState;
+    start: number;     // Media time (s)
+    end: number;       // Media time (s) of the last frame in this state
+    wallStart: number; // ms epoch
+}
+
+export class LightTimeline {
+    minStableFrames = 2;  // Readings needed before a state change is accepted
+    historySeconds = 120;
+
+    private phases: LightPhase[] = [];
+    private candidate: { state: LightState; count: number; t: number; wall: number } | null = null;
+
+    update(state: LightState, t: number, wallNow: number) {
+        const previous = this.phases[this.phases.length - 1];
+        if (previous && t < previous.end) this.reset(); // Looped file / seek
+        const last = this.phases[this.phases.length - 1];
+
+        if (!last) {
+            this.phases.push({ state, start: t, end: t, wallStart: wallNow });
+        } else if (state === last.state) {
+            last.end = t;
+            this.candidate = null;
+        } else {
+            if (!this.candidate || this.candidate.state !== state) this.candidate = { state, count: 0, t, wall: wallNow };
+            this.candidate.count++;
+            if (this.candidate.count >= this.minStableFrames) {
+                // The new phase starts at its first reading, the previous one ends just before
+                this.phases.push({ state, start: this.candidate.t, end: t, wallStart: this.candidate.wall });
+                this.candidate = null;
+            }
+        }
+
+        while (this.phases.length > 1 && t - this.phases[0].end > this.historySeconds) this.phases.shift();
+    }
+
+    get current(): LightState {
+        return this.phases[this.phases.length - 1]?.state ?? 'unknown';
+    }
+
+    // State at media time t and how long it had lasted
+    stateAt(t: number): { state: LightState; elapsed: number } {
+        for (let i = this.phases.length - 1; i >= 0; i--) {
+            const phase = this.phases[i];
+            if (t >= phase.start) return { state: phase.state, elapsed: t - phase.start };
+        }
+        return { state: 'unknown', elapsed: 0 };
+    }
+
+    // Phases overlapping [from, to]
+    window(from: number, to: number): LightPhase[] {
+        return this.phases.filter(p => p.end >= from && p.start <= to).map(p => ({ ...p }));
+    }
+
+    reset() {
+        this.phases = [];
+        this.candidate = null;
+    }
+}
+
+// Evidence of a stop-line crossing: state at that instant and the phases around it
+export interface LightEvidence {
+    light: string;
+    state: LightState;
+    stateSeconds: number;   // How long the light had been in that state
+    crossingTime: number;   // Media time (s) of the crossing
+    crossingWallTime: number;
+    timeline: LightPhase[];
+}
+
+export function lightEvidence(timeline: LightTimeline, light: string, t: number, wallNow: number, beforeSeconds = 15): LightEvidence {
+    const { state, elapsed } = timeline.stateAt(t);
+    return { light, state, stateSeconds: elapsed, crossingTime: t, crossingWallTime: wallNow, timeline: timeline.window(t - beforeSeconds, t) };
+}
+
+// Lights controlling a stop line: those bound to it, else the unbound ones
+export function lightsForLine(rois: TrafficLightRoi[], lineLabel: string): TrafficLightRoi[] {
+    const bound = rois.filter(r => r.stopLine === lineLabel);
+    return bound.length > 0 ? bound : rois.filter(r => r.stopLine === null);
+}
+
+// --- Directive syntax ---
+// [SEMAFORO: RECT=<x>:<y>:<w>:<h>, STOP=<stop line label>, LABEL=<name>] (0-1000 space)
+export function parseLightDirectives(text: string): TrafficLightRoi[] {
+    const rois: TrafficLightRoi[] = [];
+    const regex = /\[SEMAFORO:([^\]]+)\]/gi;
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+        const fields: Record<string, string> = {};
+        match[1].split(',').forEach(part => {
+            const eq = part.indexOf('=');
+            if (eq > 0) fields[part.slice(0, eq).trim().toUpperCase()] = part.slice(eq + 1).trim();
+        });
+
+        const [x, y, w, h] = (fields.RECT || '').split(':').map(Number);
+        if (![x, y, w, h].every(Number.isFinite) || !(w > 0) || !(h > 0)) continue;
+        rois.push({
+            x, y, w, h,
+            label: fields.LABEL || `SEMÁFORO ${rois.length + 1}`,
+            stopLine: fields.STOP || null,
+            directive: match[0]
+        });
+    }
+    return rois;
+}
+
+export function serializeLight(roi: Omit<TrafficLightRoi, 'directive'>): string {
+    const clean = (s: string) => s.replace(/[,\]\[=]/g, ' ').replace(/\s+/g, ' ').trim();
+    const rect = [roi.x, roi.y, roi.w, roi.h].map(v => Math.round(v)).join(':');
+    return `[SEMAFORO: RECT=${rect}${roi.stopLine ? `, STOP=${clean(roi.stopLine)}` : ''}, LABEL=${clean(roi.label)}]`;
+}
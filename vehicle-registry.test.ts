@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RegistryInfraction, VehicleRegistry } from './vehicle-registry';
+
+const MINUTE = 60000;
+const DAY = 86400000;
+const NOW = Date.UTC(2026, 5, 15, 12);
+
+// In-memory localStorage (the registry persists through it)
+function memoryStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: index => [...items.keys()][index] ?? null,
+        removeItem: key => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, String(value)); }
+    };
+}
+
+function infraction(logId: number, at = logId): RegistryInfraction {
+    return { logId, at, description: `Expediente ${logId}`, severity: 'grave', location: 'AV. MADRID' };
+}
+
+function file(registry: VehicleRegistry, plate: string, at: number, logId = at): boolean {
+    return registry.recordInfraction(plate, { at, location: 'AV. MADRID', vehicleType: 'car' }, infraction(logId, at));
+}
+
+describe('VehicleRegistry', () => {
+    let registry: VehicleRegistry;
+
+    beforeEach(() => {
+        vi.stubGlobal('localStorage', memoryStorage());
+        registry = new VehicleRegistry();
+    });
+
+    it('knows nothing of an unfiled plate', () => {
+        expect(registry.status('1234 BCD', NOW)).toEqual({ repeat: false, recentPasses: 0, recentInfractions: 0, totalInfractions: 0 });
+    });
+
+    it('files expedientes under the normalized plate, once per log', () => {
+        expect(file(registry, '1234 BCD', NOW - DAY, 1)).toBe(true);
+        expect(file(registry, '1234-bcd', NOW - DAY, 1)).toBe(false);
+
+        const record = registry.get('1234BCD');
+        expect(record?.infractions.map(i => i.logId)).toEqual([1]);
+        expect(record?.sightings).toBe(1);
+    });
+
+    it('never files pending, unread or foreign plates', () => {
+        expect(file(registry, 'PENDIENTE', NOW, 1)).toBe(false);
+        expect(file(registry, 'SIN LECTURA', NOW, 2)).toBe(false);
+        expect(file(registry, 'AB 123 CD', NOW, 3)).toBe(false);
+        expect(registry.all()).toEqual([]);
+    });
+
+    it('files a pending expediente again once its plate is read', () => {
+        expect(file(registry, 'PENDIENTE', NOW, 1)).toBe(false);
+        expect(file(registry, '1234 BCD', NOW, 1)).toBe(true);
+        expect(registry.status('1234 BCD', NOW).totalInfractions).toBe(1);
+    });
+
+    it('counts the expedientes of one pass as a single offence', () => {
+        file(registry, '1234 BCD', NOW - 2 * MINUTE); // Solid line
+        file(registry, '1234 BCD', NOW - MINUTE);     // Tramo exit
+
+        expect(registry.status('1234 BCD', NOW)).toEqual({ repeat: false, recentPasses: 1, recentInfractions: 2, totalInfractions: 2 });
+    });
+
+    it('flags a plate caught on separate passes inside the window', () => {
+        file(registry, '1234 BCD', NOW - 3 * DAY);
+        file(registry, '1234 BCD', NOW - 3 * DAY + 5 * MINUTE);
+        file(registry, '1234 BCD', NOW - MINUTE);
+
+        expect(registry.status('1234 BCD', NOW)).toEqual({ repeat: true, recentPasses: 2, recentInfractions: 3, totalInfractions: 3 });
+    });
+
+    it('splits passes by the time between their infractions', () => {
+        registry.policy = { ...registry.policy, passGapMinutes: 10 };
+        file(registry, '1234 BCD', NOW - 30 * MINUTE);
+        file(registry, '1234 BCD', NOW - 15 * MINUTE);
+
+        expect(registry.status('1234 BCD', NOW).recentPasses).toBe(2);
+    });
+
+    it('forgets offences older than the window', () => {
+        file(registry, '1234 BCD', NOW - 45 * DAY);
+        file(registry, '1234 BCD', NOW - DAY);
+
+        expect(registry.status('1234 BCD', NOW)).toEqual({ repeat: false, recentPasses: 1, recentInfractions: 1, totalInfractions: 2 });
+    });
+
+    it('keeps the history across reloads', () => {
+        file(registry, 'M 1234 AB', NOW - DAY);
+        registry.recordSighting('M1234AB', { at: NOW, location: 'CTRA. AJALVIR' });
+
+        const reloaded = new VehicleRegistry();
+        const record = reloaded.get('M-1234-AB');
+        expect(record).toMatchObject({ plate: 'M1234AB', format: 'provincial', firstSeen: NOW - DAY, lastSeen: NOW, sightings: 2 });
+        expect(record?.locations.map(l => l.name)).toEqual(['AV. MADRID', 'CTRA. AJALVIR']);
+    });
+});
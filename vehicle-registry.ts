@@ -0,0 +1,176 @@
+// --- Vehicle Registry (plate-keyed history) ---
+// Every expediente and every plate confirmed by the ANPR is filed under the normalized
+// plate, so the same vehicle caught several times shows up as one history: infractions,
+// first / last sighting, how it was described and where it was seen. A plate caught on
+// enough separate passes inside the window is a repeat offender (one pass can open several
+// expedientes, e.g. a tramo and a line). Persisted per browser; unreadable or non-Spanish
+// plates are never filed.
+import { PlateFormat, parsePlate } from './spanish-plate';
+
+export interface RegistryInfraction {
+    logId: number;
+    at: number;           // ms epoch
+    description: string;
+    severity: string;
+    legalArticle?: string;
+    location: string;
+}
+
+export interface RegistryLocation {
+    name: string;
+    count: number;
+    lastSeen: number;
+}
+
+export interface RegistryDescription {
+    vehicleType: string;
+    subType: string;
+    count: number;
+}
+
+export interface VehicleRecord {
+    plate: string; // Normalized
+    format: PlateFormat;
+    firstSeen: number;
+    lastSeen: number;
+    sightings: number; // ANPR confirmations plus expedientes (a pass that infracts counts in both)
+    descriptions: RegistryDescription[];
+    locations: RegistryLocation[];
+    infractions: RegistryInfraction[];
+}
+
+export interface Sighting {
+    at: number;
+    location: string;
+    vehicleType?: string;
+    subType?: string;
+}
+
+export interface RepeatOffenderPolicy {
+    minPasses: number;      // Passes with infractions, within the window
+    passGapMinutes: number; // Infractions closer than this belong to the same pass
+    windowDays: number;
+}
+
+export const DEFAULT_REPEAT_OFFENDER_POLICY: RepeatOffenderPolicy = {
+    minPasses: 2,
+    passGapMinutes: 30,
+    windowDays: 30
+};
+
+export interface OffenderStatus {
+    repeat: boolean;
+    recentPasses: number;      // Inside the window
+    recentInfractions: number; // Inside the window
+    totalInfractions: number;
+}
+
+export class VehicleRegistry {
+    policy: RepeatOffenderPolicy = { ...DEFAULT_REPEAT_OFFENDER_POLICY };
+    maxRecords = 2000; // Oldest plates (by last sighting) are dropped beyond this
+
+    private records: Record<string, VehicleRecord>;
+
+    constructor(private storageKey = 'sentinel.vehicleRegistry') {
+        this.records = this.readAll();
+    }
+
+    get(plate: string): VehicleRecord | null {
+        const parsed = parsePlate(plate);
+        return parsed ? this.records[parsed.text] || null : null;
+    }
+
+    all(): VehicleRecord[] {
+        return Object.values(this.records).sort((a, b) => b.lastSeen - a.lastSeen);
+    }
+
+    // A pass of the vehicle (ANPR confirmation); returns false when the plate is not filed
+    recordSighting(plate: string, sighting: Sighting): boolean {
+        const record = this.upsert(plate, sighting);
+        if (!record) return false;
+        this.save();
+        return true;
+    }
+
+    // An expediente against the plate (also counts as a sighting, once per log)
+    recordInfraction(plate: string, sighting: Sighting, infraction: RegistryInfraction): boolean {
+        const parsed = parsePlate(plate);
+        if (!parsed || this.records[parsed.text]?.infractions.some(i => i.logId === infraction.logId)) return false;
+        const record = this.upsert(plate, sighting)!;
+        record.infractions.push(infraction);
+        record.infractions.sort((a, b) => a.at - b.at);
+        this.save();
+        return true;
+    }
+
+    status(plate: string, now = Date.now()): OffenderStatus {
+        const record = this.get(plate);
+        if (!record) return { repeat: false, recentPasses: 0, recentInfractions: 0, totalInfractions: 0 };
+        const since = now - this.policy.windowDays * 86400000;
+        const recent = record.infractions.filter(i => i.at >= since); // Sorted by time
+        const gap = this.policy.passGapMinutes * 60000;
+        const recentPasses = recent.filter((i, k) => k === 0 || i.at - recent[k - 1].at > gap).length;
+        return {
+            repeat: recentPasses >= this.policy.minPasses,
+            recentPasses,
+            recentInfractions: recent.length,
+            totalInfractions: record.infractions.length
+        };
+    }
+
+    private upsert(plate: string, sighting: Sighting): VehicleRecord | null {
+        const parsed = parsePlate(plate);
+        if (!parsed) return null;
+        let record = this.records[parsed.text];
+        if (!record) {
+            record = {
+                plate: parsed.text, format: parsed.format, firstSeen: sighting.at, lastSeen: sighting.at,
+                sightings: 0, descriptions: [], locations: [], infractions: []
+            };
+            this.records[parsed.text] = record;
+        }
+        record.sightings++;
+        record.firstSeen = Math.min(record.firstSeen, sighting.at);
+        record.lastSeen = Math.max(record.lastSeen, sighting.at);
+
+        const location = record.locations.find(l => l.name === sighting.location);
+        if (location) {
+            location.count++;
+            location.lastSeen = Math.max(location.lastSeen, sighting.at);
+        } else {
+            record.locations.push({ name: sighting.location, count: 1, lastSeen: sighting.at });
+        }
+
+        if (sighting.vehicleType) {
+            const subType = sighting.subType || sighting.vehicleType;
+            const description = record.descriptions.find(d => d.vehicleType === sighting.vehicleType && d.subType === subType);
+            if (description) description.count++;
+            else record.descriptions.push({ vehicleType: sighting.vehicleType, subType, count: 1 });
+            record.descriptions.sort((a, b) => b.count - a.count);
+        }
+        return record;
+    }
+
+    private readAll(): Record<string, VehicleRecord> {
+        try {
+            return JSON.parse(localStorage.getItem(this.storageKey) || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    private save() {
+        const plates = Object.keys(this.records);
+        if (plates.length > this.maxRecords) {
+            plates
+                .sort((a, b) => this.records[a].lastSeen - this.records[b].lastSeen)
+                .slice(0, plates.length - this.maxRecords)
+                .forEach(plate => delete this.records[plate]);
+        }
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.records));
+        } catch (e) {
+            console.warn('Vehicle registry too large to persist:', e);
+        }
+    }
+}
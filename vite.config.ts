@@ -10,10 +10,15 @@ export default defineConfig(({ mode }) => {
       host: '0.0.0.0',
     },
     base: '/SENTINELV15/',
+    worker: {
+      // YOLO worker imports onnxruntime-web, which needs code-splitting (not available in iife)
+      format: 'es'
+    },
     plugins: [
       react(),
       {
         name: 'copy-onnx-wasm',
+        apply: 'build', // Production bundle only (not the dev server or the test runner)
         closeBundle: async () => {
           const fs = await import('fs');
           const path = await import('path');
@@ -0,0 +1,165 @@
+// --- YOLO Preprocessing (Ultralytics-style letterbox) ---
+// Shared by the detection and pose sessions so both map back to the same video pixels.
+
+export interface LetterboxInfo {
+    size: number;      // Square network input side (stride aligned)
+    scale: number;     // Resize ratio applied to the source frame
+    padX: number;      // Left padding in network pixels
+    padY: number;      // Top padding in network pixels
+    srcWidth: number;  // Source frame width in pixels
+    srcHeight: number; // Source frame height in pixels
+}
+
+export interface PreprocessResult {
+    data: Float32Array; // CHW float tensor data normalized to 0-1
+    info: LetterboxInfo;
+}
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const PAD_COLOR = 'rgb(114, 114, 114)'; // Ultralytics gray
+
+// Works on the main thread and inside workers (OffscreenCanvas)
+export function createCanvas(width: number, height: number): HTMLCanvasElement | OffscreenCanvas {
+    if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+}
+
+export function computeLetterbox(srcWidth: number, srcHeight: number, size = 640, stride = 32): LetterboxInfo {
+    const aligned = Math.ceil(size / stride) * stride;
+    const scale = Math.min(aligned / srcWidth, aligned / srcHeight);
+    const newW = Math.round(srcWidth * scale);
+    const newH = Math.round(srcHeight * scale);
+
+    // Split padding between both sides, same rounding as Ultralytics LetterBox
+    const dw = (aligned - newW) / 2;
+    const dh = (aligned - newH) / 2;
+
+    return {
+        size: aligned,
+        scale,
+        padX: Math.round(dw - 0.1),
+        padY: Math.round(dh - 0.1),
+        srcWidth,
+        srcHeight
+    };
+}
+
+// Draw the frame letterboxed into ctx (whose canvas must be info.size x info.size)
+export function drawLetterbox(ctx: Canvas2D, source: CanvasImageSource, info: LetterboxInfo) {
+    ctx.fillStyle = PAD_COLOR;
+    ctx.fillRect(0, 0, info.size, info.size);
+    ctx.drawImage(
+        source,
+        0, 0, info.srcWidth, info.srcHeight,
+        info.padX, info.padY, Math.round(info.srcWidth * info.scale), Math.round(info.srcHeight * info.scale)
+    );
+}
+
+// RGBA pixels -> planar RGB float32, reusing `out` when it has the right length
+export function toCHW(pixels: Uint8ClampedArray, size: number, out?: Float32Array): Float32Array {
+    const area = size * size;
+    const data = out && out.length === 3 * area ? out : new Float32Array(3 * area);
+    for (let i = 0; i < area; i++) {
+        data[i] = pixels[i * 4] / 255.0;
+        data[area + i] = pixels[i * 4 + 1] / 255.0;
+        data[2 * area + i] = pixels[i * 4 + 2] / 255.0;
+    }
+    return data;
+}
+
+export class LetterboxPreprocessor {
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private ctx: Canvas2D | null = null;
+    private buffer: Float32Array | null = null;
+
+    constructor(public size = 640, public stride = 32) { }
+
+    run(source: CanvasImageSource, srcWidth: number, srcHeight: number): PreprocessResult | null {
+        const info = computeLetterbox(srcWidth, srcHeight, this.size, this.stride);
+
+        if (!this.canvas || this.canvas.width !== info.size) {
+            this.canvas = createCanvas(info.size, info.size);
+            this.ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as Canvas2D | null;
+        }
+        if (!this.ctx) return null;
+
+        drawLetterbox(this.ctx, source, info);
+        const imgData = this.ctx.getImageData(0, 0, info.size, info.size);
+        this.buffer = toCHW(imgData.data, info.size, this.buffer || undefined);
+
+        return { data: this.buffer, info };
+    }
+}
+
+// --- Inverse mapping: network pixels -> source frame pixels ---
+export function unletterboxPoint(x: number, y: number, info: LetterboxInfo): [number, number] {
+    const px = (x - info.padX) / info.scale;
+    const py = (y - info.padY) / info.scale;
+    return [
+        Math.max(0, Math.min(info.srcWidth, px)),
+        Math.max(0, Math.min(info.srcHeight, py))
+    ];
+}
+
+// YOLO center box (cx, cy, w, h) in network pixels -> [x, y, w, h] top-left box in source pixels, clipped
+export function unletterboxBox(cx: number, cy: number, w: number, h: number, info: LetterboxInfo): [number, number, number, number] {
+    const [x1, y1] = unletterboxPoint(cx - w / 2, cy - h / 2, info);
+    const [x2, y2] = unletterboxPoint(cx + w / 2, cy + h / 2, info);
+    return [x1, y1, x2 - x1, y2 - y1];
+}
+
+// --- Crop preprocessing (ReID) ---
+// ImageNet normalization used by common vehicle ReID backbones
+const IMAGENET_MEAN = [0.485, 0.456, 0.406];
+const IMAGENET_STD = [0.229, 0.224, 0.225];
+
+export class CropPreprocessor {
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private ctx: Canvas2D | null = null;
+
+    constructor(public width = 256, public height = 256) { }
+
+    // Stretch bbox [x, y, w, h] of the source to width x height, CHW ImageNet-normalized
+    run(source: CanvasImageSource, bbox: [number, number, number, number]): Float32Array | null {
+        if (!this.canvas) {
+            this.canvas = createCanvas(this.width, this.height);
+            this.ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as Canvas2D | null;
+        }
+        if (!this.ctx) return null;
+
+        const [x, y, w, h] = bbox;
+        if (w < 1 || h < 1) return null;
+        this.ctx.drawImage(source, x, y, w, h, 0, 0, this.width, this.height);
+        const pixels = this.ctx.getImageData(0, 0, this.width, this.height).data;
+
+        const area = this.width * this.height;
+        const data = new Float32Array(3 * area);
+        for (let i = 0; i < area; i++) {
+            for (let c = 0; c < 3; c++) {
+                data[c * area + i] = (pixels[i * 4 + c] / 255.0 - IMAGENET_MEAN[c]) / IMAGENET_STD[c];
+            }
+        }
+        return data;
+    }
+}
+
+// --- Full-frame readback (appearance histograms inside the worker) ---
+export class FrameReader {
+    private canvas: HTMLCanvasElement | OffscreenCanvas | null = null;
+    private ctx: Canvas2D | null = null;
+
+    read(source: CanvasImageSource, width: number, height: number): ImageData | null {
+        if (!this.canvas || this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas = createCanvas(width, height);
+            this.ctx = this.canvas.getContext('2d', { willReadFrequently: true }) as Canvas2D | null;
+        }
+        if (!this.ctx) return null;
+
+        this.ctx.drawImage(source, 0, 0, width, height);
+        return this.ctx.getImageData(0, 0, width, height);
+    }
+}
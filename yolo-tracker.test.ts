@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as ort from 'onnxruntime-web/all';
+import { DEFAULT_RUNTIME, YoloDetector } from './yolo-tracker';
+
+vi.mock('onnxruntime-web/all', () => ({
+    env: { wasm: {} },
+    InferenceSession: { create: vi.fn() },
+    Tensor: class { }
+}));
+
+const create = vi.mocked(ort.InferenceSession.create);
+
+// Sessions only initialize on the listed providers
+function providersAvailable(...available: string[]) {
+    create.mockImplementation((async (modelPath: string, options: { executionProviders: string[] }) => {
+        const [provider] = options.executionProviders;
+        if (!available.includes(provider)) throw new Error(`${provider} backend not available`);
+        return { modelPath, provider, inputNames: ['images'], outputNames: ['output0'] };
+    }) as unknown as typeof ort.InferenceSession.create);
+}
+
+describe('YoloDetector.load', () => {
+    beforeEach(() => {
+        create.mockReset();
+        vi.spyOn(console, 'warn').mockImplementation(() => { });
+        vi.spyOn(console, 'log').mockImplementation(() => { });
+    });
+
+    it('falls back to wasm when webgpu and webgl fail to initialize', async () => {
+        providersAvailable('wasm');
+        const detector = new YoloDetector();
+        await detector.load('detect.onnx', undefined, DEFAULT_RUNTIME);
+
+        expect(create.mock.calls.map(([, options]) => options?.executionProviders)).toEqual([['webgpu'], ['webgl'], ['wasm']]);
+        expect(detector.provider).toBe('wasm');
+        expect(detector.session).not.toBeNull();
+    });
+
+    it('reports the first provider that initializes and loads the pose model from it', async () => {
+        providersAvailable('webgl', 'wasm');
+        const detector = new YoloDetector();
+        await detector.load('detect.onnx', 'pose.onnx', DEFAULT_RUNTIME);
+
+        expect(detector.provider).toBe('webgl');
+        expect(create).toHaveBeenLastCalledWith('pose.onnx', { executionProviders: ['webgl'] });
+        expect(detector.poseSession).not.toBeNull();
+    });
+
+    it('rejects when no provider initializes', async () => {
+        providersAvailable();
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+        const detector = new YoloDetector();
+
+        await expect(detector.load('detect.onnx', undefined, DEFAULT_RUNTIME)).rejects.toThrow('wasm backend not available');
+        expect(detector.provider).toBeNull();
+    });
+});
@@ -1,5 +1,10 @@
 
-import * as ort from 'onnxruntime-web';
+import * as ort from 'onnxruntime-web/all'; // The default entry ships webgpu + wasm only; `all` adds the webgl backend
+import { LetterboxPreprocessor, CropPreprocessor, PreprocessResult, unletterboxBox, unletterboxPoint } from './yolo-preprocess';
+import { AssignmentMethod, linearAssignment } from './linear-assignment';
+import { KalmanFilter, CHI2_INV_95, bboxToXyah, xyahToBbox, identity, matMul, matVec, transpose } from './kalman-filter';
+import type { Affine } from './camera-motion';
+import type { CapturedFrame } from './frame-capture';
 
 // --- Interfaces ---
 export interface Detection {
@@ -19,16 +24,43 @@ export interface PoseDetection extends Detection {
     keypoints: Keypoint[]; // 17 keypoints (COCO format)
 }
 
+// Anything the detector can read pixels from (ImageBitmap when running inside a worker,
+// the per-tick FrameCapture canvas on the main thread)
+export type FrameSource = HTMLVideoElement | HTMLCanvasElement | ImageBitmap;
+
+export function frameSize(frame: FrameSource): [number, number] {
+    return 'videoWidth' in frame ? [frame.videoWidth, frame.videoHeight] : [frame.width, frame.height];
+}
+
+// Track lifecycle: Tentative --(minHits)--> Confirmed <--> Lost --(trackBufferFrames)--> Removed
+// Tentative tracks missing a single update are removed straight away.
+export type TrackState = 'tentative' | 'confirmed' | 'lost' | 'removed';
+
 export interface Track extends Detection {
     trackId: number;
-    state: number[]; // Kalman state: [cx, cy, aspect, h, vx, vy, va, vh]
+    state: number[]; // Kalman state: [cx, cy, aspect, h, vx, vy, va, vh] (aspect = w/h)
     covariance: number[][]; // 8x8 covariance matrix
     age: number;
     hits: number;    // frames tracked
     timeSinceUpdate: number;
+    trackState: TrackState;
     appearance?: number[]; // BoT-SORT: appearance feature vector
 }
 
+// --- ONNX Runtime Options ---
+export type ExecutionProvider = 'webgpu' | 'webgl' | 'wasm';
+
+export interface RuntimeOptions {
+    executionProviders: ExecutionProvider[]; // Tried in order until one initializes
+    numThreads: number; // WASM threads (0 = onnxruntime default)
+}
+// No SIMD switch: onnxruntime-web only ships SIMD wasm builds
+
+export const DEFAULT_RUNTIME: RuntimeOptions = {
+    executionProviders: ['webgpu', 'webgl', 'wasm'],
+    numThreads: 0
+};
+
 // --- Constants ---
 const COCO_CLASSES = [
     'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat', 'traffic light',
@@ -42,56 +74,45 @@ const COCO_CLASSES = [
     'hair drier', 'toothbrush'
 ];
 
-// --- Kalman Filter (Simplified for JS Performance) ---
+// --- Kalman Box Tracker (one per track) ---
+const kalman = new KalmanFilter();
+
 class KalmanBoxTracker {
     static count = 0;
     trackId: number;
-    state: number[]; // [x, y, s, h, vx, vy, vs, vh] - s = aspect ratio area/h
-    P: number[][]; // Covariance
+    state: number[]; // [cx, cy, a, h, vx, vy, va, vh] - a = aspect ratio w/h
+    P: number[][]; // 8x8 covariance
     age = 0;
-    hits = 0;
+    hits = 1; // The creating detection counts as the first hit
     timeSinceUpdate = 0;
-    appearance?: number[]; // BoT-SORT: Color histogram as appearance feature
+    trackState: TrackState = 'tentative';
+    appearance?: number[]; // BoT-SORT: EMA of L2-normalized ReID embeddings (or HSV histograms)
+    classVotes = new Map<number, number>(); // classId -> matched detections with that class
+    score = 0; // EMA of matched detection scores
 
-    // Standard Kalman params
-    private static readonly R_STD = [10, 10, 10, 10]; // Measurement noise
-    private static readonly Q_STD = [0.01, 0.01, 0.01, 0.01, 0.01, 0.01, 0.01, 0.01]; // Process noise (low for constant velocity)
+    private static readonly SCORE_ALPHA = 0.3; // Weight of the newest detection score
 
-    constructor(bbox: [number, number, number, number], appearance?: number[]) {
+    constructor(det: Detection, appearance?: number[]) {
         this.trackId = KalmanBoxTracker.count++;
 
-        // Initial State: x, y, s, h, 0, 0, 0, 0
-        // bbox: x, y, w, h (top-left) -> convert to center-based cx, cy, s, h
-        const cx = bbox[0] + bbox[2] / 2;
-        const cy = bbox[1] + bbox[3] / 2;
-        const s = bbox[2] * bbox[3]; // Area
-        const h = bbox[3];
-        this.state = [cx, cy, s, h, 0, 0, 0, 0];
+        // bbox: x, y, w, h (top-left) -> measurement cx, cy, a, h; velocities start at 0
+        const { mean, covariance } = kalman.initiate(bboxToXyah(det.bbox));
+        this.state = mean;
+        this.P = covariance;
         this.appearance = appearance;
-
-        // Initial Covariance
-        this.P = this.createIdentity(8, 10); // Check 10 or 1
+        this.classVotes.set(det.classId, 1);
+        this.score = det.score;
     }
 
-    // Predict
+    // Predict (constant velocity, full covariance propagation)
     predict() {
-        // F: Transition Matrix (Constant Velocity)
-        // x = x + vx, etc.
-        const F = this.createIdentity(8, 1);
-        for (let i = 0; i < 4; i++) F[i][i + 4] = 1;
-
-        // x = F * x
-        const newState = new Array(8).fill(0);
-        for (let i = 0; i < 8; i++) {
-            for (let j = 0; j < 8; j++) newState[i] += F[i][j] * this.state[j];
-        }
-        this.state = newState;
+        // Freeze height velocity of lost tracks so boxes don't collapse/explode while unmatched
+        const mean = [...this.state];
+        if (this.timeSinceUpdate > 0) mean[7] = 0;
 
-        // P = F * P * F^T + Q
-        // Simplified update for performance? No, stick to logic.
-        // Q is process noise
-        // Skip full matrix math for brevity in this artifact, usually we use a library like 'kalman-filter'.
-        // For this implementation, I will use a simple linear predictor since we don't have matrix lib.
+        const predicted = kalman.predict(mean, this.P);
+        this.state = predicted.mean;
+        this.P = predicted.covariance;
 
         this.age++;
         if (this.timeSinceUpdate > 0) this.hits = 0;
@@ -100,58 +121,105 @@ class KalmanBoxTracker {
         return this.getBBox();
     }
 
+    // Warp the predicted state by the camera motion [[a, b, tx], [c, d, ty]] (BoT-SORT GMC).
+    // Rotation/scale act on position and velocity; uniform scale also acts on the height.
+    applyAffine(affine: Affine) {
+        const [[a, b, tx], [c, d, ty]] = affine;
+        const s = Math.sqrt(Math.abs(a * d - b * c));
+
+        const T = identity(8);
+        T[0][0] = a; T[0][1] = b; T[1][0] = c; T[1][1] = d; // cx, cy
+        T[4][4] = a; T[4][5] = b; T[5][4] = c; T[5][5] = d; // vx, vy
+        T[3][3] = s; T[7][7] = s;                           // h, vh
+
+        const mean = matVec(T, this.state);
+        mean[0] += tx;
+        mean[1] += ty;
+        this.state = mean;
+        this.P = matMul(matMul(T, this.P), transpose(T));
+    }
+
     // Update
-    update(bbox: [number, number, number, number], appearance?: number[]) {
+    update(det: Detection, appearance?: number[]) {
         this.timeSinceUpdate = 0;
         this.hits++;
 
-        const cx = bbox[0] + bbox[2] / 2;
-        const cy = bbox[1] + bbox[3] / 2;
-        const s = bbox[2] * bbox[3];
-        const h = bbox[3];
-
-        // Simple measurement update (Weighted average usually, but let's just push measurement with some smoothing alpha)
-        // Real Kalman does K = P*H^T * ...
-        // Fallback: Exponential Moving Average for simple JS implementation
-        const alpha = 0.6; // High trust in measurement
-        this.state[0] = this.state[0] * (1 - alpha) + cx * alpha;
-        this.state[1] = this.state[1] * (1 - alpha) + cy * alpha;
-        this.state[2] = this.state[2] * (1 - alpha) + s * alpha;
-        this.state[3] = this.state[3] * (1 - alpha) + h * alpha;
-
-        // Update appearance with smooth blending (BoT-SORT)
-        if (appearance && this.appearance) {
+        // Class majority vote + score smoothing
+        this.classVotes.set(det.classId, (this.classVotes.get(det.classId) || 0) + 1);
+        const a = KalmanBoxTracker.SCORE_ALPHA;
+        this.score = this.score * (1 - a) + det.score * a;
+
+        // Kalman correction with the innovation covariance
+        const corrected = kalman.update(this.state, this.P, bboxToXyah(det.bbox));
+        this.state = corrected.mean;
+        this.P = corrected.covariance;
+
+        // Update appearance gallery with EMA blending, kept on the unit sphere (BoT-SORT smooth_feat)
+        if (appearance && this.appearance && appearance.length === this.appearance.length) {
             const beta = 0.9; // High momentum for appearance
-            this.appearance = this.appearance.map((v, i) => v * beta + appearance[i] * (1 - beta));
+            this.appearance = l2Normalize(this.appearance.map((v, i) => v * beta + appearance[i] * (1 - beta)));
         } else if (appearance) {
-            this.appearance = appearance;
+            this.appearance = l2Normalize(appearance);
         }
     }
 
-    getBBox(): [number, number, number, number] {
-        // cx, cy, s, h -> x, y, w, h
-        const cx = this.state[0];
-        const cy = this.state[1];
-        const s = this.state[2];
-        const h = this.state[3];
-        const w = s / h;
-
-        return [cx - w / 2, cy - h / 2, w, h];
+    // Advance the lifecycle once matching for this step is done
+    updateLifecycle(minHits: number, trackBufferFrames: number) {
+        if (this.timeSinceUpdate === 0) {
+            if (this.trackState === 'lost' || (this.trackState === 'tentative' && this.hits >= minHits)) {
+                this.trackState = 'confirmed';
+            }
+        } else if (this.trackState === 'tentative' || this.timeSinceUpdate >= trackBufferFrames) {
+            this.trackState = 'removed';
+        } else {
+            this.trackState = 'lost';
+        }
     }
 
-    private createIdentity(size: number, val: number): number[][] {
-        const m = [];
-        for (let i = 0; i < size; i++) {
-            const row = new Array(size).fill(0);
-            row[i] = val;
-            m.push(row);
-        }
-        return m;
+    // Squared Mahalanobis distance from the predicted state to a detection box
+    gatingDistance(bbox: [number, number, number, number]): number {
+        return kalman.gatingDistance(this.state, this.P, bboxToXyah(bbox));
+    }
+
+    // Class with the most matched detections (ties keep the first seen)
+    getClassId(): number {
+        let best = 0;
+        let bestVotes = -1;
+        this.classVotes.forEach((votes, classId) => {
+            if (votes > bestVotes) {
+                best = classId;
+                bestVotes = votes;
+            }
+        });
+        return best;
+    }
+
+    toTrack(): Track {
+        const classId = this.getClassId();
+        return {
+            trackId: this.trackId,
+            bbox: this.getBBox(),
+            score: this.score,
+            classId,
+            className: COCO_CLASSES[classId] || 'unknown',
+            state: this.state,
+            covariance: this.P,
+            age: this.age,
+            hits: this.hits,
+            timeSinceUpdate: this.timeSinceUpdate,
+            trackState: this.trackState,
+            appearance: this.appearance
+        };
+    }
+
+    getBBox(): [number, number, number, number] {
+        // cx, cy, a, h -> x, y, w, h
+        return xyahToBbox(this.state);
     }
 }
 
 // --- Utils: IoU ---
-function iou(boxA: [number, number, number, number], boxB: [number, number, number, number]): number {
+export function iou(boxA: [number, number, number, number], boxB: [number, number, number, number]): number {
     const xA = Math.max(boxA[0], boxB[0]);
     const yA = Math.max(boxA[1], boxB[1]);
     const xB = Math.min(boxA[0] + boxA[2], boxB[0] + boxB[2]);
@@ -164,6 +232,11 @@ function iou(boxA: [number, number, number, number], boxB: [number, number, numb
     return interArea / (boxAArea + boxBArea - interArea);
 }
 
+function l2Normalize(v: number[]): number[] {
+    const norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+    return norm > 1e-12 ? v.map(x => x / norm) : v;
+}
+
 // --- Cosine Similarity for Appearance Matching (BoT-SORT) ---
 function cosineSimilarity(a: number[], b: number[]): number {
     if (!a || !b || a.length !== b.length) return 0;
@@ -178,6 +251,33 @@ function cosineSimilarity(a: number[], b: number[]): number {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB) + 1e-8);
 }
 
+// --- Association: score matrix -> linear assignment, mapped back to caller indices ---
+// score(tIdx, dIdx) is a similarity in [0, 1]; pairs below minScore, or rejected by the
+// optional gate (Kalman Mahalanobis test), are never matched.
+function associate(
+    trackIndices: number[],
+    detIndices: number[],
+    score: (tIdx: number, dIdx: number) => number,
+    minScore: number,
+    method: AssignmentMethod,
+    gate?: (tIdx: number, dIdx: number) => boolean
+) {
+    if (trackIndices.length === 0 || detIndices.length === 0) {
+        return { matches: [] as [number, number][], unmatchedTracks: [...trackIndices], unmatchedDets: [...detIndices] };
+    }
+
+    const cost = trackIndices.map(tIdx => detIndices.map(dIdx =>
+        gate && !gate(tIdx, dIdx) ? Infinity : 1 - score(tIdx, dIdx)
+    ));
+    const { matches, unmatchedRows, unmatchedCols } = linearAssignment(cost, 1 - minScore, method);
+
+    return {
+        matches: matches.map(([r, c]) => [trackIndices[r], detIndices[c]] as [number, number]),
+        unmatchedTracks: unmatchedRows.map(r => trackIndices[r]),
+        unmatchedDets: unmatchedCols.map(c => detIndices[c])
+    };
+}
+
 // --- ByteTrack Core ---
 export class ByteTracker {
     tracks: KalmanBoxTracker[] = [];
@@ -187,6 +287,9 @@ export class ByteTracker {
     highThresh = 0.5;
     matchThresh = 0.25;
     trackBufferFrames = 30; // Frames to keep lost tracks
+    minHits = 3; // Consecutive hits before a tentative track is confirmed
+    matchMethod: AssignmentMethod = 'hungarian';
+    mahalanobisGating = true; // χ² motion gate on association (off = IoU / appearance only)
 
     update(detections: Detection[]): Track[] {
         this.frameId++;
@@ -207,7 +310,7 @@ export class ByteTracker {
 
         // Update matched tracks
         matches1.forEach((m) => {
-            this.tracks[m[0]].update(highDets[m[1]].bbox);
+            this.tracks[m[0]].update(highDets[m[1]]);
         });
 
         // 4. Match Low Conf with Unmatched Tracks (uTracks1)
@@ -216,69 +319,90 @@ export class ByteTracker {
 
         // Update matched low-conf tracks
         matches2.forEach((m) => {
-            this.tracks[m[0]].update(lowDets[m[1]].bbox);
+            this.tracks[m[0]].update(lowDets[m[1]]);
         });
 
         // 5. Create new tracks from Unmatched High Conf Dets (uDets1)
         uDets1.forEach(idx => {
             const d = highDets[idx];
-            this.tracks.push(new KalmanBoxTracker(d.bbox));
+            this.tracks.push(new KalmanBoxTracker(d));
         });
 
-        // 6. Remove lost tracks using configurable buffer
-        this.tracks = this.tracks.filter(t => t.timeSinceUpdate < this.trackBufferFrames);
+        // 6. Lifecycle: confirm after minHits, lose on miss, remove after the buffer
+        this.tracks.forEach(t => t.updateLifecycle(this.minHits, this.trackBufferFrames));
+        this.tracks = this.tracks.filter(t => t.trackState !== 'removed');
 
         // Return tracks for display
-        return this.tracks.map(t => {
-            const [x, y, w, h] = t.getBBox();
-            return {
-                trackId: t.trackId,
-                bbox: [x, y, w, h],
-                score: 1.0,
-                classId: 0,
-                className: 'vehicle',
-                state: t.state,
-                covariance: t.P,
-                age: t.age,
-                hits: t.hits,
-                timeSinceUpdate: t.timeSinceUpdate
-            } as Track;
-        });
+        return this.tracks.map(t => t.toTrack());
     }
 
-    // Simple Hungarian/Greedy matching based on IoU
+    // IoU association (optimal Hungarian or greedy, see matchMethod)
     private match(tracks: KalmanBoxTracker[], dets: Detection[], trackIndices: number[], detIndices: number[], iouThresh: number) {
-        const matches: [number, number][] = [];
-        const unmatchedTracks = new Set(trackIndices);
-        const unmatchedDets = new Set(detIndices);
-
-        const candidates: { tIdx: number, dIdx: number, iou: number }[] = [];
-
-        trackIndices.forEach(tIdx => {
-            detIndices.forEach(dIdx => {
-                const score = iou(tracks[tIdx].getBBox(), dets[dIdx].bbox);
-                if (score >= iouThresh) {
-                    candidates.push({ tIdx, dIdx, iou: score });
-                }
-            });
-        });
+        return associate(
+            trackIndices,
+            detIndices,
+            (tIdx, dIdx) => iou(tracks[tIdx].getBBox(), dets[dIdx].bbox),
+            iouThresh,
+            this.matchMethod,
+            this.gate(tracks, dets)
+        );
+    }
 
-        candidates.sort((a, b) => b.iou - a.iou);
+    // Reject pairs outside the 95% Mahalanobis ellipse of the predicted state
+    private gate(tracks: KalmanBoxTracker[], dets: Detection[]) {
+        if (!this.mahalanobisGating) return undefined;
+        return (tIdx: number, dIdx: number) => tracks[tIdx].gatingDistance(dets[dIdx].bbox) <= CHI2_INV_95[4];
+    }
+}
 
-        candidates.forEach(c => {
-            if (unmatchedTracks.has(c.tIdx) && unmatchedDets.has(c.dIdx)) {
-                matches.push([c.tIdx, c.dIdx]);
-                unmatchedTracks.delete(c.tIdx);
-                unmatchedDets.delete(c.dIdx);
+// --- Appearance fallback (no ReID model): HSV histogram of the box center ---
+// Chromatic pixels vote into hue x saturation bins; near-gray pixels (white/black/silver
+// bodywork, where hue is meaningless) vote into brightness bins instead.
+const HUE_BINS = 12;
+const SAT_BINS = 3;
+const GRAY_BINS = 8;
+
+export function extractAppearance(imageData: ImageData, bbox: [number, number, number, number]): number[] {
+    const histogram = new Array(HUE_BINS * SAT_BINS + GRAY_BINS).fill(0);
+
+    // Inner 80% of the box: less road/background bleeding into the feature
+    const [bx, by, bw, bh] = bbox;
+    const x0 = Math.max(0, Math.floor(bx + bw * 0.1));
+    const y0 = Math.max(0, Math.floor(by + bh * 0.1));
+    const x1 = Math.min(imageData.width, Math.ceil(bx + bw * 0.9));
+    const y1 = Math.min(imageData.height, Math.ceil(by + bh * 0.9));
+    const step = bw * bh > 40000 ? 2 : 1; // Subsample large boxes
+
+    for (let py = y0; py < y1; py += step) {
+        for (let px = x0; px < x1; px += step) {
+            const idx = (py * imageData.width + px) * 4;
+            const r = imageData.data[idx] / 255;
+            const g = imageData.data[idx + 1] / 255;
+            const b = imageData.data[idx + 2] / 255;
+
+            const max = Math.max(r, g, b);
+            const min = Math.min(r, g, b);
+            const v = max;
+            const sat = max > 0 ? (max - min) / max : 0;
+
+            if (sat < 0.2 || v < 0.15) {
+                histogram[HUE_BINS * SAT_BINS + Math.min(GRAY_BINS - 1, Math.floor(v * GRAY_BINS))]++;
+                continue;
             }
-        });
 
-        return {
-            matches,
-            unmatchedTracks: Array.from(unmatchedTracks),
-            unmatchedDets: Array.from(unmatchedDets)
-        };
+            let hue: number;
+            const d = max - min;
+            if (max === r) hue = ((g - b) / d + 6) % 6;
+            else if (max === g) hue = (b - r) / d + 2;
+            else hue = (r - g) / d + 4;
+
+            const hBin = Math.min(HUE_BINS - 1, Math.floor(hue / 6 * HUE_BINS));
+            const sBin = Math.min(SAT_BINS - 1, Math.floor((sat - 0.2) / 0.8 * SAT_BINS));
+            histogram[hBin * SAT_BINS + sBin]++;
+        }
     }
+
+    return l2Normalize(histogram);
 }
 
 // === BoT-SORT Implementation ===
@@ -290,55 +414,41 @@ export class BoTSORT {
     highThresh = 0.6;
     matchThresh = 0.25;
     trackBufferFrames = 40; // Longer buffer for re-identification
+    minHits = 1; // Consecutive hits before a tentative track is confirmed
     appearanceWeight = 0.5; // Balance between IoU and appearance
-
-    // Extract simple color histogram as appearance feature
-    extractAppearance(imageData: ImageData, bbox: [number, number, number, number]): number[] {
-        const [x, y, w, h] = bbox.map(v => Math.floor(v));
-        const histogram = new Array(16).fill(0); // 16-bin RGB histogram (simplified)
-
-        let count = 0;
-        for (let py = Math.max(0, y); py < Math.min(imageData.height, y + h); py++) {
-            for (let px = Math.max(0, x); px < Math.min(imageData.width, x + w); px++) {
-                const idx = (py * imageData.width + px) * 4;
-                const r = Math.floor(imageData.data[idx] / 64); // 0-3
-                const g = Math.floor(imageData.data[idx + 1] / 64);
-                const b = Math.floor(imageData.data[idx + 2] / 64);
-                const binIdx = r * 4 + g; // Simple 16-bin histogram
-                histogram[binIdx]++;
-                count++;
-            }
-        }
-
-        // Normalize
-        return histogram.map(v => v / (count + 1e-8));
-    }
-
-    update(detections: Detection[], videoFrame?: HTMLVideoElement): Track[] {
+    matchMethod: AssignmentMethod = 'hungarian';
+    mahalanobisGating = true; // χ² motion gate on association (off = IoU / appearance only)
+    cameraMotionCompensation = false; // GMC for handheld / vehicle-mounted cameras
+
+    // features: appearance vectors aligned with detections, computed by the detector on the
+    // detection frame (ReID embeddings or HSV histograms). Without them, histograms are
+    // taken from the current captured frame.
+    // cameraMotion: GMC affine from the previous step's frame to the detection frame, estimated
+    // by the detector alongside the detections.
+    update(detections: Detection[], frame?: CapturedFrame, features?: number[][], cameraMotion?: Affine): Track[] {
         this.frameId++;
 
-        // Extract appearance features if video frame provided
         let appearances: (number[] | undefined)[] = [];
-        if (videoFrame) {
-            const canvas = document.createElement('canvas');
-            canvas.width = videoFrame.videoWidth;
-            canvas.height = videoFrame.videoHeight;
-            const ctx = canvas.getContext('2d');
-            if (ctx) {
-                ctx.drawImage(videoFrame, 0, 0);
-                const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                appearances = detections.map(d => this.extractAppearance(imageData, d.bbox));
-            }
+        if (features && features.length === detections.length) {
+            appearances = features.map(e => e.length > 0 ? e : undefined);
+        } else if (frame) {
+            const imageData = frame.imageData();
+            if (imageData) appearances = detections.map(d => extractAppearance(imageData, d.bbox));
         }
 
-        // 1. Divide detections
-        const highDets = detections.filter(d => d.score >= this.highThresh);
-        const lowDets = detections.filter(d => d.score < this.highThresh && d.score > 0.1);
-        const highApps = appearances.slice(0, highDets.length);
-        const lowApps = appearances.slice(highDets.length);
+        // 1. Divide detections (appearances follow their detection)
+        const highIdx = Array.from(detections.keys()).filter(i => detections[i].score >= this.highThresh);
+        const lowIdx = Array.from(detections.keys()).filter(i => detections[i].score < this.highThresh && detections[i].score > 0.1);
+        const highDets = highIdx.map(i => detections[i]);
+        const lowDets = lowIdx.map(i => detections[i]);
+        const highApps = highIdx.map(i => appearances[i]);
+        const lowApps = lowIdx.map(i => appearances[i]);
 
-        // 2. Predict tracks
+        // 2. Predict tracks, then compensate camera motion since the previous step
         this.tracks.forEach(t => t.predict());
+        if (this.cameraMotionCompensation && cameraMotion) {
+            this.tracks.forEach(t => t.applyAffine(cameraMotion));
+        }
 
         // 3. Match High Conf with Appearance
         const trackIndices = Array.from(this.tracks.keys());
@@ -349,7 +459,7 @@ export class BoTSORT {
 
         // Update matched tracks
         matches1.forEach((m) => {
-            this.tracks[m[0]].update(highDets[m[1]].bbox, highApps[m[1]]);
+            this.tracks[m[0]].update(highDets[m[1]], highApps[m[1]]);
         });
 
         // 4. Re-ID: Try to match unmatched tracks with low detections (lost objects recovery)
@@ -358,35 +468,21 @@ export class BoTSORT {
 
         // Update re-identified tracks
         matches2.forEach((m) => {
-            this.tracks[m[0]].update(lowDets[m[1]].bbox, lowApps[m[1]]);
+            this.tracks[m[0]].update(lowDets[m[1]], lowApps[m[1]]);
         });
 
         // 5. Create new tracks from Unmatched High Conf Dets
         uDets1.forEach(idx => {
             const d = highDets[idx];
-            this.tracks.push(new KalmanBoxTracker(d.bbox, highApps[idx]));
+            this.tracks.push(new KalmanBoxTracker(d, highApps[idx]));
         });
 
-        // 6. Remove lost tracks
-        this.tracks = this.tracks.filter(t => t.timeSinceUpdate < this.trackBufferFrames);
+        // 6. Lifecycle: confirm after minHits, lose on miss, remove after the buffer
+        this.tracks.forEach(t => t.updateLifecycle(this.minHits, this.trackBufferFrames));
+        this.tracks = this.tracks.filter(t => t.trackState !== 'removed');
 
         // Return tracks
-        return this.tracks.map(t => {
-            const [x, y, w, h] = t.getBBox();
-            return {
-                trackId: t.trackId,
-                bbox: [x, y, w, h],
-                score: 1.0,
-                classId: 0,
-                className: 'vehicle',
-                state: t.state,
-                covariance: t.P,
-                age: t.age,
-                hits: t.hits,
-                timeSinceUpdate: t.timeSinceUpdate,
-                appearance: t.appearance
-            } as Track;
-        });
+        return this.tracks.map(t => t.toTrack());
     }
 
     // Match with combined IoU + Appearance similarity
@@ -398,44 +494,29 @@ export class BoTSORT {
         iouThresh: number,
         appearances: (number[] | undefined)[]
     ) {
-        const matches: [number, number][] = [];
-        const unmatchedTracks = new Set(trackIndices);
-        const unmatchedDets = new Set(detIndices);
-
-        const candidates: { tIdx: number, dIdx: number, score: number }[] = [];
-
-        trackIndices.forEach(tIdx => {
-            detIndices.forEach(dIdx => {
+        return associate(
+            trackIndices,
+            detIndices,
+            (tIdx, dIdx) => {
                 const iouScore = iou(tracks[tIdx].getBBox(), dets[dIdx].bbox);
 
                 // Combine IoU with appearance if available
-                let finalScore = iouScore;
                 if (tracks[tIdx].appearance && appearances[dIdx]) {
                     const appSim = cosineSimilarity(tracks[tIdx].appearance!, appearances[dIdx]!);
-                    finalScore = (1 - this.appearanceWeight) * iouScore + this.appearanceWeight * appSim;
+                    return (1 - this.appearanceWeight) * iouScore + this.appearanceWeight * appSim;
                 }
+                return iouScore;
+            },
+            iouThresh,
+            this.matchMethod,
+            this.gate(tracks, dets)
+        );
+    }
 
-                if (finalScore >= iouThresh) {
-                    candidates.push({ tIdx, dIdx, score: finalScore });
-                }
-            });
-        });
-
-        candidates.sort((a, b) => b.score - a.score);
-
-        candidates.forEach(c => {
-            if (unmatchedTracks.has(c.tIdx) && unmatchedDets.has(c.dIdx)) {
-                matches.push([c.tIdx, c.dIdx]);
-                unmatchedTracks.delete(c.tIdx);
-                unmatchedDets.delete(c.dIdx);
-            }
-        });
-
-        return {
-            matches,
-            unmatchedTracks: Array.from(unmatchedTracks),
-            unmatchedDets: Array.from(unmatchedDets)
-        };
+    // Reject pairs outside the 95% Mahalanobis ellipse of the predicted state
+    private gate(tracks: KalmanBoxTracker[], dets: Detection[]) {
+        if (!this.mahalanobisGating) return undefined;
+        return (tIdx: number, dIdx: number) => tracks[tIdx].gatingDistance(dets[dIdx].bbox) <= CHI2_INV_95[4];
     }
 }
 
@@ -443,24 +524,32 @@ export class BoTSORT {
 export class YoloDetector {
     session: ort.InferenceSession | null = null;
     poseSession: ort.InferenceSession | null = null;
+    private preprocessor = new LetterboxPreprocessor(640, 32);
+
+    provider: ExecutionProvider | null = null; // Provider that actually initialized
+    reidSession: ort.InferenceSession | null = null; // Optional vehicle ReID model (BoT-SORT)
+    private reidPreprocessor = new CropPreprocessor(256, 256);
+    private runtime: RuntimeOptions = DEFAULT_RUNTIME;
 
-    async load(modelPath: string, poseModelPath?: string) {
+    async load(modelPath: string, poseModelPath?: string, runtime: RuntimeOptions = DEFAULT_RUNTIME) {
         try {
             // Configure WASM paths to ensure they are found in public/ or root
             // Use BASE_URL to support GitHub Pages subdirectory deployment
             ort.env.wasm.wasmPaths = import.meta.env.BASE_URL;
+            if (runtime.numThreads > 0) ort.env.wasm.numThreads = runtime.numThreads;
 
-            this.session = await ort.InferenceSession.create(modelPath, {
-                executionProviders: ['wasm'] // Start with WASM CPU for stability
-            });
-            console.log("YOLOv11 Loaded", this.session.outputNames, this.session.inputNames);
+            this.runtime = runtime;
+            const { session, provider } = await this.createSession(modelPath, runtime.executionProviders);
+            this.session = session;
+            this.provider = provider;
+            console.log(`YOLOv11 Loaded (${provider})`, this.session.outputNames, this.session.inputNames);
 
             // Load pose model if provided (Optional / Soft Fail)
+            // Starts from the provider the detector settled on
             if (poseModelPath) {
                 try {
-                    this.poseSession = await ort.InferenceSession.create(poseModelPath, {
-                        executionProviders: ['wasm']
-                    });
+                    const providers = runtime.executionProviders.slice(runtime.executionProviders.indexOf(provider));
+                    this.poseSession = (await this.createSession(poseModelPath, providers)).session;
                     console.log("YOLOv11-Pose Loaded", this.poseSession.outputNames, this.poseSession.inputNames);
                 } catch (poseError) {
                     console.warn("Failed to load Pose model (continuing without pose features):", poseError);
@@ -472,31 +561,74 @@ export class YoloDetector {
         }
     }
 
-    async detectPose(video: HTMLVideoElement, confThreshold: number = 0.5): Promise<PoseDetection[]> {
-        if (!this.poseSession) return [];
+    // Load (or unload with null) the ReID model on the same runtime as the detector.
+    // Soft fail: BoTSORT falls back to HSV histograms without it.
+    async loadReid(modelPath: string | null, inputWidth = 256, inputHeight = 256): Promise<boolean> {
+        this.reidSession = null;
+        if (!modelPath) return false;
+        try {
+            const chain = this.provider
+                ? this.runtime.executionProviders.slice(this.runtime.executionProviders.indexOf(this.provider))
+                : this.runtime.executionProviders;
+            this.reidSession = (await this.createSession(modelPath, chain)).session;
+            this.reidPreprocessor = new CropPreprocessor(inputWidth, inputHeight);
+            console.log("ReID Loaded", this.reidSession.outputNames, this.reidSession.inputNames);
+            return true;
+        } catch (e) {
+            console.warn("Failed to load ReID model (falling back to HSV histograms):", e);
+            return false;
+        }
+    }
+
+    // L2-normalized ReID embedding per detection ([] where the crop is unusable)
+    async embed(frame: FrameSource, detections: Detection[]): Promise<number[][]> {
+        if (!this.reidSession) return [];
+        const { width, height } = this.reidPreprocessor;
+        const inputName = this.reidSession.inputNames[0];
+        const embeddings: number[][] = [];
+
+        for (const det of detections) {
+            const data = this.reidPreprocessor.run(frame, det.bbox);
+            if (!data) {
+                embeddings.push([]);
+                continue;
+            }
+            const tensor = new ort.Tensor('float32', data, [1, 3, height, width]);
+            const results = await this.reidSession.run({ [inputName]: tensor });
+            const feature = Array.from(results[this.reidSession.outputNames[0]].data as Float32Array);
+            embeddings.push(l2Normalize(feature));
+        }
+        return embeddings;
+    }
 
-        // 1. Preprocess (same as detect)
-        const canvas = document.createElement('canvas');
-        canvas.width = 640;
-        canvas.height = 640;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return [];
-
-        ctx.drawImage(video, 0, 0, 640, 640);
-        const imgData = ctx.getImageData(0, 0, 640, 640);
-
-        const float32Data = new Float32Array(3 * 640 * 640);
-        for (let i = 0; i < 640 * 640; i++) {
-            const r = imgData.data[i * 4] / 255.0;
-            const g = imgData.data[i * 4 + 1] / 255.0;
-            const b = imgData.data[i * 4 + 2] / 255.0;
-
-            float32Data[i] = r;
-            float32Data[640 * 640 + i] = g;
-            float32Data[2 * 640 * 640 + i] = b;
+    // Letterbox once per frame; the result can be passed to detect() and detectPose()
+    prepare(frame: FrameSource): PreprocessResult | null {
+        return this.preprocessor.run(frame, ...frameSize(frame));
+    }
+
+    // Try each execution provider in order, falling back when one fails to initialize
+    private async createSession(modelPath: string, providers: ExecutionProvider[]) {
+        let lastError: unknown = new Error("No execution providers configured");
+        for (const provider of providers) {
+            try {
+                const session = await ort.InferenceSession.create(modelPath, { executionProviders: [provider] });
+                return { session, provider };
+            } catch (e) {
+                console.warn(`ONNX provider '${provider}' unavailable, falling back`, e);
+                lastError = e;
+            }
         }
+        throw lastError;
+    }
+
+    async detectPose(video: FrameSource, confThreshold: number = 0.5, prepared?: PreprocessResult | null): Promise<PoseDetection[]> {
+        if (!this.poseSession) return [];
 
-        const tensor = new ort.Tensor('float32', float32Data, [1, 3, 640, 640]);
+        // 1. Preprocess (same letterbox as detect)
+        const pre = prepared || this.prepare(video);
+        if (!pre) return [];
+        const { info } = pre;
+        const tensor = new ort.Tensor('float32', pre.data, [1, 3, info.size, info.size]);
 
         // 2. Inference
         const feeds = { images: tensor };
@@ -521,8 +653,6 @@ export class YoloDetector {
         }
 
         const predictions: PoseDetection[] = [];
-        const scaleX = video.videoWidth / 640;
-        const scaleY = video.videoHeight / 640;
 
         for (let i = 0; i < numAnchors; i++) {
             let cx, cy, w, h, score;
@@ -560,15 +690,16 @@ export class YoloDetector {
                         kconf = output[(5 + k * 3 + 2) * numAnchors + i];
                     }
 
+                    const [px, py] = unletterboxPoint(kx, ky, info);
                     keypoints.push({
-                        x: kx * scaleX,
-                        y: ky * scaleY,
+                        x: px,
+                        y: py,
                         confidence: kconf
                     });
                 }
 
                 predictions.push({
-                    bbox: [(cx - w / 2) * scaleX, (cy - h / 2) * scaleY, w * scaleX, h * scaleY],
+                    bbox: unletterboxBox(cx, cy, w, h, info),
                     score,
                     classId: 0, // Person
                     className: 'person',
@@ -594,33 +725,15 @@ export class YoloDetector {
         return selected;
     }
 
-    async detect(video: HTMLVideoElement, confThreshold: number = 0.4): Promise<Detection[]> {
+    async detect(video: FrameSource, confThreshold: number = 0.4, prepared?: PreprocessResult | null): Promise<Detection[]> {
         if (!this.session) return [];
 
         // 1. Preprocess
-        // Resize to 640x640
-        const canvas = document.createElement('canvas');
-        canvas.width = 640;
-        canvas.height = 640;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return [];
-
-        ctx.drawImage(video, 0, 0, 640, 640);
-        const imgData = ctx.getImageData(0, 0, 640, 640);
-
-        // Float32 Float Tensor CHW
-        const float32Data = new Float32Array(3 * 640 * 640);
-        for (let i = 0; i < 640 * 640; i++) {
-            const r = imgData.data[i * 4] / 255.0;
-            const g = imgData.data[i * 4 + 1] / 255.0;
-            const b = imgData.data[i * 4 + 2] / 255.0;
-
-            float32Data[i] = r;
-            float32Data[640 * 640 + i] = g;
-            float32Data[2 * 640 * 640 + i] = b;
-        }
-
-        const tensor = new ort.Tensor('float32', float32Data, [1, 3, 640, 640]);
+        // Letterbox to 640x640 (aspect preserved, gray padding)
+        const pre = prepared || this.prepare(video);
+        if (!pre) return [];
+        const { info } = pre;
+        const tensor = new ort.Tensor('float32', pre.data, [1, 3, info.size, info.size]);
 
         // 2. Inference
         const feeds = { images: tensor }; // check model input name. Usually 'images'.
@@ -691,12 +804,9 @@ export class YoloDetector {
                     h = output[3 * numAnchors + i];
                 }
 
-                // Scale to video size
-                const scaleX = video.videoWidth / 640;
-                const scaleY = video.videoHeight / 640;
-
+                // Undo letterbox: network pixels -> video pixels
                 predictions.push({
-                    bbox: [(cx - w / 2) * scaleX, (cy - h / 2) * scaleY, w * scaleX, h * scaleY],
+                    bbox: unletterboxBox(cx, cy, w, h, info),
                     score: maxScore,
                     classId: maxClass,
                     className: COCO_CLASSES[maxClass] || 'unknown'
@@ -0,0 +1,295 @@
+// --- Worker-backed YOLO Detector (main thread side) ---
+// Non-blocking front for yolo-worker.ts: processFrame submits frames and picks up the
+// newest finished result on a later tick. Only one frame is in flight; while the
+// worker is busy, newer submissions replace older ones so stale frames never queue.
+// If the worker script itself fails (module workers unsupported, CSP, bundling), inference
+// falls back to the main thread.
+import { YoloDetector, Detection, PoseDetection, ExecutionProvider, RuntimeOptions, extractAppearance } from './yolo-tracker';
+import { FrameCapture, StageTimings, timeStage, timeStageAsync } from './frame-capture';
+import { Affine, GlobalMotionCompensation, composeAffine } from './camera-motion';
+import type { WorkerRequest, WorkerResponse } from './yolo-worker';
+
+export interface InferenceOptions {
+    confThreshold: number;
+    pose: boolean;
+    poseThreshold: number;
+    appearance: boolean; // Appearance features: ReID embeddings when loaded, else HSV histograms
+    cameraMotion: boolean; // GMC between consecutive analyzed frames (BoT-SORT)
+    keepFrame: boolean;    // Hand back a copy of the analyzed frame (ANPR crops at the detected boxes)
+}
+
+export interface InferenceResult {
+    frameId: number;
+    mediaTime: number; // Media time (s) of the analyzed frame
+    detections: Detection[];
+    poses: PoseDetection[];
+    appearances?: number[][]; // Aligned with detections, from the same frame
+    affine?: Affine; // Camera motion since the previous result the tracker consumed
+    frame?: ImageBitmap; // The analyzed frame (keepFrame); whoever takes the result closes it
+    inferenceMs: number;
+    timings: StageTimings; // Worker-side stages (preprocess, detect, pose, appearance, gmc)
+}
+
+// The worker script failed to run: load() falls back to the inline detector
+class WorkerFailedError extends Error { }
+
+interface PendingFrame {
+    frameId: number;
+    capture: FrameCapture;
+    options: InferenceOptions;
+}
+
+export class WorkerYoloDetector {
+    poseReady = false;
+    reidReady = false;
+    provider: ExecutionProvider | null = null;
+    droppedFrames = 0;
+    lastInferenceMs = 0;
+    lastTimings: StageTimings = {};
+
+    private worker: Worker | null = null;
+    private inline: YoloDetector | null = null; // Fallback when workers/OffscreenCanvas are unavailable
+    private inlineGmc = new GlobalMotionCompensation();
+    private busy = false;
+    private pending: PendingFrame | null = null;
+    private result: InferenceResult | null = null;
+    private nextFrameId = 0;
+    private inFlightMediaTime = 0; // Media time of the frame being analyzed (one in flight)
+    private inFlightFrame: ImageBitmap | null = null; // keepFrame copy of that frame
+    private loadArgs: [string, string | undefined, RuntimeOptions | undefined] | null = null;
+    private loadResolve: (() => void) | null = null;
+    private loadReject: ((e: Error) => void) | null = null;
+    private reidResolve: ((ok: boolean) => void) | null = null;
+
+    constructor() {
+        if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+            this.worker = new Worker(new URL('./yolo-worker.ts', import.meta.url), { type: 'module' });
+            this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.handleMessage(e.data);
+            this.worker.onmessageerror = () => this.handleMessage({ type: 'error', message: 'Undecodable worker message' });
+            this.worker.onerror = (e) => {
+                e.preventDefault();
+                this.workerFailed(e.message || 'worker script error');
+            };
+        } else {
+            console.warn("OffscreenCanvas unavailable: YOLO inference will run on the main thread");
+            this.inline = new YoloDetector();
+        }
+    }
+
+    async load(modelPath: string, poseModelPath?: string, runtime?: RuntimeOptions) {
+        this.loadArgs = [modelPath, poseModelPath, runtime];
+        if (this.worker) {
+            try {
+                await new Promise<void>((resolve, reject) => {
+                    this.loadResolve = resolve;
+                    this.loadReject = reject;
+                    this.post({ type: 'load', modelPath, poseModelPath, runtime });
+                });
+                return;
+            } catch (e) {
+                if (!(e instanceof WorkerFailedError)) throw e;
+            }
+        }
+
+        await this.inline!.load(modelPath, poseModelPath, runtime);
+        this.poseReady = !!this.inline!.poseSession;
+        this.provider = this.inline!.provider;
+    }
+
+    // Swap the ReID model (null unloads it); resolves false when it failed to load
+    async setReidModel(modelPath: string | null): Promise<boolean> {
+        if (this.inline) {
+            this.reidReady = await this.inline.loadReid(modelPath);
+            return this.reidReady;
+        }
+
+        this.reidReady = await new Promise<boolean>(resolve => {
+            this.reidResolve = resolve;
+            this.post({ type: 'reid', modelPath });
+        });
+        return this.reidReady;
+    }
+
+    // Queue the current tick's frame; never blocks the caller
+    submit(capture: FrameCapture, options: InferenceOptions) {
+        const frame = { frameId: this.nextFrameId++, capture, options };
+        if (this.busy) {
+            if (this.pending) this.droppedFrames++;
+            this.pending = frame;
+            return;
+        }
+        this.dispatch(frame);
+    }
+
+    // Newest finished result, handed out once
+    takeResult(): InferenceResult | null {
+        const r = this.result;
+        this.result = null;
+        return r;
+    }
+
+    terminate() {
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending = null;
+        this.inFlightFrame?.close();
+        this.inFlightFrame = null;
+        this.result?.frame?.close();
+        this.result = null;
+    }
+
+    private async dispatch(frame: PendingFrame) {
+        this.busy = true;
+        const { capture, options } = frame;
+
+        if (this.inline) {
+            const detector = this.inline;
+            const source = capture.source();
+            if (!source) {
+                this.finish(null);
+                return;
+            }
+
+            this.inFlightMediaTime = capture.mediaTime;
+            const start = performance.now();
+            const timings: StageTimings = {};
+            const copy = options.keepFrame ? capture.bitmap() : null; // Snapshot taken now, before any await
+            try {
+                // Sampled before awaiting: the capture canvas is redrawn by later ticks
+                const gray = options.cameraMotion ? timeStage(timings, 'gmc', () => this.inlineGmc.sample(source, capture.width, capture.height)) : null;
+                const pre = timeStage(timings, 'preprocess', () => detector.prepare(source));
+                const detections = await timeStageAsync(timings, 'detect', () => detector.detect(source, options.confThreshold, pre));
+                const poses = options.pose && detector.poseSession
+                    ? await timeStageAsync(timings, 'pose', () => detector.detectPose(source, options.poseThreshold, pre))
+                    : [];
+
+                let appearances: number[][] | undefined;
+                if (options.appearance && detector.reidSession) {
+                    appearances = await timeStageAsync(timings, 'appearance', () => detector.embed(source, detections));
+                } else if (options.appearance) {
+                    const pixels = capture.imageData();
+                    appearances = pixels ? timeStage(timings, 'appearance', () => detections.map(d => extractAppearance(pixels, d.bbox))) : undefined;
+                }
+
+                let affine: Affine | undefined;
+                if (options.cameraMotion) {
+                    affine = timeStage(timings, 'gmc', () => this.inlineGmc.compare(gray, capture.width, detections.map(d => d.bbox)));
+                } else {
+                    this.inlineGmc.reset();
+                }
+
+                const analyzed = (await copy) ?? undefined;
+                this.finish({ frameId: frame.frameId, mediaTime: this.inFlightMediaTime, detections, poses, appearances, affine, frame: analyzed, inferenceMs: performance.now() - start, timings });
+            } catch (e) {
+                console.error("YOLO inference error", e);
+                copy?.then(b => b?.close(), () => { });
+                this.finish(null);
+            }
+            return;
+        }
+
+        try {
+            // Both copies are snapshotted from the same capture before awaiting
+            const { keepFrame, ...request } = options;
+            const [bitmap, copy] = await Promise.all([capture.bitmap(), keepFrame ? capture.bitmap() : null]);
+            if (!bitmap) {
+                copy?.close();
+                throw new Error("Frame not ready");
+            }
+            this.inFlightMediaTime = capture.mediaTime;
+            this.inFlightFrame = copy;
+            this.post({ type: 'frame', frameId: frame.frameId, bitmap, ...request }, [bitmap]);
+        } catch (e) {
+            // Video not ready yet (e.g. between sources); try again on the next submit
+            this.finish(null);
+        }
+    }
+
+    // The worker died (or never started): continue on the main thread. A pending load() falls
+    // back by itself; a model already loaded in the worker is loaded again inline.
+    private workerFailed(message: string) {
+        if (!this.worker) return;
+        console.warn(`YOLO worker failed (${message}): inference will run on the main thread`);
+        this.worker.terminate();
+        this.worker = null;
+        this.inline = new YoloDetector();
+        this.reidReady = false;
+        this.inFlightFrame?.close();
+        this.inFlightFrame = null;
+        this.reidResolve?.(false);
+        this.reidResolve = null;
+
+        const reject = this.loadReject;
+        this.loadResolve = this.loadReject = null;
+        if (reject) {
+            reject(new WorkerFailedError(message));
+        } else if (this.loadArgs) {
+            this.load(...this.loadArgs).catch(e => console.error("Inline YOLO load failed", e));
+        }
+        if (this.busy) this.finish(null);
+    }
+
+    private handleMessage(msg: WorkerResponse) {
+        switch (msg.type) {
+            case 'loaded':
+                this.poseReady = msg.pose;
+                this.provider = msg.provider;
+                this.loadResolve?.();
+                this.loadResolve = this.loadReject = null;
+                break;
+            case 'reidLoaded':
+                this.reidResolve?.(msg.ok);
+                this.reidResolve = null;
+                break;
+            case 'result':
+                this.finish({ ...msg, mediaTime: this.inFlightMediaTime, frame: this.inFlightFrame ?? undefined });
+                this.inFlightFrame = null;
+                break;
+            case 'error':
+                if (this.loadReject && msg.frameId === undefined) {
+                    this.loadReject(new Error(msg.message));
+                    this.loadResolve = this.loadReject = null;
+                } else {
+                    console.error("YOLO worker error", msg.message);
+                    this.inFlightFrame?.close();
+                    this.inFlightFrame = null;
+                    this.finish(null);
+                }
+                break;
+        }
+    }
+
+    private finish(result: InferenceResult | null) {
+        if (result) {
+            let affine = result.affine;
+            if (this.result) {
+                this.droppedFrames++;
+                // The tracker never sees the replaced result: carry its camera motion forward
+                if (this.result.affine && affine) affine = composeAffine(this.result.affine, affine);
+                this.result.frame?.close();
+            }
+            this.result = {
+                frameId: result.frameId,
+                mediaTime: result.mediaTime,
+                detections: result.detections,
+                poses: result.poses,
+                appearances: result.appearances,
+                affine,
+                frame: result.frame,
+                inferenceMs: result.inferenceMs,
+                timings: result.timings
+            };
+            this.lastInferenceMs = result.inferenceMs;
+            this.lastTimings = result.timings;
+        }
+
+        this.busy = false;
+        const next = this.pending;
+        this.pending = null;
+        if (next) this.dispatch(next);
+    }
+
+    private post(msg: WorkerRequest, transfer: Transferable[] = []) {
+        this.worker?.postMessage(msg, transfer);
+    }
+}
@@ -0,0 +1,104 @@
+// --- YOLO Inference Worker ---
+// Hosts YoloDetector off the main thread. Frames arrive as transferred ImageBitmaps,
+// detections go back as plain objects so the HUD loop never waits on ONNX.
+// Each bitmap is letterboxed once for detection + pose, and appearance features are
+// computed from the same bitmap so they describe exactly the detected frame. Camera motion
+// (GMC) is measured here too, between consecutive analyzed bitmaps.
+import { YoloDetector, Detection, PoseDetection, ExecutionProvider, RuntimeOptions, extractAppearance, frameSize } from './yolo-tracker';
+import { FrameReader } from './yolo-preprocess';
+import { Affine, GlobalMotionCompensation } from './camera-motion';
+import { StageTimings, timeStage, timeStageAsync } from './frame-capture';
+
+// --- Message Protocol ---
+export type WorkerRequest =
+    | { type: 'load'; modelPath: string; poseModelPath?: string; runtime?: RuntimeOptions }
+    | { type: 'reid'; modelPath: string | null }
+    | {
+        type: 'frame';
+        frameId: number;
+        bitmap: ImageBitmap;
+        confThreshold: number;
+        pose: boolean;
+        poseThreshold: number;
+        appearance: boolean; // ReID embeddings when loaded, else HSV histograms
+        cameraMotion: boolean; // GMC affine from the previous analyzed frame
+    };
+
+export type WorkerResponse =
+    | { type: 'loaded'; pose: boolean; provider: ExecutionProvider }
+    | { type: 'reidLoaded'; ok: boolean }
+    | { type: 'result'; frameId: number; detections: Detection[]; poses: PoseDetection[]; appearances?: number[][]; affine?: Affine; inferenceMs: number; timings: StageTimings }
+    | { type: 'error'; frameId?: number; message: string };
+
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+    postMessage(msg: WorkerResponse): void;
+};
+
+const detector = new YoloDetector();
+const reader = new FrameReader();
+const gmc = new GlobalMotionCompensation();
+
+scope.onmessage = async (e) => {
+    const msg = e.data;
+
+    if (msg.type === 'load') {
+        try {
+            await detector.load(msg.modelPath, msg.poseModelPath, msg.runtime);
+            scope.postMessage({ type: 'loaded', pose: !!detector.poseSession, provider: detector.provider! });
+        } catch (err) {
+            scope.postMessage({ type: 'error', message: String(err) });
+        }
+        return;
+    }
+
+    if (msg.type === 'reid') {
+        scope.postMessage({ type: 'reidLoaded', ok: await detector.loadReid(msg.modelPath) });
+        return;
+    }
+
+    if (msg.type === 'frame') {
+        const start = performance.now();
+        const timings: StageTimings = {};
+        const bitmap = msg.bitmap;
+        try {
+            const pre = timeStage(timings, 'preprocess', () => detector.prepare(bitmap));
+            const detections = await timeStageAsync(timings, 'detect', () => detector.detect(bitmap, msg.confThreshold, pre));
+            const poses = msg.pose && detector.poseSession
+                ? await timeStageAsync(timings, 'pose', () => detector.detectPose(bitmap, msg.poseThreshold, pre))
+                : [];
+
+            let appearances: number[][] | undefined;
+            if (msg.appearance && detector.reidSession) {
+                appearances = await timeStageAsync(timings, 'appearance', () => detector.embed(bitmap, detections));
+            } else if (msg.appearance) {
+                appearances = timeStage(timings, 'appearance', () => {
+                    const pixels = reader.read(bitmap, ...frameSize(bitmap));
+                    return pixels ? detections.map(d => extractAppearance(pixels, d.bbox)) : undefined;
+                });
+            }
+
+            let affine: Affine | undefined;
+            if (msg.cameraMotion) {
+                affine = timeStage(timings, 'gmc', () => gmc.estimate(bitmap, ...frameSize(bitmap), detections.map(d => d.bbox)));
+            } else {
+                gmc.reset(); // Don't estimate across a gap when re-enabled
+            }
+
+            scope.postMessage({
+                type: 'result',
+                frameId: msg.frameId,
+                detections,
+                poses,
+                appearances,
+                affine,
+                inferenceMs: performance.now() - start,
+                timings
+            });
+        } catch (err) {
+            scope.postMessage({ type: 'error', frameId: msg.frameId, message: String(err) });
+        } finally {
+            msg.bitmap.close();
+        }
+    }
+};
@@ -0,0 +1,248 @@
+// --- Zone Editor (hit testing, snapping, history, directive serialization) ---
+// Framework-free helpers behind the on-canvas line/zone editor. Everything works in the
+// normalized 0-1000 space of zone-geometry.ts; the component maps pointer events into it.
+import { Vec2, ZoneGeometry, zoneVertices, zoneEdges, isAreaZone, pointInPolygon, distanceToSegment } from './zone-geometry';
+
+// Where a zone came from: only editor-drawn zones and zones parsed from a directive can be
+// written back as directives (presets and synthesized lines are regenerated from elsewhere)
+export type ZoneOrigin =
+    | { kind: 'preset'; key: string }      // Road preset line (<config>:<index>)
+    | { kind: 'directive'; text: string }  // Parsed from this [LINE]/[PATH]/[ZONE] directive
+    | { kind: 'synthesized'; key: string } // AUTO keyword lines, lane dividers (synthesized label)
+    | { kind: 'editor'; key: string };     // Drawn in the editor
+
+export interface EditableZone extends ZoneGeometry {
+    label: string;
+    type: string;
+    direction: 'bidirectional' | 'northbound' | 'southbound';
+    infractionType?: string | null;
+    origin?: ZoneOrigin;
+    edited?: boolean; // Changed in the editor since it was parsed / synthesized
+}
+
+export type EditorTool = 'select' | 'segment' | 'polyline' | 'polygon';
+
+export interface HandleHit {
+    zone: number;   // Index into the zone list
+    vertex: number; // Index into zoneVertices()
+}
+
+export interface SnapOptions {
+    grid: number;         // Grid pitch (0 disables grid snapping)
+    vertexRadius: number; // Pull towards existing vertices within this distance
+    angleStep?: number;   // Degrees; constrains the point around `anchor`
+    anchor?: Vec2;
+}
+
+// Legacy full-width line: only `y` (dragging keeps it horizontal)
+export function isLegacyHorizontal(zone: ZoneGeometry): boolean {
+    return !zone.points && zone.x1 === undefined;
+}
+
+// Nearest vertex handle within radius (later zones win ties: they are drawn on top)
+export function hitTestHandle(zones: ZoneGeometry[], p: Vec2, radius: number): HandleHit | null {
+    let best: HandleHit | null = null;
+    let bestDist = radius;
+    zones.forEach((zone, zi) => {
+        zoneVertices(zone).forEach((v, vi) => {
+            const d = Math.hypot(v.x - p.x, v.y - p.y);
+            if (d <= bestDist) {
+                bestDist = d;
+                best = { zone: zi, vertex: vi };
+            }
+        });
+    });
+    return best;
+}
+
+// Topmost zone whose outline is within tolerance or whose area contains p, or -1
+export function hitTestZone(zones: ZoneGeometry[], p: Vec2, tolerance: number): number {
+    for (let i = zones.length - 1; i >= 0; i--) {
+        const zone = zones[i];
+        if (zoneEdges(zone).some(([a, b]) => distanceToSegment(p, a, b) <= tolerance)) return i;
+        if (isAreaZone(zone) && pointInPolygon(p, zoneVertices(zone))) return i;
+    }
+    return -1;
+}
+
+export function snapPoint(p: Vec2, zones: ZoneGeometry[], options: SnapOptions): Vec2 {
+    // 1. Angle constraint around the previous vertex (Shift while drawing)
+    let q = { ...p };
+    if (options.anchor && options.angleStep) {
+        const step = options.angleStep * Math.PI / 180;
+        const dx = q.x - options.anchor.x;
+        const dy = q.y - options.anchor.y;
+        const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+        const len = Math.hypot(dx, dy);
+        q = { x: options.anchor.x + Math.cos(angle) * len, y: options.anchor.y + Math.sin(angle) * len };
+    }
+
+    // 2. Existing vertices (close shared corners between zones)
+    const hit = hitTestHandle(zones, q, options.vertexRadius);
+    if (hit) return { ...zoneVertices(zones[hit.zone])[hit.vertex] };
+
+    // 3. Grid
+    if (options.grid > 0 && !(options.anchor && options.angleStep)) {
+        q = { x: Math.round(q.x / options.grid) * options.grid, y: Math.round(q.y / options.grid) * options.grid };
+    }
+    return { x: clamp(q.x), y: clamp(q.y) };
+}
+
+function clamp(v: number): number {
+    return Math.max(0, Math.min(1000, v));
+}
+
+// Zone with one vertex moved; angled/legacy lines are promoted to explicit points
+export function moveVertex<T extends EditableZone>(zone: T, vertex: number, p: Vec2): T {
+    if (isLegacyHorizontal(zone)) return { ...zone, y: Math.round(clamp(p.y)) };
+    const points = zoneVertices(zone).map((v, i) => i === vertex ? { x: Math.round(clamp(p.x)), y: Math.round(clamp(p.y)) } : { ...v });
+    return withPoints(zone, points);
+}
+
+// Whole zone translated by (dx, dy)
+export function translateZone<T extends EditableZone>(zone: T, dx: number, dy: number): T {
+    if (isLegacyHorizontal(zone)) return { ...zone, y: Math.round(clamp(zone.y + dy)) };
+    const points = zoneVertices(zone).map(v => ({ x: Math.round(clamp(v.x + dx)), y: Math.round(clamp(v.y + dy)) }));
+    return withPoints(zone, points);
+}
+
+function withPoints<T extends EditableZone>(zone: T, points: Vec2[]): T {
+    const { x1, x2, y2, angle, ...rest } = zone as T & { angle?: number };
+    return {
+        ...rest,
+        y: points[0].y,
+        shape: zone.shape || (points.length > 2 ? 'polyline' : 'segment'),
+        points
+    } as T;
+}
+
+// --- Undo / redo ---
+export class EditHistory<T> {
+    private past: T[] = [];
+    private future: T[] = [];
+
+    constructor(private limit = 100) { }
+
+    // Remember the state before an edit
+    record(state: T) {
+        this.past.push(state);
+        if (this.past.length > this.limit) this.past.shift();
+        this.future = [];
+    }
+
+    undo(current: T): T | null {
+        const prev = this.past.pop();
+        if (prev === undefined) return null;
+        this.future.push(current);
+        return prev;
+    }
+
+    redo(current: T): T | null {
+        const next = this.future.pop();
+        if (next === undefined) return null;
+        this.past.push(current);
+        return next;
+    }
+
+    get canUndo() { return this.past.length > 0; }
+    get canRedo() { return this.future.length > 0; }
+}
+
+// --- Directive serialization ([LINE]/[PATH]/[ZONE] syntax read by parseDirectivesToLines) ---
+export const EDITOR_BLOCK_START = '# ZONAS EDITOR MANUAL';
+export const EDITOR_BLOCK_END = '# FIN ZONAS EDITOR';
+
+export function serializeZone(zone: EditableZone): string {
+    const label = zone.label.replace(/[,\]\[]/g, ' ').replace(/\s+/g, ' ').trim() || 'ZONA';
+    const tail = `TYPE=${zone.type}, LABEL=${label}`
+        + `, INFRACTION=${zone.infractionType || 'null'}`
+        + (zone.direction !== 'bidirectional' ? `, DIRECTION=${zone.direction}` : '');
+
+    if (isLegacyHorizontal(zone)) return `[LINE: Y=${Math.round(zone.y)}, ${tail}]`;
+    const points = zoneVertices(zone).map(v => `${Math.round(v.x)}:${Math.round(v.y)}`).join(' ');
+    return `[${isAreaZone(zone) ? 'ZONE' : 'PATH'}: POINTS=${points}, ${tail}]`;
+}
+
+// Write the editor's changes into the directives text. `parsed` are the zones the text
+// produces, `zones` the editor's current ones: an edited zone replaces the directive it was
+// parsed from, a deleted one removes it, and zones drawn in the editor are appended to the
+// editor block. Unchanged zones are left exactly as written.
+export function writeZonesToDirectives(text: string, parsed: EditableZone[], zones: EditableZone[]): { text: string; written: number } {
+    let next = text;
+    let written = 0;
+
+    const kept = new Set(zones.map(z => (z.origin?.kind === 'directive' ? z.origin.text : null)));
+    parsed.forEach(z => {
+        if (z.origin?.kind !== 'directive' || kept.has(z.origin.text)) return;
+        const at = next.indexOf(z.origin.text);
+        if (at < 0) return;
+        // A directive on a line of its own takes its line break with it
+        const end = at + z.origin.text.length;
+        const ownLine = next[end] === '\n' && (at === 0 || next[at - 1] === '\n');
+        next = next.slice(0, at) + next.slice(ownLine ? end + 1 : end);
+        written++;
+    });
+
+    const drawn: string[] = [];
+    zones.forEach(z => {
+        if (z.origin?.kind === 'directive' && z.edited) {
+            next = next.replace(z.origin.text, () => serializeZone(z));
+            written++;
+        } else if (z.origin?.kind === 'editor') {
+            drawn.push(serializeZone(z));
+        }
+    });
+
+    if (drawn.length > 0) {
+        written += drawn.length;
+        const start = next.indexOf(EDITOR_BLOCK_START);
+        const end = next.indexOf(EDITOR_BLOCK_END);
+        next = start >= 0 && end > start
+            ? next.slice(0, end).trimEnd() + '\n' + drawn.join('\n') + '\n' + next.slice(end)
+            : (next.trimEnd() ? next.trimEnd() + '\n\n' : '') + [EDITOR_BLOCK_START, ...drawn, EDITOR_BLOCK_END].join('\n');
+    }
+    return { text: next.replace(/\n{3,}/g, '\n\n'), written };
+}
+
+// --- Editor overrides ---
+// What the editor changed relative to the synthesized zones (presets, directives, AUTO lines).
+// Kept as state and merged into every re-synthesis, so leaving the editor or editing the
+// directives never discards edits that have not been written to the directives.
+export interface ZoneEdits<T extends EditableZone> {
+    changed: T[];      // Edited zones (replace the zone with the same origin) and drawn ones
+    removed: string[]; // originKey of deleted zones
+}
+
+// Identity of a zone across re-syntheses (survives edits to its label or geometry)
+export function originKey(zone: EditableZone): string | null {
+    const origin = zone.origin;
+    if (!origin) return null;
+    switch (origin.kind) {
+        case 'preset': return `preset:${origin.key}`;
+        case 'directive': return `directive:${origin.text}`;
+        case 'synthesized': return `synthesized:${origin.key}`;
+        case 'editor': return `editor:${origin.key}`;
+    }
+}
+
+export function diffZones<T extends EditableZone>(synthesized: T[], zones: T[]): ZoneEdits<T> {
+    const present = new Set(zones.map(originKey));
+    return {
+        changed: zones.filter(z => originKey(z) !== null && (z.edited || z.origin?.kind === 'editor')),
+        removed: synthesized.map(originKey).filter((k): k is string => k !== null && !present.has(k))
+    };
+}
+
+// Synthesized zones with the edits applied; an edit whose zone is no longer synthesized
+// (its directive was rewritten, its preset deselected) is dropped
+export function applyZoneEdits<T extends EditableZone>(synthesized: T[], edits: ZoneEdits<T>): T[] {
+    const changed = new Map(edits.changed.map(z => [originKey(z), z]));
+    const removed = new Set(edits.removed);
+    const merged = synthesized
+        .filter(z => {
+            const key = originKey(z);
+            return key === null || !removed.has(key);
+        })
+        .map(z => changed.get(originKey(z)) ?? z);
+    return [...merged, ...edits.changed.filter(z => z.origin?.kind === 'editor')];
+}
@@ -0,0 +1,254 @@
+// --- Zone Geometry (normalized 0-1000 frame space) ---
+// Detection lines used to be horizontal Y thresholds. A zone is now a segment, an open
+// polyline (lane markings that bend) or a closed polygon (bus lane, zebra crossing,
+// loading bay). Lines cross, polygons are occupied; dwell time is tracked per zone.
+
+export interface Vec2 {
+    x: number;
+    y: number;
+}
+
+export type ZoneShape = 'segment' | 'polyline' | 'polygon';
+
+// Geometry fields shared with DetectionLine. Legacy lines only carry `y` (full-width
+// horizontal line) or `y`, `x1`, `x2`, `y2` (angled segment from generateMeshGrid).
+export interface ZoneGeometry {
+    y: number;
+    x1?: number;
+    x2?: number;
+    y2?: number;
+    shape?: ZoneShape;
+    points?: Vec2[];
+}
+
+const EPS = 1e-9;
+
+// Vertices of any zone, legacy forms included
+export function zoneVertices(zone: ZoneGeometry): Vec2[] {
+    if (zone.points && zone.points.length >= 2) return zone.points;
+    if (zone.x1 !== undefined && zone.x2 !== undefined && zone.y2 !== undefined) {
+        return [{ x: zone.x1, y: zone.y }, { x: zone.x2, y: zone.y2 }];
+    }
+    return [{ x: 0, y: zone.y }, { x: 1000, y: zone.y }];
+}
+
+export function zoneShape(zone: ZoneGeometry): ZoneShape {
+    if (zone.shape) return zone.shape;
+    return zone.points && zone.points.length > 2 ? 'polyline' : 'segment';
+}
+
+export function isAreaZone(zone: ZoneGeometry): boolean {
+    return zoneShape(zone) === 'polygon' && zoneVertices(zone).length >= 3;
+}
+
+// Edges of the zone outline (closed for polygons)
+export function zoneEdges(zone: ZoneGeometry): [Vec2, Vec2][] {
+    const pts = zoneVertices(zone);
+    const edges: [Vec2, Vec2][] = [];
+    for (let i = 0; i < pts.length - 1; i++) edges.push([pts[i], pts[i + 1]]);
+    if (isAreaZone(zone)) edges.push([pts[pts.length - 1], pts[0]]);
+    return edges;
+}
+
+// z component of (b - a) x (c - a): > 0 when c is left of a->b (y grows downwards)
+export function cross(a: Vec2, b: Vec2, c: Vec2): number {
+    return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+function onSegment(a: Vec2, b: Vec2, p: Vec2): boolean {
+    return Math.min(a.x, b.x) - EPS <= p.x && p.x <= Math.max(a.x, b.x) + EPS
+        && Math.min(a.y, b.y) - EPS <= p.y && p.y <= Math.max(a.y, b.y) + EPS;
+}
+
+// Proper or touching intersection of segments p1-p2 and q1-q2 (orientation test)
+export function segmentsIntersect(p1: Vec2, p2: Vec2, q1: Vec2, q2: Vec2): boolean {
+    const d1 = cross(q1, q2, p1);
+    const d2 = cross(q1, q2, p2);
+    const d3 = cross(p1, p2, q1);
+    const d4 = cross(p1, p2, q2);
+
+    if (((d1 > EPS && d2 < -EPS) || (d1 < -EPS && d2 > EPS)) &&
+        ((d3 > EPS && d4 < -EPS) || (d3 < -EPS && d4 > EPS))) {
+        return true;
+    }
+
+    // Collinear / endpoint contact
+    if (Math.abs(d1) <= EPS && onSegment(q1, q2, p1)) return true;
+    if (Math.abs(d2) <= EPS && onSegment(q1, q2, p2)) return true;
+    if (Math.abs(d3) <= EPS && onSegment(p1, p2, q1)) return true;
+    if (Math.abs(d4) <= EPS && onSegment(p1, p2, q2)) return true;
+    return false;
+}
+
+export function distanceToSegment(p: Vec2, a: Vec2, b: Vec2): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Index of the first zone edge crossed by the movement from -> to, or -1.
+// A movement that only ends on the line (to touches it) counts; one that starts on it
+// does not, so a track sitting on a line is not reported twice.
+export function crossedEdge(zone: ZoneGeometry, from: Vec2, to: Vec2): number {
+    if (Math.abs(from.x - to.x) < EPS && Math.abs(from.y - to.y) < EPS) return -1;
+    const edges = zoneEdges(zone);
+    for (let i = 0; i < edges.length; i++) {
+        const [a, b] = edges[i];
+        if (Math.abs(cross(a, b, from)) <= EPS && onSegment(a, b, from)) continue;
+        if (segmentsIntersect(from, to, a, b)) return i;
+    }
+    return -1;
+}
+
+// Fraction (0-1) along from -> to at which the movement crosses the zone, or null.
+// Used to interpolate crossing instants between two timed observations.
+export function crossingFraction(zone: ZoneGeometry, from: Vec2, to: Vec2): number | null {
+    const edge = crossedEdge(zone, from, to);
+    if (edge < 0) return null;
+    const [a, b] = zoneEdges(zone)[edge];
+    const d0 = cross(a, b, from);
+    const d1 = cross(a, b, to);
+    return Math.abs(d0 - d1) > EPS ? Math.max(0, Math.min(1, d0 / (d0 - d1))) : 1;
+}
+
+// --- Signed crossing direction ---
+// Directions follow DetectionLine.direction: northbound = towards the top of the image
+// (away from the camera on a typical traffic view), southbound = towards the bottom.
+export type CrossingDirection = 'northbound' | 'southbound';
+
+export interface ZoneCrossing {
+    edge: number;    // Index into zoneEdges()
+    sign: 1 | -1;    // +1 along the north normal, -1 against it
+    direction: CrossingDirection;
+}
+
+// Normal of edge a-b oriented north (negative y). For vertical edges west counts as north.
+export function northNormal(a: Vec2, b: Vec2): Vec2 {
+    const n = { x: b.y - a.y, y: a.x - b.x };
+    if (n.y > EPS || (Math.abs(n.y) <= EPS && n.x > 0)) return { x: -n.x, y: -n.y };
+    return n;
+}
+
+// Crossing of the movement from -> to with its signed direction relative to the edge normal
+export function detectCrossing(zone: ZoneGeometry, from: Vec2, to: Vec2): ZoneCrossing | null {
+    const edge = crossedEdge(zone, from, to);
+    if (edge < 0) return null;
+    const [a, b] = zoneEdges(zone)[edge];
+    const n = northNormal(a, b);
+    const sign = (to.x - from.x) * n.x + (to.y - from.y) * n.y >= 0 ? 1 : -1;
+    return { edge, sign, direction: sign > 0 ? 'northbound' : 'southbound' };
+}
+
+// Travel direction of a movement (polygon entries have no single edge to refer to)
+export function headingDirection(from: Vec2, to: Vec2): CrossingDirection {
+    return to.y <= from.y ? 'northbound' : 'southbound';
+}
+
+// --- One-way enforcement ---
+// A direction can only be enforced on zones confined to one carriageway: polygons and segments /
+// polylines spanning less than LANE_CONFINED_SPAN of the frame width. A full-width line also
+// cuts across the oncoming carriageway, where the opposite direction is normal traffic.
+export const LANE_CONFINED_SPAN = 600;
+
+export function isLaneConfined(zone: ZoneGeometry): boolean {
+    if (isAreaZone(zone)) return true;
+    const xs = zoneVertices(zone).map(v => v.x);
+    return Math.max(...xs) - Math.min(...xs) < LANE_CONFINED_SPAN;
+}
+
+// Direction of a movement that clearly crossed the zone, from the first to the last point of
+// `path`: both ends at least `margin` away from a line, or ending inside a polygon after moving
+// `margin` along y. Box jitter on a line flips sides without ever getting clear of it.
+export function sustainedDirection(zone: ZoneGeometry, path: Vec2[], margin: number): CrossingDirection | null {
+    if (path.length < 2) return null;
+    const from = path[0];
+    const to = path[path.length - 1];
+    if (isAreaZone(zone)) {
+        return zoneContains(zone, to) && Math.abs(to.y - from.y) >= margin ? headingDirection(from, to) : null;
+    }
+    const crossing = detectCrossing(zone, from, to);
+    if (!crossing) return null;
+    const clearance = (p: Vec2) => Math.min(...zoneEdges(zone).map(([a, b]) => distanceToSegment(p, a, b)));
+    return clearance(from) >= margin && clearance(to) >= margin ? crossing.direction : null;
+}
+
+// Even-odd ray casting
+export function pointInPolygon(p: Vec2, polygon: Vec2[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.y > p.y) !== (b.y > p.y)) {
+            const xCross = a.x + (p.y - a.y) * (b.x - a.x) / (b.y - a.y);
+            if (p.x < xCross) inside = !inside;
+        }
+    }
+    return inside;
+}
+
+export function zoneContains(zone: ZoneGeometry, p: Vec2): boolean {
+    return isAreaZone(zone) && pointInPolygon(p, zoneVertices(zone));
+}
+
+// Anchor for labels and handles: first vertex
+export function zoneAnchor(zone: ZoneGeometry): Vec2 {
+    return zoneVertices(zone)[0];
+}
+
+// --- Dwell time per (track, zone) ---
+export interface DwellRecord {
+    enteredAt: number; // ms timestamp of the current stay
+    lastSeen: number;  // ms timestamp of the last observation inside
+}
+
+export class ZoneOccupancy {
+    private stays = new Map<string, Map<number, DwellRecord>>(); // zoneId -> trackId -> stay
+
+    // Record an observation; returns the current dwell in ms (0 when outside)
+    update(zoneId: string, trackId: number, inside: boolean, time: number): number {
+        let zone = this.stays.get(zoneId);
+        if (!inside) {
+            zone?.delete(trackId);
+            return 0;
+        }
+        if (!zone) {
+            zone = new Map();
+            this.stays.set(zoneId, zone);
+        }
+        let stay = zone.get(trackId);
+        if (!stay) {
+            stay = { enteredAt: time, lastSeen: time };
+            zone.set(trackId, stay);
+        }
+        stay.lastSeen = time;
+        return time - stay.enteredAt;
+    }
+
+    isInside(zoneId: string, trackId: number): boolean {
+        return !!this.stays.get(zoneId)?.has(trackId);
+    }
+
+    dwell(zoneId: string, trackId: number): number {
+        const stay = this.stays.get(zoneId)?.get(trackId);
+        return stay ? stay.lastSeen - stay.enteredAt : 0;
+    }
+
+    occupants(zoneId: string): number[] {
+        return Array.from(this.stays.get(zoneId)?.keys() || []);
+    }
+
+    // Drop tracks that no longer exist
+    retain(trackIds: Set<number>) {
+        this.stays.forEach(zone => {
+            zone.forEach((_, trackId) => {
+                if (!trackIds.has(trackId)) zone.delete(trackId);
+            });
+        });
+    }
+
+    clear() {
+        this.stays.clear();
+    }
+}